@@ -0,0 +1,133 @@
+// Local WebSocket relay for live collaboration, speaking the y-websocket protocol.
+// Each room (the URL path, i.e. the flowchart uuid) keeps its Yjs document in memory so
+// late joiners get the current state. Meant for development and tests, not production.
+//
+//   npm run collab-server            # ws://localhost:1234
+//   PORT=4444 npm run collab-server
+
+import { WebSocketServer } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+
+const HOST = process.env.HOST || 'localhost';
+const PORT = Number(process.env.PORT) || 1234;
+const PING_INTERVAL_MS = 30000;
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+// room name -> { doc, awareness, connections: Map<socket, Set<awareness client id>> }
+const rooms = new Map();
+
+const send = (socket, message) => {
+  if (socket.readyState !== socket.OPEN) return;
+  socket.send(message, (error) => {
+    if (error) socket.close();
+  });
+};
+
+const broadcast = (room, message) => room.connections.forEach((_, socket) => send(socket, message));
+
+const getRoom = (name) => {
+  if (rooms.has(name)) return rooms.get(name);
+
+  const doc = new Y.Doc();
+  const awareness = new awarenessProtocol.Awareness(doc);
+  awareness.setLocalState(null); // The server itself is not a participant
+  const room = { doc, awareness, connections: new Map() };
+
+  doc.on('update', (update) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    broadcast(room, encoding.toUint8Array(encoder));
+  });
+
+  awareness.on('update', ({ added, updated, removed }, origin) => {
+    // Remember which awareness clients each socket controls, to clean up when it closes
+    const clientIds = room.connections.get(origin);
+    if (clientIds) {
+      added.forEach(id => clientIds.add(id));
+      removed.forEach(id => clientIds.delete(id));
+    }
+    const changed = added.concat(updated, removed);
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, changed));
+    broadcast(room, encoding.toUint8Array(encoder));
+  });
+
+  rooms.set(name, room);
+  return room;
+};
+
+const handleMessage = (room, socket, data) => {
+  const decoder = decoding.createDecoder(new Uint8Array(data));
+  const messageType = decoding.readVarUint(decoder);
+  if (messageType === MESSAGE_SYNC) {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.readSyncMessage(decoder, encoder, room.doc, socket);
+    // Only sync step 1 needs an answer; the encoder holds just the message type otherwise
+    if (encoding.length(encoder) > 1) send(socket, encoding.toUint8Array(encoder));
+  } else if (messageType === MESSAGE_AWARENESS) {
+    awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), socket);
+  }
+};
+
+const server = new WebSocketServer({ host: HOST, port: PORT });
+
+server.on('connection', (socket, request) => {
+  const name = decodeURIComponent((request.url || '/').slice(1).split('?')[0]) || 'default';
+  const room = getRoom(name);
+  room.connections.set(socket, new Set());
+  socket.binaryType = 'arraybuffer';
+  socket.isAlive = true;
+
+  socket.on('pong', () => { socket.isAlive = true; });
+  socket.on('message', (data) => {
+    try {
+      handleMessage(room, socket, data);
+    } catch (error) {
+      console.error(`[${name}] Bad message:`, error);
+    }
+  });
+  socket.on('close', () => {
+    const clientIds = room.connections.get(socket);
+    room.connections.delete(socket);
+    if (clientIds?.size) awarenessProtocol.removeAwarenessStates(room.awareness, Array.from(clientIds), null);
+    console.log(`[${name}] Client left, ${room.connections.size} connected`);
+  });
+
+  // Start the sync: send the room's state vector and everyone's cursors
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  syncProtocol.writeSyncStep1(encoder, room.doc);
+  send(socket, encoding.toUint8Array(encoder));
+  const states = room.awareness.getStates();
+  if (states.size > 0) {
+    const awarenessEncoder = encoding.createEncoder();
+    encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(awarenessEncoder, awarenessProtocol.encodeAwarenessUpdate(room.awareness, Array.from(states.keys())));
+    send(socket, encoding.toUint8Array(awarenessEncoder));
+  }
+  console.log(`[${name}] Client joined, ${room.connections.size} connected`);
+});
+
+// Drop connections that stopped answering
+const pingTimer = setInterval(() => {
+  server.clients.forEach((socket) => {
+    if (!socket.isAlive) {
+      socket.terminate();
+      return;
+    }
+    socket.isAlive = false;
+    socket.ping();
+  });
+}, PING_INTERVAL_MS);
+
+server.on('close', () => clearInterval(pingTimer));
+server.on('listening', () => console.log(`Collaboration relay listening on ws://${HOST}:${PORT}`));
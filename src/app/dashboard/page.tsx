@@ -0,0 +1,222 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Layout, Table, Progress, Tag, Button, Result, Space, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { ReloadOutlined, ArrowLeftOutlined } from '@ant-design/icons';
+import { useAuth } from '@/hooks/useAuth';
+import LoginModal from '@/components/LoginModal';
+import { getFlowchartRepository, FlowchartSummary, FlowchartData } from '@/storage/flowchartRepository';
+import { getFlowchartStats, FlowchartStats } from '@/utils/flowStats';
+import { LinkedFlowchart, getLinkTargets, getLinkedTaskStates, applyLinkedTaskStates } from '@/utils/linkedTasks';
+import { applyGroupStates } from '@/utils/taskGroups';
+
+const { Header, Content } = Layout;
+const { Text } = Typography;
+
+// Flowcharts are loaded a few at a time to go easy on the backend
+const LOAD_CONCURRENCY = 4;
+
+interface DashboardRow {
+  uuid: string;
+  tag: string;
+  created_time: string;
+  stats?: FlowchartStats;
+  error?: string;
+}
+
+type DashboardState =
+  | { status: 'loading'; loaded: number; total: number }
+  | { status: 'login' }
+  | { status: 'error'; error: string }
+  | { status: 'ready'; rows: DashboardRow[] };
+
+const loadAll = async (summaries: FlowchartSummary[], onProgress: (loaded: number) => void) => {
+  const repository = getFlowchartRepository();
+  const results = new Map<string, FlowchartData | Error>();
+  let next = 0;
+  const worker = async () => {
+    while (next < summaries.length) {
+      const { uuid } = summaries[next++];
+      try {
+        results.set(uuid, await repository.load(uuid));
+      } catch (error) {
+        results.set(uuid, error instanceof Error ? error : new Error('未知错误'));
+      }
+      onProgress(results.size);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(LOAD_CONCURRENCY, summaries.length) }, worker));
+  return results;
+};
+
+// Progress of every saved flowchart; linked tasks count as done when their target is, groups when
+// all their tasks are
+const buildRows = (summaries: FlowchartSummary[], results: Map<string, FlowchartData | Error>): DashboardRow[] => {
+  const targets = new Map<string, LinkedFlowchart>();
+  results.forEach((result, uuid) => {
+    targets.set(uuid, result instanceof Error ? { status: 'error', error: result.message } : getLinkTargets(result));
+  });
+  return summaries.map(summary => {
+    const result = results.get(summary.uuid);
+    if (!result || result instanceof Error) {
+      return { ...summary, error: result?.message ?? '未加载' };
+    }
+    const nodes = applyGroupStates(applyLinkedTaskStates(result.nodes, getLinkedTaskStates(result.nodes, targets)));
+    return { ...summary, stats: getFlowchartStats(nodes, result.edges) };
+  });
+};
+
+const columns: ColumnsType<DashboardRow> = [
+  {
+    title: '流程图',
+    dataIndex: 'tag',
+    sorter: (a, b) => a.tag.localeCompare(b.tag),
+    render: (tag: string, row) => <Link href={`/?talk=${row.uuid}`}>{tag || '未命名'}</Link>,
+  },
+  {
+    title: '完成度',
+    key: 'percent',
+    width: 240,
+    sorter: (a, b) => (a.stats?.percent ?? -1) - (b.stats?.percent ?? -1),
+    render: (_, row) => row.stats
+      ? (
+        <Space>
+          <Progress percent={row.stats.percent} size="small" style={{ width: '140px', margin: 0 }} />
+          <Text type="secondary" style={{ fontSize: '12px' }}>{row.stats.completed}/{row.stats.total}</Text>
+        </Space>
+      )
+      : <Text type="danger" style={{ fontSize: '12px' }}>{row.error}</Text>,
+  },
+  {
+    title: '阻塞',
+    key: 'blocked',
+    width: 100,
+    sorter: (a, b) => (a.stats?.blocked ?? -1) - (b.stats?.blocked ?? -1),
+    render: (_, row) => row.stats && (row.stats.blocked > 0 ? <Tag color="orange">{row.stats.blocked}</Tag> : <Text type="secondary">0</Text>),
+  },
+  {
+    title: '逾期',
+    key: 'overdue',
+    width: 100,
+    sorter: (a, b) => (a.stats?.overdue ?? -1) - (b.stats?.overdue ?? -1),
+    render: (_, row) => row.stats && (row.stats.overdue > 0 ? <Tag color="red">{row.stats.overdue}</Tag> : <Text type="secondary">0</Text>),
+  },
+  {
+    title: '创建时间',
+    dataIndex: 'created_time',
+    width: 180,
+    defaultSortOrder: 'descend',
+    sorter: (a, b) => new Date(a.created_time).getTime() - new Date(b.created_time).getTime(),
+    render: (time: string) => new Date(time).toLocaleString(),
+  },
+];
+
+// Overview of all saved flowcharts with their completion, blocked and overdue tasks
+export default function DashboardPage() {
+  const { login, checkTokenValidity } = useAuth();
+  const [state, setState] = useState<DashboardState>({ status: 'loading', loaded: 0, total: 0 });
+  const [showLoginModal, setShowLoginModal] = useState(false);
+
+  const load = useCallback(async () => {
+    const repository = getFlowchartRepository();
+    if (repository.requiresAuth && !checkTokenValidity()) {
+      setState({ status: 'login' });
+      return;
+    }
+    setState({ status: 'loading', loaded: 0, total: 0 });
+    try {
+      const summaries = await repository.list();
+      setState({ status: 'loading', loaded: 0, total: summaries.length });
+      const results = await loadAll(summaries, loaded => setState({ status: 'loading', loaded, total: summaries.length }));
+      setState({ status: 'ready', rows: buildRows(summaries, results) });
+    } catch (error) {
+      setState({ status: 'error', error: error instanceof Error ? error.message : '未知错误' });
+    }
+  }, [checkTokenValidity]);
+
+  useEffect(() => {
+    // Deferred so the first render shows the spinner rather than waiting on the auth check
+    const timer = window.setTimeout(load);
+    return () => window.clearTimeout(timer);
+  }, [load]);
+
+  const totals = useMemo(() => {
+    if (state.status !== 'ready') return null;
+    const stats = state.rows.flatMap(row => (row.stats ? [row.stats] : []));
+    const total = stats.reduce((sum, s) => sum + s.total, 0);
+    const completed = stats.reduce((sum, s) => sum + s.completed, 0);
+    return {
+      total,
+      percent: total > 0 ? Math.round((completed / total) * 100) : 0,
+      blocked: stats.reduce((sum, s) => sum + s.blocked, 0),
+      overdue: stats.reduce((sum, s) => sum + s.overdue, 0),
+    };
+  }, [state]);
+
+  let body: React.ReactNode;
+  if (state.status === 'login') {
+    body = (
+      <Result
+        status="info"
+        title="请先登录"
+        subTitle="登录后即可查看所有流程图的进度"
+        extra={<Button type="primary" onClick={() => setShowLoginModal(true)}>登录</Button>}
+      />
+    );
+  } else if (state.status === 'error') {
+    body = <Result status="warning" title="无法获取流程图列表" subTitle={state.error} extra={<Button onClick={load}>重试</Button>} />;
+  } else {
+    body = (
+      <>
+        {totals && (
+          <div style={{ marginBottom: '16px' }}>
+            <Text>
+              共 {state.status === 'ready' ? state.rows.length : 0} 个流程图 · 任务 {totals.total} 个 · 已完成 {totals.percent}%
+              {' · '}阻塞 {totals.blocked} · 逾期 {totals.overdue}
+            </Text>
+          </div>
+        )}
+        <Table
+          rowKey="uuid"
+          size="middle"
+          columns={columns}
+          dataSource={state.status === 'ready' ? state.rows : []}
+          loading={state.status === 'loading' && {
+            tip: state.total > 0 ? `正在加载 ${state.loaded}/${state.total}` : '正在获取流程图列表',
+          }}
+          pagination={{ pageSize: 20, hideOnSinglePage: true }}
+          locale={{ emptyText: '还没有保存的流程图' }}
+        />
+      </>
+    );
+  }
+
+  return (
+    <Layout style={{ minHeight: '100vh' }}>
+      <Header style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', background: '#fff', borderBottom: '1px solid #f0f0f0', padding: '0 24px' }}>
+        <Space size="large">
+          <div style={{ fontSize: '1.5rem', fontWeight: 'bold' }}>Visual TodoFlow</div>
+          <Text style={{ fontSize: '1.2rem' }}>总览</Text>
+        </Space>
+        <Space>
+          <Button icon={<ReloadOutlined />} onClick={load} disabled={state.status === 'loading'}>刷新</Button>
+          <Link href="/"><Button icon={<ArrowLeftOutlined />}>返回编辑器</Button></Link>
+        </Space>
+      </Header>
+      <Content style={{ padding: '24px', background: '#fff' }}>
+        {body}
+      </Content>
+      <LoginModal
+        open={showLoginModal}
+        onCancel={() => setShowLoginModal(false)}
+        onSuccess={(token) => {
+          login(token);
+          setShowLoginModal(false);
+          load();
+        }}
+      />
+    </Layout>
+  );
+}
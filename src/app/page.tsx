@@ -2,12 +2,35 @@
 
 import React, { useState, useCallback, useRef, DragEvent, useMemo, MouseEvent, useEffect, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { Layout, Button, Space, Dropdown, MenuProps, Modal, List, Input, message } from 'antd';
-import { LogoutOutlined, SaveOutlined, FileTextOutlined, PictureOutlined, PaperClipOutlined, ShareAltOutlined, PlusOutlined, CopyOutlined, ScissorOutlined, DeleteOutlined, DisconnectOutlined, CloseCircleOutlined } from '@ant-design/icons';
+import { Layout, Button, Space, Dropdown, MenuProps, Modal, List, Input, InputNumber, Radio, Alert, Tag, Avatar, Tooltip, Tabs, message } from 'antd';
+import { LogoutOutlined, LinkOutlined, ThunderboltOutlined, DashboardOutlined, SearchOutlined, SaveOutlined, FileTextOutlined, PictureOutlined, PaperClipOutlined, ShareAltOutlined, PlusOutlined, CopyOutlined, ScissorOutlined, DeleteOutlined, DisconnectOutlined, CloseCircleOutlined, UndoOutlined, RedoOutlined, ApartmentOutlined, FolderOpenOutlined, DownloadOutlined, UploadOutlined, FileImageOutlined, CloudSyncOutlined, WarningOutlined, HistoryOutlined, TeamOutlined, GroupOutlined, UngroupOutlined, CompressOutlined } from '@ant-design/icons';
 import type { MenuInfo } from 'rc-menu/lib/interface';
 import { useAuth } from '@/hooks/useAuth';
+import { useUndoRedo, UndoRedoContext } from '@/hooks/useUndoRedo';
+import { useAutoLayout } from '@/hooks/useAutoLayout';
+import { useFlowTabs, createTabDocument, FlowTabDocument, FlowTabContent } from '@/hooks/useFlowTabs';
+import { useLinkedTasks, LinkedTaskContext } from '@/hooks/useLinkedTasks';
+import { useKeymap, KeymapHandlers } from '@/hooks/useKeymap';
+import { NodeEditContext, createNodeEditRequests } from '@/hooks/useNodeEditRequest';
 import LoginModal from '@/components/LoginModal';
-import { API_ENDPOINTS, getAuthHeaders } from '@/config/api';
+import { getFlowchartRepository, FlowchartSummary, FlowchartData } from '@/storage/flowchartRepository';
+import { getSyncBase, setSyncBase, hasRemoteChangedSinceBase } from '@/storage/syncOutbox';
+import { getRevisionHistory, FlowchartRevision } from '@/storage/revisionHistory';
+import { getSearchIndex } from '@/storage/searchIndex';
+import { useSyncQueue, SyncConflictChoice, SyncResult } from '@/hooks/useSyncQueue';
+import SyncConflictModal from '@/components/SyncConflictModal';
+import RevisionHistoryDrawer from '@/components/RevisionHistoryDrawer';
+import ShareModal from '@/components/ShareModal';
+import GlobalSearchModal from '@/components/GlobalSearchModal';
+import FindBar from '@/components/FindBar';
+import CommandPalette, { PaletteCommand } from '@/components/CommandPalette';
+import KeymapSettingsModal from '@/components/KeymapSettingsModal';
+import QuickTaskEntry from '@/components/QuickTaskEntry';
+import TaskInspector from '@/components/TaskInspector';
+import CollaboratorCursors from '@/components/CollaboratorCursors';
+import { useCollaboration, CollabStatus } from '@/hooks/useCollaboration';
+import { CollabFlow, mergeRemoteNodes } from '@/utils/collabDoc';
+import { saveToLocalStorage, loadFromLocalStorage, clearFromLocalStorage, cleanupLocalStorage, saveNewFlowchartDraft, loadNewFlowchartDraft, clearNewFlowchartDraft } from '@/storage/localDrafts';
 import ReactFlow, {
   Controls,
   Background,
@@ -25,6 +48,7 @@ import ReactFlow, {
   NodeTypes,
   ReactFlowInstance,
   MarkerType, // Import MarkerType for edge arrowheads
+  Panel,
 } from 'reactflow';
 
 import 'reactflow/dist/style.css';
@@ -35,10 +59,38 @@ import TextNode from '@/components/nodes/TextNode';
 import ImageNode from '@/components/nodes/ImageNode';
 import AttachmentNode from '@/components/nodes/AttachmentNode';
 import SocialNode from '@/components/nodes/SocialNode';
+import LinkedTaskNode from '@/components/nodes/LinkedTaskNode';
+import GroupNode from '@/components/nodes/GroupNode';
 import TodoList from '@/components/TodoList'; // Import TodoList component
+import { getTaskStatuses, TASK_STATUS_META } from '@/utils/taskStatus';
+import { findCycles, wouldCreateCycle, getOrderedTasks } from '@/utils/taskGraph';
+import { computeSchedule } from '@/utils/schedule';
+import { ClipboardPayload, CLIPBOARD_FORMAT, createClipboardPayload, parseClipboardPayload, instantiateClipboardPayload } from '@/utils/clipboard';
+import { isEditableTarget, isMacPlatform } from '@/utils/keyboard';
+import { KeymapAction, formatShortcut } from '@/utils/keymap';
+import { FlowFile, FLOW_FILE_EXTENSION, createFlowFile, parseFlowFile, remapForMerge, getFlowFileName, downloadTextFile, downloadUrl } from '@/utils/flowFile';
+import { MARKDOWN_FILE_EXTENSION, createMarkdownChecklist, parseMarkdownChecklist } from '@/utils/markdownChecklist';
+import { instantiateTaskGraph, placeTaskGraph } from '@/utils/taskImport';
+import { parseQuickEntry, getQuickEntryAnchor } from '@/utils/quickEntry';
+import { MERMAID_FILE_EXTENSION, createMermaidFlowchart, parseMermaidFlowchart } from '@/utils/mermaid';
+import { DOT_FILE_EXTENSION, createDotGraph } from '@/utils/graphviz';
+import { ImageExportOptions, ImageFormat, DEFAULT_IMAGE_EXPORT_OPTIONS, exportFlowImage } from '@/utils/imageExport';
+import { TASK_EDGE_STYLE, DEFAULT_EDGE_COLOR, isSameFlowContent, getDisplayContent, createTaskEdge, getFreeAreaOrigin } from '@/utils/flowData';
+import { mergeFlowVersions } from '@/utils/flowMerge';
+import { applyLinkedTaskStates } from '@/utils/linkedTasks';
+import { FlowFilter, EMPTY_FLOW_FILTER, getVisibleNodeIds, getFindMatches } from '@/utils/flowFilter';
+import { collectTaskAssignees, collectTaskTags } from '@/utils/taskMeta';
+import {
+  GROUP_NODE_TYPE, DEFAULT_GROUP_SIZE, isGroupNode, applyGroupStates, getCollapsedOwners, rerouteCollapsedEdge,
+  setGroupCollapsed, groupNodes, ungroupNode, reparentNodes, withDescendants,
+} from '@/utils/taskGroups';
 
 const { Header, Sider, Content } = Layout; // Ant Design Layout components
 
+// Distance the arrow keys move selected nodes, and how close nudges must be to undo together
+const NUDGE_STEP = 10;
+const NUDGE_MERGE_MS = 1000;
+
 // --- Styles ---
 // ... (styles remain the same)
 const headerStyle: React.CSSProperties = {
@@ -66,6 +118,8 @@ const contentWrapperStyle: React.CSSProperties = {
   margin: 0,
   backgroundColor: '#f0f2f5',
   height: 'calc(100vh - 64px)',
+  display: 'flex', // Tab bar on top, canvas fills the rest
+  flexDirection: 'column',
   // width: '100%', // Let Layout handle width distribution
 };
 
@@ -91,115 +145,17 @@ const generateUuid = () => {
   });
 };
 
+// Keep the full-text search index in step with what was loaded or saved
+const indexForSearch = (data: FlowchartData) => {
+  getSearchIndex().put(data).catch(error => console.error('Failed to update search index:', error));
+};
+
 // --- Initial Data & ID Generation ---
 const initialNodes: Node[] = [];
 const initialEdges: Edge[] = [];
 
 // Initialize ID counter
 let id = 1;
-// --- Local Storage Helpers ---
-const LOCAL_STORAGE_PREFIX = 'visual-todoflow:';
-
-const saveToLocalStorage = (uuid: string, data: { nodes: Node[], edges: Edge[], tag: string }) => {
-  if (!uuid) return; // Don't save if UUID is missing
-  try {
-    const dataToStore = {
-      ...data,
-      savedAt: Date.now() // Add timestamp
-    };
-    localStorage.setItem(`${LOCAL_STORAGE_PREFIX}${uuid}`, JSON.stringify(dataToStore));
-    // console.log(`Saved to LS: ${uuid}`);
-  } catch (error) {
-    console.error("Failed to save to local storage:", error);
-    // Optionally, inform the user or implement more robust error handling
-  }
-};
-
-const loadFromLocalStorage = (uuid: string): { nodes: Node[], edges: Edge[], tag: string, savedAt?: number } | null => {
-  if (!uuid) return null;
-  try {
-    const item = localStorage.getItem(`${LOCAL_STORAGE_PREFIX}${uuid}`);
-    // console.log(`Attempted load from LS: ${uuid}, Found: ${!!item}`);
-    if (!item) return null;
-    const parsedData = JSON.parse(item);
-    // Basic check if it looks like our data (can be improved)
-    // Check for timestamp existence as part of validation now
-    if (parsedData && typeof parsedData === 'object' && ('nodes' in parsedData || 'edges' in parsedData) && 'savedAt' in parsedData) {
-      return parsedData;
-    }
-    // If data is invalid or old format without timestamp, treat as null and remove
-    console.warn("Invalid or old format data found in local storage for:", uuid);
-    localStorage.removeItem(`${LOCAL_STORAGE_PREFIX}${uuid}`);
-    return null;
-
-  } catch (error) {
-    console.error("Failed to load from local storage:", error);
-    localStorage.removeItem(`${LOCAL_STORAGE_PREFIX}${uuid}`); // Clear corrupted item
-    return null;
-  }
-};
-
-const clearFromLocalStorage = (uuid: string) => {
-  if (!uuid) return;
-  try {
-    localStorage.removeItem(`${LOCAL_STORAGE_PREFIX}${uuid}`);
-    // console.log(`Cleared from LS: ${uuid}`);
-  } catch (error) {
-    console.error("Failed to clear from local storage:", error);
-  }
-};
-
-// --- Local Storage Cleanup ---
-const CLEANUP_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
-
-const cleanupLocalStorage = () => {
-  const now = Date.now();
-  let itemsRemoved = 0;
-  try {
-    // Iterate safely over keys
-    const keysToRemove: string[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(LOCAL_STORAGE_PREFIX)) {
-        const item = localStorage.getItem(key);
-        if (item) {
-          try {
-            const parsedData = JSON.parse(item);
-            // Check if it has a timestamp and if it's older than the interval
-            if (parsedData.savedAt && (now - parsedData.savedAt > CLEANUP_INTERVAL_MS)) {
-              keysToRemove.push(key);
-            } else if (!parsedData.savedAt) {
-              // Also remove items without a timestamp (old format)
-              console.log(`Removing old format LS item (no timestamp): ${key}`);
-              keysToRemove.push(key);
-            }
-          } catch (parseError) {
-            // If parsing fails, it might be corrupted, remove it
-            console.warn(`Removing potentially corrupted LS item: ${key}`, parseError);
-            keysToRemove.push(key);
-          }
-        } else {
-          // If key exists but item is null/undefined somehow, mark for removal
-          keysToRemove.push(key);
-        }
-      }
-    }
-
-    // Remove identified keys
-    keysToRemove.forEach(key => {
-      localStorage.removeItem(key);
-      itemsRemoved++;
-    });
-
-    if (itemsRemoved > 0) {
-      console.log(`Local storage cleanup removed ${itemsRemoved} old or invalid item(s).`);
-    }
-  } catch (error) {
-    console.error("Error during local storage cleanup:", error);
-  }
-};
-
-
 // --- Draggable Sidebar Item ---
 // ... (DraggableItem component remains the same)
 interface DraggableItemProps {
@@ -240,6 +196,14 @@ interface FlowEditorProps {
   searchParams: ReturnType<typeof useSearchParams>;
 }
 
+// Header tag for each collaboration connection state
+const COLLAB_STATUS_META: Record<CollabStatus, { label: string; color: string }> = {
+  off: { label: '未协作', color: 'default' },
+  connecting: { label: '连接中', color: 'processing' },
+  connected: { label: '协作中', color: 'success' },
+  disconnected: { label: '协作已断开', color: 'error' },
+};
+
 const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
   const { isAuthenticated, login, logout, checkTokenValidity } = useAuth(); // Import checkTokenValidity
   const [showLoginModal, setShowLoginModal] = useState(false); // Initialize to false
@@ -247,35 +211,148 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
 
   // 使用 useMessage 钩子创建消息 API 和上下文持有者
   const [messageApi, contextHolder] = message.useMessage();
+  const [modalApi, modalContextHolder] = Modal.useModal();
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   const [nodes, setNodes] = useState<Node[]>(initialNodes);
   const [edges, setEdges] = useState<Edge[]>(initialEdges);
   const [reactFlowInstance, setReactFlowInstance] = useState<ReactFlowInstance | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
-  const [flowcharts, setFlowcharts] = useState<Array<{ tag: string; uuid: string; created_time: string }>>([]);
+  const [flowcharts, setFlowcharts] = useState<FlowchartSummary[]>([]);
   const [filterText, setFilterText] = useState(''); // State for filter input
   const [isSaving, setIsSaving] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isFindOpen, setIsFindOpen] = useState(false);
+  const [flowFilter, setFlowFilter] = useState<FlowFilter>(EMPTY_FLOW_FILTER);
+  const [findIndex, setFindIndex] = useState<number | null>(null);
+  const [findFocusKey, setFindFocusKey] = useState(0);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isKeymapOpen, setIsKeymapOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [hoveredEdgeId, setHoveredEdgeId] = useState<string | null>(null);
   const [currentTag, setCurrentTag] = useState<string>("未命名");
   const [currentUuid, setCurrentUuid] = useState<string>(generateUuid());
   const [flowchartToDelete, setFlowchartToDelete] = useState<{ uuid: string; tag: string } | null>(null); // State for delete confirmation
+  // Strict mode refuses dependency loops and checking off tasks before their predecessors
+  const [strictMode, setStrictMode] = useState(false);
+
+  // Undo/redo history for canvas edits
+  const { takeSnapshot, beginTransaction, endTransaction, undo, redo, getHistory, restoreHistory, canUndo, canRedo } = useUndoRedo({ nodes, edges, setNodes, setEdges });
+  const undoRedoContextValue = useMemo(() => ({ takeSnapshot }), [takeSnapshot]);
+
+  // Storage backend for saved flowcharts; local-only backends work without logging in
+  const repository = useMemo(() => getFlowchartRepository(), []);
+  const canUseStorage = isAuthenticated || !repository.requiresAuth;
+
+  // Content of the open flowchart as last loaded or saved; edits are whatever differs from it
+  const savedContentRef = useRef<FlowTabContent | null>(null);
+  // Read after async loads and saves, which may finish once another tab is active
+  const activeUuidRef = useRef(currentUuid);
+  useEffect(() => {
+    activeUuidRef.current = currentUuid;
+  }, [currentUuid]);
+
+  // --- Flowchart Tabs ---
+  const captureTabDocument = useCallback((): FlowTabDocument => ({
+    uuid: currentUuid,
+    tag: currentTag,
+    nodes,
+    edges,
+    hasUnsavedChanges,
+    savedContent: savedContentRef.current,
+    viewport: reactFlowInstance?.getViewport() ?? null,
+    history: getHistory(),
+  }), [currentUuid, currentTag, nodes, edges, hasUnsavedChanges, reactFlowInstance, getHistory]);
+
+  const showTabDocument = useCallback((document: FlowTabDocument) => {
+    setNodes(document.nodes);
+    setEdges(document.edges);
+    setCurrentTag(document.tag);
+    setCurrentUuid(document.uuid);
+    setHasUnsavedChanges(document.hasUnsavedChanges);
+    savedContentRef.current = document.savedContent;
+    activeUuidRef.current = document.uuid;
+    restoreHistory(document.history);
+    reactFlowInstance?.setViewport(document.viewport ?? { x: 0, y: 0, zoom: 1 });
+  }, [reactFlowInstance, restoreHistory]);
+
+  const createEmptyTabDocument = useCallback(() => createTabDocument(generateUuid(), { tag: '未命名', nodes: [], edges: [] }), []);
+
+  const {
+    tabs: flowTabs, isOpen: isTabOpen, hasUnsavedBackgroundTabs, activate: activateTab, openTab, closeTab, updateBackgroundTab,
+  } = useFlowTabs({
+    active: { uuid: currentUuid, tag: currentTag, hasUnsavedChanges },
+    captureActive: captureTabDocument,
+    showDocument: showTabDocument,
+    createEmptyDocument: createEmptyTabDocument,
+  });
+
+  // Change a flowchart wherever it is open: in the editor or in a background tab
+  const updateOpenFlowchart = useCallback((uuid: string, update: Partial<FlowTabContent> & { savedContent?: FlowTabContent; hasUnsavedChanges?: boolean }) => {
+    if (uuid !== activeUuidRef.current) {
+      updateBackgroundTab(uuid, update);
+      return;
+    }
+    if (update.nodes) setNodes(update.nodes);
+    if (update.edges) setEdges(update.edges);
+    if (update.tag !== undefined) setCurrentTag(update.tag);
+    if (update.savedContent) savedContentRef.current = update.savedContent;
+    if (update.hasUnsavedChanges !== undefined) setHasUnsavedChanges(update.hasUnsavedChanges);
+  }, [updateBackgroundTab]);
+
+  // Show the version picked for a sync conflict if the flowchart is open
+  const applySyncedVersion = useCallback((data: FlowchartData) => {
+    indexForSearch(data);
+    if (data.uuid === activeUuidRef.current) takeSnapshot();
+    updateOpenFlowchart(data.uuid, { nodes: data.nodes, edges: data.edges, tag: data.tag, savedContent: data, hasUnsavedChanges: false });
+  }, [takeSnapshot, updateOpenFlowchart]);
+
+  // Outbox that replays saves/deletes made while offline and detects conflicting edits
+  const {
+    isOnline, isSyncing, pendingCount, lastError: syncError, conflict: syncConflict,
+    reportConflict, resolveConflict, queueSave, queueDelete, hasPending, flush: flushSyncQueue,
+  } = useSyncQueue({ repository, enabled: canUseStorage, onResolved: applySyncedVersion });
+  // The conflict dialog can be put off; the header keeps a button to reopen it
+  const [isConflictDeferred, setIsConflictDeferred] = useState(false);
+
+  // Live collaboration on the open flowchart; the room is the flowchart uuid
+  const [isCollabEnabled, setIsCollabEnabled] = useState(false);
+  const collabFlow = useMemo<CollabFlow>(() => ({ tag: currentTag, nodes, edges }), [currentTag, nodes, edges]);
+  const applyRemoteFlow = useCallback((flow: CollabFlow) => {
+    setNodes(current => mergeRemoteNodes(current, flow.nodes));
+    setEdges(current => {
+      const selectedIds = new Set(current.filter(edge => edge.selected).map(edge => edge.id));
+      return flow.edges.map(edge => (selectedIds.has(edge.id) ? { ...edge, selected: true } : edge));
+    });
+    if (flow.tag) setCurrentTag(flow.tag);
+  }, []);
+  const {
+    status: collabStatus, peers, user: collabUser, updateCursor, updateSelection,
+  } = useCollaboration({ room: isCollabEnabled ? currentUuid : null, flow: collabFlow, onRemoteChange: applyRemoteFlow });
+  // Nodes selected by other users, outlined in their color
+  const peerSelections = useMemo(() => {
+    const selections = new Map<string, string>();
+    peers.forEach(peer => peer.selection.forEach(id => selections.set(id, peer.user.color)));
+    return selections;
+  }, [peers]);
+  const selectedNodeKey = useMemo(() => nodes.filter(node => node.selected).map(node => node.id).join(','), [nodes]);
+
+  useEffect(() => {
+    updateSelection(selectedNodeKey ? selectedNodeKey.split(',') : []);
+  }, [selectedNodeKey, updateSelection]);
 
   // 移除未使用的fetchListTags函数
 
   // Load unsaved changes from localStorage on mount
   useEffect(() => {
-    const unsavedData = localStorage.getItem(`${LOCAL_STORAGE_PREFIX}new`);
+    const unsavedData = loadNewFlowchartDraft();
     if (unsavedData) {
-      try {
-        const { nodes: savedNodes, edges: savedEdges, tag } = JSON.parse(unsavedData);
-        setNodes(savedNodes);
-        setEdges(savedEdges);
-        setCurrentTag(tag);
-        setHasUnsavedChanges(true);
-      } catch (error) {
-        console.error("Failed to load unsaved changes:", error);
-      }
+      setNodes(unsavedData.nodes);
+      setEdges(unsavedData.edges);
+      setCurrentTag(unsavedData.tag);
+      setHasUnsavedChanges(true);
     }
   }, []);
 
@@ -291,13 +368,13 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
 
     // If this is a new flowchart (no UUID) or has unsaved changes
     if (!currentUuid || hasUnsavedChanges) {
-      localStorage.setItem(`${LOCAL_STORAGE_PREFIX}new`, JSON.stringify(data));
+      saveNewFlowchartDraft(data);
     }
   }, [nodes, edges, currentTag, currentUuid, hasUnsavedChanges]);
   // Add beforeunload event handler
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      if (hasUnsavedChanges) {
+      if (hasUnsavedChanges || hasUnsavedBackgroundTabs) {
         e.preventDefault();
         // 现代浏览器中的标准方式
         const confirmationMessage = '您有未保存的更改，确定要离开吗？';
@@ -309,13 +386,13 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
 
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [hasUnsavedChanges]);
+  }, [hasUnsavedChanges, hasUnsavedBackgroundTabs]);
 
   // Define loadFlowchart outside of onClick
   // Helper function to generate UUID
 
   const loadFlowchart = useCallback(async (uuid: string, options: { skipLocalStorageCheck?: boolean } = {}) => {
-    if (!isAuthenticated) {
+    if (!canUseStorage) {
       messageApi.info({ content: '请先登录再加载流程图', duration: 3 });
       setShowLoginModal(true);
       return;
@@ -323,60 +400,64 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
 
     console.log('loadFlowchart called for uuid:', uuid);
     setIsLoading(true);
-    setHasUnsavedChanges(false);
     messageApi.loading({ content: '正在加载流程图...', key: 'loadFlow', duration: 0 });
 
     if (!options.skipLocalStorageCheck) {
       const localData = loadFromLocalStorage(uuid);
       if (localData) {
         console.log('Loaded from local storage:', uuid);
-        setNodes(localData.nodes);
-        setEdges(localData.edges);
-        setCurrentTag(localData.tag);
-        setCurrentUuid(uuid);
+        updateOpenFlowchart(uuid, { nodes: localData.nodes, edges: localData.edges, tag: localData.tag });
       }
     }
 
     try {
-      const response = await fetch(API_ENDPOINTS.notionLoad, {
-        method: 'POST',
-        headers: getAuthHeaders(),
-        body: JSON.stringify({ uuid }),
-      });
-
-      if (!response.ok) {
-        // If fetch fails but we loaded from LS, keep LS data, show warning
-        if (loadFromLocalStorage(uuid)) {
-          messageApi.warning({
-            content: '与服务器同步失败，显示本地版本',
-            key: 'loadFlow',
-            duration: 3
-          });
+      const data = await repository.load(uuid);
+      indexForSearch(data);
+      const localData = options.skipLocalStorageCheck ? null : loadFromLocalStorage(uuid);
+      const base = getSyncBase(uuid);
+      const hasLocalChanges = !!localData
+        && !isSameFlowContent(localData, data)
+        && (!base || !isSameFlowContent(localData, base));
+
+      if (localData && (hasLocalChanges || hasPending(uuid))) {
+        // The local version shown above stays on screen; ask only if the backend changed too
+        updateOpenFlowchart(uuid, { savedContent: data, hasUnsavedChanges: true });
+        if (hasPending(uuid) || (base && !hasRemoteChangedSinceBase(data, base))) {
+          messageApi.info({ content: '显示本地尚未同步的修改', key: 'loadFlow', duration: 3 });
         } else {
-          throw new Error('加载流程图失败，未找到本地版本');
-        }
-      } else {
-        const data = await response.json();
-        // Only update state if fetched data is different from current state
-        // (to avoid unnecessary re-renders if LS was up-to-date)
-        // Note: Deep comparison might be needed for accuracy, but simple length check for now
-        if (nodes.length !== data.nodes?.length || edges.length !== data.edges?.length || currentTag !== data.tag) {
-          console.log('Updating state from fetched data:', uuid);
-          setNodes(data.nodes || []);
-          setEdges(data.edges || []);
-          setCurrentTag(data.tag);
-          // Update local storage with fetched data
-          saveToLocalStorage(uuid, { nodes: data.nodes || [], edges: data.edges || [], tag: data.tag });
+          const local: FlowchartData = { uuid, tag: localData.tag, nodes: localData.nodes, edges: localData.edges, savedAt: localData.savedAt };
+          const merge = base ? mergeFlowVersions(base, local, data) : null;
+          if (merge && merge.conflicts.length === 0 && !merge.tagConflict) {
+            // The edits don't overlap: show both combined, to be saved on top of the backend copy
+            updateOpenFlowchart(uuid, { nodes: merge.merged.nodes, edges: merge.merged.edges, tag: merge.merged.tag });
+            setSyncBase(uuid, data);
+            messageApi.info({ content: '已自动合并本地和服务器上的修改，保存后生效', key: 'loadFlow', duration: 3 });
+            return;
+          }
+          reportConflict({ uuid, local, remote: data, base, source: 'load' });
+          setIsConflictDeferred(false);
+          messageApi.warning({ content: '本地和服务器上的版本都有修改，请选择如何处理', key: 'loadFlow', duration: 3 });
         }
-        setCurrentUuid(data.uuid); // Always ensure UUID is correct from source
-        setHasUnsavedChanges(false); // Reset unsaved changes flag after successful load/sync
-        localStorage.removeItem(`${LOCAL_STORAGE_PREFIX}new`); // Clear unsaved changes after successful load
-        messageApi.success({ content: '流程图加载成功', key: 'loadFlow', duration: 3 });
+        return;
       }
+
+      // The tab may have been switched away from while loading, so update it wherever it is
+      updateOpenFlowchart(uuid, { nodes: data.nodes, edges: data.edges, tag: data.tag, savedContent: data, hasUnsavedChanges: false });
+      // Update local storage with fetched data
+      saveToLocalStorage(uuid, { nodes: data.nodes, edges: data.edges, tag: data.tag });
+      setSyncBase(uuid, data);
+      clearNewFlowchartDraft(); // Clear unsaved changes after successful load
+      messageApi.success({ content: '流程图加载成功', key: 'loadFlow', duration: 3 });
     } catch (error) {
       console.error('Failed to load flowchart:', error);
-      // Only show error if we didn't load from LS
-      if (!loadFromLocalStorage(uuid)) {
+      // If loading fails but we loaded from LS, keep LS data, show warning
+      if (loadFromLocalStorage(uuid)) {
+        messageApi.warning({
+          content: '与服务器同步失败，显示本地版本',
+          key: 'loadFlow',
+          duration: 3
+        });
+      } else {
         messageApi.error({
           content: `加载流程图失败: ${error instanceof Error ? error.message : '未知错误'}`,
           key: 'loadFlow',
@@ -387,7 +468,113 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
       console.log('loadFlowchart fetch attempt completed');
       setIsLoading(false); // Set loading false after fetch attempt
     }
-  }, [setNodes, setEdges, setCurrentTag, setCurrentUuid, isAuthenticated, currentTag, nodes.length, edges.length, setShowLoginModal]); // Added missing dependencies
+  }, [canUseStorage, repository, hasPending, reportConflict, setShowLoginModal, updateOpenFlowchart]); // Added missing dependencies
+
+  // Linked tasks follow the completion of the task they point at in another flowchart
+  const { states: linkedTaskStates, refresh: refreshLinkedTasks } = useLinkedTasks({ nodes, repository, enabled: canUseStorage });
+  const taskNodes = useMemo(() => applyGroupStates(applyLinkedTaskStates(nodes, linkedTaskStates)), [nodes, linkedTaskStates]);
+  // Tasks inside collapsed groups; their edges end at the group card instead
+  const collapsedOwners = useMemo(() => getCollapsedOwners(nodes), [nodes]);
+
+  // Address of a tab: saved flowcharts can be reopened from the link, new ones live at the root
+  const getTabPath = useCallback(
+    (uuid: string) => (flowcharts.some(fc => fc.uuid === uuid) ? `/?talk=${uuid}` : '/'),
+    [flowcharts]
+  );
+
+  // Open a saved flowchart in its own tab, or switch to it if it is already open
+  const openFlowchart = useCallback((uuid: string) => {
+    if (activateTab(uuid)) return;
+    if (!canUseStorage) {
+      messageApi.info({ content: '请先登录再加载流程图', duration: 3 });
+      setShowLoginModal(true);
+      return;
+    }
+    // An untouched blank tab is reused rather than left behind
+    const isBlankTab = !hasUnsavedChanges && !savedContentRef.current && nodes.length === 0 && edges.length === 0;
+    const tag = flowcharts.find(fc => fc.uuid === uuid)?.tag ?? '未命名';
+    openTab(createTabDocument(uuid, { tag, nodes: [], edges: [] }), { replaceActive: isBlankTab });
+    loadFlowchart(uuid);
+  }, [activateTab, canUseStorage, hasUnsavedChanges, nodes, edges, flowcharts, openTab, loadFlowchart, messageApi]);
+
+  const linkedTaskContextValue = useMemo(() => ({
+    states: linkedTaskStates,
+    currentUuid,
+    openFlowchart: (uuid: string) => {
+      router.push(`/?talk=${uuid}`, { scroll: false });
+      openFlowchart(uuid);
+    },
+    refresh: refreshLinkedTasks,
+  }), [linkedTaskStates, currentUuid, router, openFlowchart, refreshLinkedTasks]);
+
+  // --- Global Search ---
+  // Search result to centre on once its flowchart is on the canvas
+  const pendingFocusRef = useRef<{ uuid: string; nodeId: string } | null>(null);
+
+  const centerOnNode = useCallback((node: Node) => {
+    const position = node.positionAbsolute ?? node.position;
+    reactFlowInstance?.setCenter(position.x + (node.width ?? 0) / 2, position.y + (node.height ?? 0) / 2, {
+      zoom: Math.max(reactFlowInstance.getZoom(), 1),
+      duration: 400,
+    });
+  }, [reactFlowInstance]);
+
+  useEffect(() => {
+    const pending = pendingFocusRef.current;
+    if (!pending || pending.uuid !== currentUuid || !reactFlowInstance) return;
+    const node = nodes.find(n => n.id === pending.nodeId);
+    if (node) {
+      pendingFocusRef.current = null;
+      centerOnNode(node);
+    } else if (!isLoading) {
+      pendingFocusRef.current = null;
+      messageApi.info({ content: '该节点已不在流程图中，搜索索引将在下次保存时更新', duration: 3 });
+    }
+  }, [nodes, currentUuid, isLoading, reactFlowInstance, centerOnNode, messageApi]);
+
+  const handleSearchPick = useCallback((uuid: string, nodeId: string | null) => {
+    setIsSearchOpen(false);
+    if (uuid === currentUuid) {
+      const node = nodes.find(n => n.id === nodeId);
+      if (node) centerOnNode(node);
+      return;
+    }
+    pendingFocusRef.current = nodeId ? { uuid, nodeId } : null;
+    router.push(`/?talk=${uuid}`, { scroll: false });
+    openFlowchart(uuid);
+  }, [currentUuid, nodes, centerOnNode, router, openFlowchart]);
+
+  const selectTab = useCallback((uuid: string) => {
+    if (activateTab(uuid)) router.push(getTabPath(uuid), { scroll: false });
+  }, [activateTab, getTabPath, router]);
+
+  const openNewTab = useCallback(() => {
+    openTab(createEmptyTabDocument());
+    router.push('/', { scroll: false });
+  }, [openTab, createEmptyTabDocument, router]);
+
+  // Closing a tab with unsaved changes discards them, so ask first
+  const requestCloseTab = useCallback((uuid: string) => {
+    const tab = flowTabs.find(other => other.uuid === uuid);
+    if (!tab) return;
+    const close = () => {
+      if (tab.hasUnsavedChanges) clearFromLocalStorage(uuid);
+      const nextUuid = closeTab(uuid);
+      if (uuid === activeUuidRef.current) router.push(getTabPath(nextUuid), { scroll: false });
+    };
+    if (!tab.hasUnsavedChanges) {
+      close();
+      return;
+    }
+    modalApi.confirm({
+      title: `关闭 "${tab.tag || '未命名'}"？`,
+      content: '该标签页有未保存的更改，关闭后这些更改将被丢弃。',
+      okText: '关闭',
+      okType: 'danger',
+      cancelText: '取消',
+      onOk: close,
+    });
+  }, [flowTabs, closeTab, getTabPath, router, modalApi]);
 
   const [isTagModalVisible, setIsTagModalVisible] = useState(false);
   const [tagInputValue, setTagInputValue] = useState('');
@@ -396,19 +583,124 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
   const [menu, setMenu] = useState<{ x: number; y: number; show: boolean }>({ x: 0, y: 0, show: false });
   // State for node context menu
   const [nodeMenu, setNodeMenu] = useState<{ x: number; y: number; show: boolean; nodeId: string | null }>({ x: 0, y: 0, show: false, nodeId: null });
-  // State for clipboard (for copy/paste)
-  const [clipboard, setClipboard] = useState<{ node: Node | null; type: 'copy' | 'cut' | null }>({ node: null, type: null });
+  // State for clipboard (for copy/paste); the same payload is mirrored to the system clipboard
+  const [clipboard, setClipboard] = useState<{ payload: ClipboardPayload | null; type: 'copy' | 'cut' | null }>({ payload: null, type: null });
+  // Last pointer position over the canvas, used as the anchor for keyboard pastes
+  const lastPointerRef = useRef<XYPosition | null>(null);
+
+  // Dependency loops, highlighted on the canvas
+  const cycles = useMemo(() => findCycles(nodes, edges), [nodes, edges]);
+  const cyclicNodeIds = useMemo(() => new Set(cycles.flatMap(cycle => cycle.nodeIds)), [cycles]);
+  const cyclicEdgeIds = useMemo(() => new Set(cycles.flatMap(cycle => cycle.edgeIds)), [cycles]);
+  // Critical path edges, highlighted on the canvas
+  const criticalEdgeIds = useMemo(() => computeSchedule(taskNodes, edges).criticalEdgeIds, [taskNodes, edges]);
+
+  // --- Find & Filter ---
+  // Nodes left by the find bar's filters (null when nothing is filtered) and the hits of its query
+  const visibleNodeIds = useMemo(
+    () => (isFindOpen ? getVisibleNodeIds(taskNodes, edges, flowFilter) : null),
+    [isFindOpen, taskNodes, edges, flowFilter]
+  );
+  const findMatches = useMemo(
+    () => (isFindOpen ? getFindMatches(taskNodes, flowFilter.query, visibleNodeIds) : []),
+    [isFindOpen, taskNodes, flowFilter.query, visibleNodeIds]
+  );
+  const findMatchIds = useMemo(() => new Set(findMatches.map(node => node.id)), [findMatches]);
+  // Hits change as the flowchart is edited, so keep the index in range
+  const currentFindIndex = findIndex === null || findMatches.length === 0 ? null : Math.min(findIndex, findMatches.length - 1);
+  const currentFindId = currentFindIndex === null ? null : findMatches[currentFindIndex].id;
+  const selectedNodeId = useMemo(() => nodes.find(node => node.selected)?.id ?? null, [nodes]);
+  const scopeLabel = useMemo(() => {
+    const scopeNode = flowFilter.scope && nodes.find(node => node.id === flowFilter.scope?.nodeId);
+    return scopeNode ? getDisplayContent(scopeNode) : null;
+  }, [nodes, flowFilter.scope]);
+
+  const stepFind = useCallback((delta: 1 | -1) => {
+    if (findMatches.length === 0) return;
+    const next = currentFindIndex === null
+      ? (delta === 1 ? 0 : findMatches.length - 1)
+      : (currentFindIndex + delta + findMatches.length) % findMatches.length;
+    setFindIndex(next);
+    reactFlowInstance?.fitView({ nodes: [{ id: findMatches[next].id }], duration: 300, maxZoom: 1.5 });
+  }, [findMatches, currentFindIndex, reactFlowInstance]);
+
+  const handleFilterChange = useCallback((filter: FlowFilter) => {
+    if (filter.query !== flowFilter.query) setFindIndex(null);
+    setFlowFilter(filter);
+  }, [flowFilter.query]);
+
+  // Closing the find bar shows the whole flowchart again
+  const closeFind = useCallback(() => {
+    setIsFindOpen(false);
+    setFlowFilter(EMPTY_FLOW_FILTER);
+    setFindIndex(null);
+  }, []);
+
+  // Ctrl+F by default; replaces the browser's page search on the editor
+  const openFind = useCallback(() => {
+    setIsFindOpen(true);
+    setFindFocusKey(key => key + 1);
+  }, []);
+
+  // Style canvas nodes by their dependency state (blocked/ready/done) and the find bar
+  const displayNodes = useMemo(() => {
+    const taskStatuses = getTaskStatuses(taskNodes, edges);
+    const isFinding = findMatches.length > 0 || flowFilter.query.trim() !== '';
+    return taskNodes.map(node => {
+      const status = taskStatuses.get(node.id);
+      const classNames = [
+        status && TASK_STATUS_META[status].className,
+        cyclicNodeIds.has(node.id) && 'task-in-cycle',
+        isFinding && !findMatchIds.has(node.id) && 'find-dimmed',
+        node.id === currentFindId && 'find-current',
+      ].filter(Boolean);
+      const peerColor = peerSelections.get(node.id);
+      const hidden = (!!visibleNodeIds && !visibleNodeIds.has(node.id)) || collapsedOwners.has(node.id);
+      if (classNames.length === 0 && !peerColor && !hidden) return node;
+      return {
+        ...node,
+        ...(classNames.length > 0 ? { className: classNames.join(' ') } : {}),
+        ...(peerColor ? { style: { ...node.style, boxShadow: `0 0 0 2px ${peerColor}`, borderRadius: '6px' } } : {}),
+        ...(hidden ? { hidden } : {}),
+      };
+    });
+  }, [taskNodes, edges, cyclicNodeIds, peerSelections, visibleNodeIds, collapsedOwners, findMatches, findMatchIds, currentFindId, flowFilter.query]);
+
   const nodeTypes: NodeTypes = useMemo(() => ({
     text: TextNode,
     image: ImageNode,
     attachment: AttachmentNode,
     social: SocialNode,
+    linked: LinkedTaskNode,
+    [GROUP_NODE_TYPE]: GroupNode,
   }), []);
+  const allowedNodeTypes = useMemo(() => Object.keys(nodeTypes), [nodeTypes]);
+  // Same names as the node palette
+  const nodeTypeOptions = useMemo(() => [
+    { value: 'text', label: 'Text' },
+    { value: 'image', label: 'Image' },
+    { value: 'attachment', label: 'Attachment' },
+    { value: 'social', label: 'Social Post' },
+    { value: 'linked', label: 'Linked Task' },
+    { value: GROUP_NODE_TYPE, label: 'Group' },
+  ], []);
+
+  // The inspector edits the one selected node; deselecting closes it
+  const inspectedNode = useMemo(() => {
+    const selected = nodes.filter(node => node.selected);
+    return selected.length === 1 ? selected[0] : null;
+  }, [nodes]);
+  const inspectedTypeLabel = nodeTypeOptions.find(option => option.value === inspectedNode?.type)?.label ?? '';
+  const assigneeOptions = useMemo(() => collectTaskAssignees(nodes), [nodes]);
+  const tagOptions = useMemo(() => collectTaskTags(nodes), [nodes]);
+  const closeInspector = useCallback(() => {
+    setNodes(nds => nds.map(node => (node.selected ? { ...node, selected: false } : node)));
+  }, [setNodes]);
 
   // Effect to control login modal based on auth state
   useEffect(() => {
     // Only show modal if auth check is complete and user is not authenticated
-    if (checkTokenValidity && !isAuthenticated) {
+    if (repository.requiresAuth && checkTokenValidity && !isAuthenticated) {
       // Check if checkTokenValidity is available before calling
       const isValid = checkTokenValidity();
       if (!isValid) {
@@ -419,7 +711,7 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
       setShowLoginModal(false);
     }
     // Add checkTokenValidity to dependency array if it's stable (useCallback)
-  }, [isAuthenticated, checkTokenValidity]);
+  }, [isAuthenticated, checkTokenValidity, repository]);
 
   const onNodesChange = useCallback(
     (changes: NodeChange[]) => {
@@ -444,27 +736,58 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
   const onConnect = useCallback(
     (connection: Connection) => {
       // Add standard arrowhead to new connections
-      const newEdge = {
-        ...connection,
-        markerEnd: {
-          type: MarkerType.ArrowClosed,
-          width: 20,
-          height: 20,
-          color: '#B1B1B7', // Default arrow color
-        },
-        style: {
-          strokeWidth: 2, // Default stroke width
-          stroke: '#B1B1B7', // Default stroke color
-        },
+      const newEdge = { ...connection, ...TASK_EDGE_STYLE };
+      const applyConnection = () => {
+        takeSnapshot();
+        setEdges((eds) => {
+          setHasUnsavedChanges(true);
+          return addEdge(newEdge, eds);
+        });
       };
-      setEdges((eds) => {
-        setHasUnsavedChanges(true);
-        return addEdge(newEdge, eds);
-      });
+
+      // Check whether the new edge would close a dependency loop
+      if (connection.source && connection.target && wouldCreateCycle(connection.source, connection.target, nodes, edges)) {
+        if (strictMode) {
+          messageApi.error({ content: '该连线会形成循环依赖，严格模式下不允许连接', duration: 3 });
+          return;
+        }
+        modalApi.confirm({
+          title: '形成循环依赖',
+          content: '该连线会让任务互相依赖，循环中的任务将无法正确排序。仍要连接吗？',
+          okText: '仍然连接',
+          cancelText: '取消',
+          onOk: applyConnection,
+        });
+        return;
+      }
+
+      applyConnection();
     },
-    [setEdges, setHasUnsavedChanges]
+    [setEdges, setHasUnsavedChanges, takeSnapshot, nodes, edges, strictMode, messageApi, modalApi]
   );
 
+  // --- History Handlers ---
+  // A whole drag (single node or selection) is recorded as one undo step
+  const onNodeDragStart = useCallback(() => {
+    beginTransaction();
+  }, [beginTransaction]);
+
+  // Dropping nodes onto a group makes them its subtasks, dragging them out of it takes them out
+  const onSelectionDragStop = useCallback((_event: React.MouseEvent, draggedNodes: Node[]) => {
+    const draggedIds = new Set(draggedNodes.map(node => node.id));
+    setNodes(nds => reparentNodes(nds, draggedIds));
+    endTransaction();
+  }, [setNodes, endTransaction]);
+
+  const onNodeDragStop = useCallback((event: React.MouseEvent, _node: Node, draggedNodes: Node[]) => {
+    onSelectionDragStop(event, draggedNodes);
+  }, [onSelectionDragStop]);
+
+  // Keyboard deletions (Backspace) go through React Flow, so snapshot before they are applied
+  const onElementsDelete = useCallback(() => {
+    takeSnapshot();
+  }, [takeSnapshot]);
+
   // --- Edge Hover Handlers ---
   const onEdgeMouseEnter = useCallback((_event: React.MouseEvent, edge: Edge) => {
     setHoveredEdgeId(edge.id);
@@ -496,7 +819,8 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
     return `${id++}`;
   }, [nodes]);
 
-  const addNode = useCallback((type: string, position: XYPosition) => {
+  // New node of the given type with its default data; data overrides some of it, e.g. the text
+  const createNode = useCallback((type: string, position: XYPosition, data: Record<string, unknown> = {}): Node => {
     interface NodeData {
       label: string;
       text?: string;
@@ -515,20 +839,69 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
       case 'image': nodeData = { label: 'Image Upload', imageUrl: undefined }; break; // Add imageUrl
       case 'attachment': nodeData = { label: 'File Attachment', fileName: undefined, fileUrl: undefined }; break; // Add fileName/fileUrl
       case 'social': nodeData = { label: 'Social Post Link', url: '' }; break; // Add url
+      case 'linked': nodeData = { label: '关联任务' }; break; // Points at a task once one is picked
+      case GROUP_NODE_TYPE: nodeData = { label: '新分组' }; break; // Subtasks are dragged into it
       default: nodeData = { label: `${type} node` };
     }
 
-    const newNode: Node = {
+    return {
       id: getId(),
       type,
       position,
-      data: nodeData,
+      data: { ...nodeData, ...data },
+      ...(type === GROUP_NODE_TYPE ? { style: { ...DEFAULT_GROUP_SIZE } } : {}),
     };
+  }, [getId]);
+
+  const addNode = useCallback((type: string, position: XYPosition) => {
+    const newNode = createNode(type, position);
+    takeSnapshot();
     setNodes((nds) => {
       setHasUnsavedChanges(true);
-      return nds.concat(newNode);
+      // Added onto a group, it becomes one of its subtasks
+      return reparentNodes(nds.concat(newNode), new Set([newNode.id]));
     });
-  }, [setNodes, getId, setHasUnsavedChanges]);
+  }, [setNodes, createNode, setHasUnsavedChanges, takeSnapshot]);
+
+  // --- Quick Task Entry ---
+  const [quickEntryFocusKey, setQuickEntryFocusKey] = useState(0);
+  const quickEntryAnchor = useMemo(() => getQuickEntryAnchor(nodes, edges), [nodes, edges]);
+  const quickEntryAnchorLabel = useMemo(() => (quickEntryAnchor ? getDisplayContent(quickEntryAnchor) : null), [quickEntryAnchor]);
+
+  // Text nodes for the typed tasks, chained with dependency edges and placed to the right of
+  // the task they continue from. The last new task is selected so the next entry follows it.
+  const addQuickTasks = useCallback((input: string, linkToAnchor: boolean) => {
+    const graph = parseQuickEntry(input);
+    if (graph.tasks.length === 0) return false;
+
+    const created = graph.tasks.map(task => createNode('text', { x: 0, y: 0 }, { text: task.text }));
+    const anchor = linkToAnchor ? quickEntryAnchor : null;
+    const origin = anchor
+      ? { x: anchor.position.x + (anchor.width ?? 200) + 80, y: anchor.position.y }
+      : getFreeAreaOrigin(nodes);
+    const placed = placeTaskGraph(created, graph.links.map(([from, to]) => createTaskEdge(created[from].id, created[to].id)), origin, 'LR');
+    if (strictMode && findCycles(placed.nodes, placed.edges).length > 0) {
+      messageApi.error({ content: '这些任务之间形成循环依赖，严格模式下不允许添加', duration: 3 });
+      return false;
+    }
+    // The anchor leads into every new task nothing else leads into
+    const anchorEdges = anchor
+      ? placed.nodes
+        .filter(node => !placed.edges.some(edge => edge.target === node.id))
+        .map(node => createTaskEdge(anchor.id, node.id, { sourceHandle: 'right-source', targetHandle: 'left-target' }))
+      : [];
+    const last = placed.nodes[placed.nodes.length - 1];
+
+    takeSnapshot();
+    setNodes(nds => nds
+      .map(node => (node.selected ? { ...node, selected: false } : node))
+      .concat(placed.nodes.map(node => (node === last ? { ...node, selected: true } : node))));
+    setEdges(eds => eds.concat(placed.edges, anchorEdges));
+    setHasUnsavedChanges(true);
+    centerOnNode(last);
+    messageApi.success({ content: `已添加 ${created.length} 个任务`, duration: 2 });
+    return true;
+  }, [nodes, quickEntryAnchor, strictMode, createNode, takeSnapshot, setNodes, setEdges, centerOnNode, messageApi]);
 
 
   const onDrop = useCallback(
@@ -566,6 +939,330 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
     [setMenu]
   );
 
+  // Auto layout: arrange nodes in dependency layers, then fit them into view
+  const handleLayoutEnd = useCallback(() => {
+    reactFlowInstance?.fitView({ padding: 0.2, duration: 300 });
+  }, [reactFlowInstance]);
+
+  const applyLayout = useAutoLayout({ nodes, edges, setNodes, setEdges, takeSnapshot, onLayoutEnd: handleLayoutEnd });
+
+  const layoutMenuItems: MenuProps['items'] = [
+    { key: 'layout-TB', label: '从上到下' },
+    { key: 'layout-LR', label: '从左到右' },
+  ];
+
+  const handleLayoutMenuClick: MenuProps['onClick'] = ({ key }) => {
+    applyLayout(key === 'layout-LR' ? 'LR' : 'TB');
+  };
+
+  // --- Clipboard Logic ---
+  // Nodes affected by copy/cut: the current selection, or the given node if it isn't part of it
+  const getClipboardNodeIds = useCallback((nodeId?: string) => {
+    const selectedIds = nodes.filter(node => node.selected).map(node => node.id);
+    if (nodeId && !selectedIds.includes(nodeId)) return new Set([nodeId]);
+    return new Set(selectedIds);
+  }, [nodes]);
+
+  // Copy (or cut) nodes with the edges between them; clipboardData is set for native copy/cut events
+  const copyNodes = useCallback((selectedIds: Set<string>, type: 'copy' | 'cut', clipboardData?: DataTransfer | null) => {
+    if (selectedIds.size === 0) return;
+    // A group goes with its subtasks
+    const nodeIds = withDescendants(selectedIds, nodes);
+    const payload = createClipboardPayload(nodes, edges, nodeIds);
+    const text = JSON.stringify(payload);
+    if (clipboardData) {
+      clipboardData.setData('text/plain', text);
+    } else {
+      navigator.clipboard?.writeText(text).catch((error) => {
+        console.warn('Failed to write to system clipboard:', error);
+      });
+    }
+    setClipboard({ payload, type });
+
+    if (type === 'cut') {
+      takeSnapshot();
+      setNodes((nds) => nds.filter((n) => !nodeIds.has(n.id)));
+      setEdges((eds) => eds.filter((edge) => !nodeIds.has(edge.source) && !nodeIds.has(edge.target)));
+      setHasUnsavedChanges(true);
+    }
+    messageApi.success({ content: `已${type === 'cut' ? '剪切' : '复制'} ${nodeIds.size} 个节点`, duration: 2 });
+  }, [nodes, edges, setNodes, setEdges, takeSnapshot, messageApi]);
+
+  const pastePayload = useCallback((payload: ClipboardPayload, anchor: XYPosition) => {
+    const { nodes: newNodes, edges: newEdges } = instantiateClipboardPayload(payload, getId, anchor);
+    takeSnapshot();
+    // Deselect everything else so the pasted group can be dragged right away
+    setNodes((nds) => nds.map((n) => (n.selected ? { ...n, selected: false } : n)).concat(newNodes));
+    setEdges((eds) => eds.concat(newEdges));
+    setHasUnsavedChanges(true);
+
+    // If it was a 'cut' operation, clear the clipboard
+    if (clipboard.type === 'cut' && clipboard.payload === payload) {
+      setClipboard({ payload: null, type: null });
+    }
+  }, [getId, setNodes, setEdges, takeSnapshot, clipboard]);
+
+  // Paste from system clipboard text, falling back to the in-app clipboard
+  const pasteText = useCallback((text: string | null | undefined, anchor: XYPosition, { silent = false } = {}) => {
+    if (!text) {
+      if (clipboard.payload) {
+        pastePayload(clipboard.payload, anchor);
+      } else if (!silent) {
+        messageApi.info({ content: 'Clipboard is empty.', duration: 3 });
+      }
+      return;
+    }
+
+    const result = parseClipboardPayload(text, allowedNodeTypes);
+    if (result.ok) {
+      pastePayload(result.payload, anchor);
+    } else if (!silent || text.includes(CLIPBOARD_FORMAT)) {
+      messageApi.error({ content: result.error, duration: 3 });
+    }
+  }, [clipboard.payload, pastePayload, allowedNodeTypes, messageApi]);
+
+  // Anchor for keyboard pastes: the pointer if it's over the canvas, else the viewport centre
+  const getPasteAnchor = useCallback((): XYPosition | null => {
+    if (!reactFlowInstance || !reactFlowWrapper.current) return null;
+    const rect = reactFlowWrapper.current.getBoundingClientRect();
+    const screenPoint = lastPointerRef.current ?? { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+    return reactFlowInstance.screenToFlowPosition(screenPoint);
+  }, [reactFlowInstance]);
+
+  // Ctrl+C / Ctrl+X / Ctrl+V through native clipboard events, so data can move between tabs
+  useEffect(() => {
+    const shouldIgnore = () =>
+      isEditableTarget(document.activeElement) || (window.getSelection()?.toString() ?? '') !== '';
+
+    const handleCopyOrCut = (event: ClipboardEvent) => {
+      if (shouldIgnore()) return;
+      const nodeIds = getClipboardNodeIds();
+      if (nodeIds.size === 0) return;
+      event.preventDefault();
+      copyNodes(nodeIds, event.type === 'cut' ? 'cut' : 'copy', event.clipboardData);
+    };
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (shouldIgnore()) return;
+      const anchor = getPasteAnchor();
+      if (!anchor) return;
+      event.preventDefault();
+      pasteText(event.clipboardData?.getData('text/plain'), anchor, { silent: true });
+    };
+
+    document.addEventListener('copy', handleCopyOrCut);
+    document.addEventListener('cut', handleCopyOrCut);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopyOrCut);
+      document.removeEventListener('cut', handleCopyOrCut);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [getClipboardNodeIds, copyNodes, pasteText, getPasteAnchor]);
+
+  // --- Export / Import Logic ---
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const markdownInputRef = useRef<HTMLInputElement>(null);
+  // Parsed file waiting for the user to choose how to import it
+  const [pendingImport, setPendingImport] = useState<{ file: FlowFile; fixes: string[] } | null>(null);
+
+  const handleExportJson = useCallback(() => {
+    const file = createFlowFile({ nodes, edges, tag: currentTag, uuid: currentUuid });
+    downloadTextFile(getFlowFileName(currentTag), JSON.stringify(file, null, 2));
+    messageApi.success({ content: '流程图已导出', duration: 2 });
+  }, [nodes, edges, currentTag, currentUuid, messageApi]);
+
+  const handleImportFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    try {
+      const result = parseFlowFile(await file.text(), allowedNodeTypes);
+      if (!result.ok) {
+        messageApi.error({ content: `导入失败: ${result.error}`, duration: 3 });
+        return;
+      }
+      setPendingImport({ file: result.file, fixes: result.fixes });
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      messageApi.error({ content: '读取文件失败', duration: 3 });
+    }
+  }, [allowedNodeTypes, messageApi]);
+
+  const applyImport = useCallback((mode: 'replace' | 'merge') => {
+    if (!pendingImport) return;
+    const { file } = pendingImport;
+
+    if (mode === 'merge') {
+      const merged = remapForMerge(file, nodes, getId);
+      takeSnapshot();
+      setNodes((nds) => nds.concat(merged.nodes));
+      setEdges((eds) => eds.concat(merged.edges));
+      setHasUnsavedChanges(true);
+      messageApi.success({
+        content: merged.fixes.length > 0 ? `已合并，重新分配了 ${merged.fixes.length} 个节点 ID` : '已合并到当前画布',
+        duration: 3,
+      });
+    } else {
+      // Open the file in a new tab; a flowchart that is already open keeps its tab
+      const uuid = file.uuid && !isTabOpen(file.uuid) ? file.uuid : generateUuid();
+      openTab({ ...createTabDocument(uuid, { tag: file.tag, nodes: file.nodes, edges: file.edges }), hasUnsavedChanges: true });
+      router.push('/', { scroll: false });
+      messageApi.success({ content: `已导入 "${file.tag}"`, duration: 3 });
+    }
+    setPendingImport(null);
+  }, [pendingImport, nodes, getId, takeSnapshot, setNodes, setEdges, isTabOpen, openTab, router, messageApi]);
+
+  const handleExportMarkdown = useCallback(() => {
+    const markdown = createMarkdownChecklist({ nodes, edges, tag: currentTag });
+    downloadTextFile(getFlowFileName(currentTag, MARKDOWN_FILE_EXTENSION), markdown, 'text/markdown');
+    messageApi.success({ content: '任务清单已导出', duration: 2 });
+  }, [nodes, edges, currentTag, messageApi]);
+
+  // Checklist items become text nodes next to the existing ones
+  const handleMarkdownFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = parseMarkdownChecklist(await file.text());
+      if (!result.ok) {
+        messageApi.error({ content: `导入失败: ${result.error}`, duration: 3 });
+        return;
+      }
+      const imported = instantiateTaskGraph(result.checklist, nodes, getId);
+      takeSnapshot();
+      setNodes((nds) => nds.concat(imported.nodes));
+      setEdges((eds) => eds.concat(imported.edges));
+      setHasUnsavedChanges(true);
+      messageApi.success({ content: `已导入 ${imported.nodes.length} 个任务`, duration: 3 });
+    } catch (error) {
+      console.error('Failed to read Markdown file:', error);
+      messageApi.error({ content: '读取文件失败', duration: 3 });
+    }
+  }, [nodes, getId, takeSnapshot, setNodes, setEdges, messageApi]);
+
+  // Mermaid code pasted by the user, waiting to be imported
+  const [mermaidImport, setMermaidImport] = useState<{ text: string; error: string | null } | null>(null);
+
+  const handleCopyMermaid = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(createMermaidFlowchart(nodes, edges));
+      messageApi.success({ content: 'Mermaid 代码已复制', duration: 2 });
+    } catch (error) {
+      console.error('Failed to copy Mermaid code:', error);
+      messageApi.error({ content: '无法访问剪贴板', duration: 2 });
+    }
+  }, [nodes, edges, messageApi]);
+
+  const applyMermaidImport = useCallback(() => {
+    if (!mermaidImport) return;
+    const result = parseMermaidFlowchart(mermaidImport.text);
+    if (!result.ok) {
+      setMermaidImport({ ...mermaidImport, error: result.error });
+      return;
+    }
+    const imported = instantiateTaskGraph(result.graph, nodes, getId, result.direction);
+    takeSnapshot();
+    setNodes((nds) => nds.concat(imported.nodes));
+    setEdges((eds) => eds.concat(imported.edges));
+    setHasUnsavedChanges(true);
+    setMermaidImport(null);
+    messageApi.success({ content: `已导入 ${imported.nodes.length} 个任务`, duration: 3 });
+    if (result.warnings.length > 0) {
+      messageApi.warning({ content: result.warnings.join('；'), duration: 5 });
+    }
+  }, [mermaidImport, nodes, getId, takeSnapshot, setNodes, setEdges, messageApi]);
+
+  // Image export options while the export dialog is open
+  const [imageExport, setImageExport] = useState<ImageExportOptions | null>(null);
+  const [isExportingImage, setIsExportingImage] = useState(false);
+  const hasSelection = nodes.some(node => node.selected);
+
+  const openImageExport = useCallback((format: ImageFormat) => {
+    setImageExport({ ...DEFAULT_IMAGE_EXPORT_OPTIONS, format, scope: hasSelection ? 'selection' : 'all' });
+  }, [hasSelection]);
+
+  const handleExportImage = useCallback(async () => {
+    const viewport = reactFlowWrapper.current?.querySelector<HTMLElement>('.react-flow__viewport');
+    if (!imageExport || !viewport) return;
+
+    setIsExportingImage(true);
+    const result = await exportFlowImage(viewport, nodes, edges, imageExport);
+    setIsExportingImage(false);
+    if (!result.ok) {
+      messageApi.error({ content: result.error, duration: 3 });
+      return;
+    }
+    downloadUrl(getFlowFileName(currentTag, `.${imageExport.format}`), result.dataUrl);
+    setImageExport(null);
+    messageApi.success({ content: '图片已导出', duration: 2 });
+  }, [imageExport, nodes, edges, currentTag, messageApi]);
+
+  // Header "文件" menu
+  const fileMenuItems: MenuProps['items'] = [
+    { key: 'export-json', label: `导出 JSON (${FLOW_FILE_EXTENSION})`, icon: <DownloadOutlined /> },
+    { key: 'import-json', label: '导入 JSON', icon: <UploadOutlined /> },
+    { type: 'divider' },
+    { key: 'export-markdown', label: `导出 Markdown 清单 (${MARKDOWN_FILE_EXTENSION})`, icon: <DownloadOutlined /> },
+    { key: 'import-markdown', label: '导入 Markdown 清单', icon: <UploadOutlined /> },
+    { type: 'divider' },
+    { key: 'copy-mermaid', label: '复制 Mermaid 代码', icon: <CopyOutlined /> },
+    { key: 'export-mermaid', label: `导出 Mermaid (${MERMAID_FILE_EXTENSION})`, icon: <DownloadOutlined /> },
+    { key: 'export-dot', label: `导出 Graphviz DOT (${DOT_FILE_EXTENSION})`, icon: <DownloadOutlined /> },
+    { key: 'import-mermaid', label: '导入 Mermaid', icon: <UploadOutlined /> },
+    { type: 'divider' },
+    { key: 'export-png', label: '导出为 PNG 图片', icon: <FileImageOutlined /> },
+    { key: 'export-svg', label: '导出为 SVG 图片', icon: <FileImageOutlined /> },
+  ];
+
+  const runFileAction = (key: string) => {
+    switch (key) {
+      case 'export-json':
+        handleExportJson();
+        break;
+      case 'import-json':
+        importInputRef.current?.click();
+        break;
+      case 'export-markdown':
+        handleExportMarkdown();
+        break;
+      case 'import-markdown':
+        markdownInputRef.current?.click();
+        break;
+      case 'copy-mermaid':
+        handleCopyMermaid();
+        break;
+      case 'export-mermaid':
+        downloadTextFile(getFlowFileName(currentTag, MERMAID_FILE_EXTENSION), createMermaidFlowchart(nodes, edges), 'text/plain');
+        break;
+      case 'export-dot':
+        downloadTextFile(
+          getFlowFileName(currentTag, DOT_FILE_EXTENSION),
+          createDotGraph(nodes, edges, { name: currentTag || undefined }),
+          'text/vnd.graphviz'
+        );
+        break;
+      case 'import-mermaid':
+        setMermaidImport({ text: '', error: null });
+        break;
+      case 'export-png':
+      case 'export-svg':
+        openImageExport(key === 'export-png' ? 'png' : 'svg');
+        break;
+    }
+  };
+
+  const handleFileMenuClick: MenuProps['onClick'] = ({ key }) => runFileAction(key);
+
+  const fileMenu = (
+    <Dropdown menu={{ items: fileMenuItems, onClick: handleFileMenuClick }}>
+      <Button icon={<FolderOpenOutlined />}>文件</Button>
+    </Dropdown>
+  );
+
   // Handle PANE context menu item clicks (Add Node, Paste)
   const handleMenuClick: MenuProps['onClick'] = useCallback(
     (e: MenuInfo) => {
@@ -576,23 +1273,16 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
         y: menu.y,
       });
 
-      if (e.key === 'paste') {
-        if (clipboard.node) {
-          // Create a new node from the clipboard data at the clicked position
-          const newNode: Node = {
-            ...clipboard.node,
-            id: getId(), // Generate a new ID
-            position, // Place it where the user right-clicked
-            selected: false, // Ensure it's not selected initially
-          };
-          setNodes((nds) => nds.concat(newNode));
-
-          // If it was a 'cut' operation, clear the clipboard
-          if (clipboard.type === 'cut') {
-            setClipboard({ node: null, type: null });
-          }
+      if (e.key === 'layout-TB' || e.key === 'layout-LR') {
+        applyLayout(e.key === 'layout-LR' ? 'LR' : 'TB');
+      } else if (e.key === 'paste') {
+        // Place the pasted nodes where the user right-clicked
+        if (navigator.clipboard?.readText) {
+          navigator.clipboard.readText()
+            .then((text) => pasteText(text, position))
+            .catch(() => pasteText(null, position)); // Permission denied: use the in-app clipboard
         } else {
-          messageApi.info({ content: 'Clipboard is empty.', duration: 3 });
+          pasteText(null, position);
         }
       } else {
         // Add a new node based on the key (text, image, etc.)
@@ -601,7 +1291,7 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
 
       setMenu({ show: false, x: 0, y: 0 }); // Hide pane menu
     },
-    [addNode, menu.x, menu.y, reactFlowInstance, clipboard, setNodes, setClipboard, getId] // Added getId dependency
+    [addNode, menu.x, menu.y, reactFlowInstance, pasteText, applyLayout]
   );
 
 
@@ -628,6 +1318,34 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
   }, [setMenu, setNodeMenu]);
 
 
+  // Remove all edges connected to the nodes, making them unsorted tasks
+  const breakSortNodes = useCallback((nodeIds: Set<string>) => {
+    takeSnapshot();
+    setEdges((eds) => eds.filter((edge) => !nodeIds.has(edge.source) && !nodeIds.has(edge.target)));
+  }, [setEdges, takeSnapshot]);
+
+  // Put the nodes into a new group sized around them
+  const groupSelection = useCallback((nodeIds: Set<string>) => {
+    if (nodeIds.size === 0) return;
+    const group = { ...createNode(GROUP_NODE_TYPE, { x: 0, y: 0 }), selected: true };
+    takeSnapshot();
+    setNodes(nds => groupNodes(nds.map(n => (n.selected ? { ...n, selected: false } : n)), nodeIds, group));
+    setHasUnsavedChanges(true);
+  }, [createNode, setNodes, takeSnapshot, setHasUnsavedChanges]);
+
+  // Dissolve a group; its subtasks stay where they are and its own edges go
+  const ungroup = useCallback((groupId: string) => {
+    takeSnapshot();
+    setNodes(nds => ungroupNode(nds, groupId));
+    setEdges(eds => eds.filter(edge => edge.source !== groupId && edge.target !== groupId));
+    setHasUnsavedChanges(true);
+  }, [setNodes, setEdges, takeSnapshot, setHasUnsavedChanges]);
+
+  const toggleGroupCollapsed = useCallback((groupId: string) => {
+    takeSnapshot();
+    setNodes(nds => nds.map(node => (node.id === groupId ? setGroupCollapsed(node, !node.data?.collapsed) : node)));
+  }, [setNodes, takeSnapshot]);
+
   // Handle NODE context menu item clicks (Copy, Cut, Delete)
   const handleNodeMenuClick: MenuProps['onClick'] = useCallback(
     (e: MenuInfo) => {
@@ -639,32 +1357,37 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
 
       switch (e.key) {
         case 'copy':
-          setClipboard({ node: { ...targetNode }, type: 'copy' }); // Store a copy
-          messageApi.success({ content: `Node "${targetNode.data.label || targetNode.id}" copied.`, duration: 3 });
-          break;
         case 'cut':
-          setClipboard({ node: { ...targetNode }, type: 'cut' }); // Store a copy for pasting
-          // Remove the node and connected edges
-          setNodes((nds) => nds.filter((n) => n.id !== targetNodeId));
-          setEdges((eds) => eds.filter((edge) => edge.source !== targetNodeId && edge.target !== targetNodeId));
-          messageApi.success({ content: `Node "${targetNode.data.label || targetNode.id}" cut.`, duration: 3 });
+          // Copy/cut the whole selection when the clicked node is part of it
+          copyNodes(getClipboardNodeIds(targetNodeId), e.key);
           break;
         case 'break-sort':
-          // Remove all edges connected to the node, making it an unsorted task
-          setEdges((eds) => eds.filter((edge) => edge.source !== targetNodeId && edge.target !== targetNodeId));
+          breakSortNodes(new Set([targetNodeId]));
           messageApi.success({ content: `Node "${targetNode.data.label || targetNode.id}" moved to unsorted tasks.`, duration: 3 });
           break;
-        case 'delete':
-          // Remove the node and connected edges
-          setNodes((nds) => nds.filter((n) => n.id !== targetNodeId));
-          setEdges((eds) => eds.filter((edge) => edge.source !== targetNodeId && edge.target !== targetNodeId));
+        case 'group':
+          groupSelection(getClipboardNodeIds(targetNodeId));
+          break;
+        case 'ungroup':
+          ungroup(targetNodeId);
+          break;
+        case 'toggle-group':
+          toggleGroupCollapsed(targetNodeId);
+          break;
+        case 'delete': {
+          takeSnapshot();
+          // Remove the node, the subtasks of a group, and connected edges
+          const removedIds = withDescendants(new Set([targetNodeId]), nodes);
+          setNodes((nds) => nds.filter((n) => !removedIds.has(n.id)));
+          setEdges((eds) => eds.filter((edge) => !removedIds.has(edge.source) && !removedIds.has(edge.target)));
           messageApi.success({ content: `Node "${targetNode.data.label || targetNode.id}" deleted.`, duration: 3 });
           break;
+        }
       }
 
       setNodeMenu({ show: false, x: 0, y: 0, nodeId: null }); // Hide node menu
     },
-    [nodeMenu.nodeId, nodes, setNodes, setEdges, setClipboard] // Added dependencies
+    [nodeMenu.nodeId, nodes, setNodes, setEdges, takeSnapshot, copyNodes, getClipboardNodeIds, breakSortNodes, groupSelection, ungroup, toggleGroupCollapsed] // Added dependencies
   );
 
   // Define PANE menu items
@@ -673,58 +1396,56 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
     { key: 'image', label: 'Add Image Node', icon: <PictureOutlined /> },
     { key: 'attachment', label: 'Add Attachment Node', icon: <PaperClipOutlined /> },
     { key: 'social', label: 'Add Social Node', icon: <ShareAltOutlined /> },
+    { key: 'linked', label: 'Add Linked Task', icon: <LinkOutlined /> },
+    { type: 'divider' },
+    { key: 'paste', label: 'Paste', icon: <PlusOutlined /> }, // Use Plus icon for Paste; the system clipboard may hold nodes from another tab
     { type: 'divider' },
-    { key: 'paste', label: 'Paste Node', icon: <PlusOutlined />, disabled: !clipboard.node }, // Use Plus icon for Paste, disable if clipboard empty
-  ], [clipboard.node]); // Recompute when clipboard changes
+    { key: 'layout-TB', label: 'Auto Layout (Top → Bottom)', icon: <ApartmentOutlined /> },
+    { key: 'layout-LR', label: 'Auto Layout (Left → Right)', icon: <ApartmentOutlined /> },
+  ], []);
 
 
   // Define NODE menu items
+  const menuNode = nodes.find(n => n.id === nodeMenu.nodeId);
   const nodeContextMenuItems: MenuProps['items'] = [
-    { key: 'copy', label: 'Copy Node', icon: <CopyOutlined /> },
-    { key: 'cut', label: 'Cut Node', icon: <ScissorOutlined /> },
+    { key: 'copy', label: 'Copy', icon: <CopyOutlined /> },
+    { key: 'cut', label: 'Cut', icon: <ScissorOutlined /> },
     { key: 'break-sort', label: '脱离排序', icon: <DisconnectOutlined /> },
+    { key: 'group', label: '组合为分组', icon: <GroupOutlined /> },
+    ...(menuNode && isGroupNode(menuNode) ? [
+      { key: 'toggle-group', label: menuNode.data?.collapsed ? '展开分组' : '折叠分组', icon: <CompressOutlined /> },
+      { key: 'ungroup', label: '取消分组', icon: <UngroupOutlined /> },
+    ] : []),
     { key: 'delete', label: 'Delete Node', icon: <DeleteOutlined />, danger: true },
   ];
 
 
   // 定义获取标签列表的函数
   const fetchFlowcharts = useCallback(async () => {
-    if (!isAuthenticated) {
+    if (!canUseStorage) {
       console.log('未登录，跳过获取标签列表');
       return;
     }
 
     messageApi.loading({ content: '正在获取标签列表...', key: 'fetchTags' });
     try {
-      const response = await fetch(API_ENDPOINTS.notionListTags, {
-        headers: getAuthHeaders()
-      });
-
-      if (!response.ok) {
-        throw new Error(`获取标签列表失败: ${response.status}`);
-      }
-
-      const data = await response.json();
-      if (data.flowcharts) {
-        // Ensure the fetched data matches the new type
-        setFlowcharts(data.flowcharts as Array<{ tag: string; uuid: string; created_time: string }>);
-        messageApi.success({ content: '标签列表获取成功', key: 'fetchTags', duration: 3 });
-      }
+      setFlowcharts(await repository.list());
+      messageApi.success({ content: '标签列表获取成功', key: 'fetchTags', duration: 3 });
     } catch (error) {
       console.error('Failed to fetch flowcharts:', error);
       messageApi.error({ content: '获取标签列表失败', key: 'fetchTags', duration: 3 });
     }
-  }, [isAuthenticated]);
+  }, [canUseStorage, repository]);
 
   // 在登录状态变化时获取标签列表
   useEffect(() => {
-    if (isAuthenticated) {
+    if (canUseStorage) {
       fetchFlowcharts();
     } else {
       // 未登录时清空标签列表
       setFlowcharts([]);
     }
-  }, [isAuthenticated, fetchFlowcharts]);
+  }, [canUseStorage, fetchFlowcharts]);
 
   // 在组件挂载时执行本地存储清理
   useEffect(() => {
@@ -739,7 +1460,7 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
       // If URL has talk param and it's different from current, load it
       if (talkUuidFromUrl !== currentUuid) {
         console.log("Loading from URL param:", talkUuidFromUrl);
-        loadFlowchart(talkUuidFromUrl);
+        openFlowchart(talkUuidFromUrl);
       }
     } else {
       // No URL param, try loading initial state from local storage using the generated UUID
@@ -755,7 +1476,7 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchParams]); // Run only when searchParams change (effectively on initial load and URL changes)
-  // Note: Dependencies like loadFlowchart, currentUuid are intentionally omitted
+  // Note: Dependencies like openFlowchart, currentUuid are intentionally omitted
   // to make this run primarily based on URL changes or initial mount state.
 
 
@@ -766,14 +1487,84 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
 
     if (!isLoading && !isTrulyInitial && currentUuid) {
       saveToLocalStorage(currentUuid, { nodes, edges, tag: currentTag });
-      setHasUnsavedChanges(true); // Mark changes as unsaved when saving to LS
+      // Selecting or measuring nodes changes them too; only content differing from the last load/save is unsaved
+      const savedContent = savedContentRef.current;
+      setHasUnsavedChanges(savedContent
+        ? !isSameFlowContent({ nodes, edges, tag: currentTag }, savedContent)
+        : nodes.length > 0 || edges.length > 0);
       console.log("Auto-saved to LS for UUID:", currentUuid);
     }
   }, [nodes, edges, currentTag, currentUuid, isLoading, hasUnsavedChanges]); // Depend on state being saved
 
+  // Tell the user whether a save reached the backend, is waiting in the outbox or needs a decision
+  const reportSaveResult = async (result: SyncResult, uuid: string) => {
+    if (result.status === 'conflict') {
+      setIsConflictDeferred(false);
+      messageApi.warning({ content: '服务器上的版本也有修改，请选择如何处理', key: 'save_notion', duration: 3 });
+      return;
+    }
+
+    updateOpenFlowchart(uuid, { hasUnsavedChanges: false });
+    if (result.status === 'queued') {
+      messageApi.warning({
+        content: result.error
+          ? `保存失败，已加入待同步队列并将自动重试: ${result.error}`
+          : '当前处于离线状态，已加入待同步队列，恢复网络后自动保存',
+        key: 'save_notion',
+        duration: 4,
+      });
+      return;
+    }
+
+    messageApi.success({ content: '保存成功!', key: 'save_notion', duration: 3 }); // Duration 3s
+    // Clear local storage for this UUID on successful save
+    clearFromLocalStorage(uuid); // Use the uuid that was saved
+
+    // Refresh tags list
+    messageApi.loading({ content: '正在刷新标签列表...', key: 'refreshTags', duration: 0 });
+    try {
+      setFlowcharts(await repository.list());
+      messageApi.success({ content: '标签列表已更新', key: 'refreshTags', duration: 2 });
+    } catch (listError) {
+      console.error('Failed to refresh tags list:', listError);
+      messageApi.error({ content: '刷新标签列表失败', key: 'refreshTags', duration: 3 });
+    }
+  };
+
+  // Keep a snapshot of every save in the local revision history
+  const recordRevision = async (data: FlowchartData, options?: { restoredFrom?: number }) => {
+    try {
+      await getRevisionHistory().add(data, options);
+      setHistoryRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error('Failed to record revision:', error);
+    }
+  };
+
+  const handleResolveConflict = async (choice: SyncConflictChoice, merged?: FlowchartData) => {
+    if (!syncConflict) return;
+    const { uuid } = syncConflict;
+    const result = await resolveConflict(choice, merged);
+    if (choice !== 'theirs' && result.status !== 'conflict') {
+      const saved = result.status === 'synced' && result.data ? result.data : merged ?? syncConflict.local;
+      updateOpenFlowchart(uuid, { savedContent: saved });
+      indexForSearch(saved);
+      await recordRevision(saved);
+    }
+    if (choice === 'theirs') {
+      if (uuid === currentUuid) {
+        clearFromLocalStorage(uuid);
+        setHasUnsavedChanges(false);
+      }
+      messageApi.success({ content: '已使用服务器上的版本', duration: 3 });
+      return;
+    }
+    await reportSaveResult(result, uuid);
+  };
+
   // Function to actually perform the save operation with a tag
   const confirmSave = async (tag: string) => {
-    if (!isAuthenticated) {
+    if (!canUseStorage) {
       message.info({ content: '请先登录再保存流程图', duration: 3 });
       setShowLoginModal(true);
       return;
@@ -800,54 +1591,24 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
 
     try {
       const uuid = currentUuid || generateUuid();
-      const response = await fetch(API_ENDPOINTS.notionSave, {
-        method: 'POST',
-        headers: getAuthHeaders(),
-        body: JSON.stringify({
-          nodes: currentNodes,
-          edges: currentEdges,
-          tag,
-          uuid
-        }),
-      });
+      const data: FlowchartData = { nodes: currentNodes, edges: currentEdges, tag, uuid };
+      const result = await queueSave(data);
+      if (result.status !== 'conflict') {
+        updateOpenFlowchart(uuid, { savedContent: data });
+        indexForSearch(data);
+        await recordRevision(result.status === 'synced' && result.data ? result.data : data);
+        // A new flowchart becomes reachable by its link once saved
+        if (uuid === activeUuidRef.current && searchParams.get('talk') !== uuid) {
+          router.push(`/?talk=${uuid}`, { scroll: false });
+        }
+      }
 
       // Update UUID if it was newly generated
       if (!currentUuid) {
         setCurrentUuid(uuid);
       }
 
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || `服务器错误: ${response.status}`);
-      }
-      messageApi.success({ content: result.message || '保存成功!', key: 'save_notion', duration: 3 }); // Duration 3s
-      setHasUnsavedChanges(false);
-
-      // Clear local storage for this UUID on successful save
-      clearFromLocalStorage(uuid); // Use the uuid that was saved
-
-      // Refresh tags list
-      messageApi.loading({ content: '正在刷新标签列表...', key: 'refreshTags', duration: 0 });
-      try {
-        const flowchartsResponse = await fetch(API_ENDPOINTS.notionListTags, {
-          headers: getAuthHeaders()
-        });
-
-        if (!flowchartsResponse.ok) {
-          throw new Error(`获取标签列表失败: ${flowchartsResponse.status}`);
-        }
-
-        const flowchartsData = await flowchartsResponse.json();
-        if (flowchartsData.flowcharts) {
-          setFlowcharts(flowchartsData.flowcharts as Array<{ tag: string; uuid: string; created_time: string }>);
-          messageApi.success({ content: '标签列表已更新', key: 'refreshTags', duration: 2 });
-        }
-      } catch (listError) {
-        console.error('Failed to refresh tags list:', listError);
-        messageApi.error({ content: '刷新标签列表失败', key: 'refreshTags', duration: 3 });
-      }
-
+      await reportSaveResult(result, uuid);
     } catch (error) {
       console.error('Failed to save:', error);
       const errorMessage = error instanceof Error ? error.message : '未知错误';
@@ -858,9 +1619,43 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
     }
   };
 
+  // Put an old revision back on the canvas and save it as the newest revision
+  const restoreRevision = (revision: FlowchartRevision) => {
+    modalApi.confirm({
+      title: `恢复到 ${new Date(revision.savedAt).toLocaleString()} 的版本？`,
+      content: hasUnsavedChanges
+        ? '当前画布上未保存的更改将被替换。恢复的内容会保存为新的版本。'
+        : '恢复的内容会保存为新的版本，之后的历史版本仍会保留。',
+      okText: '恢复',
+      cancelText: '取消',
+      onOk: async () => {
+        takeSnapshot();
+        setNodes(revision.nodes);
+        setEdges(revision.edges);
+        setCurrentTag(revision.tag);
+        setIsHistoryOpen(false);
+        messageApi.loading({ content: '正在恢复历史版本...', key: 'save_notion', duration: 0 });
+        try {
+          const data: FlowchartData = { uuid: revision.uuid, tag: revision.tag, nodes: revision.nodes, edges: revision.edges };
+          const result = await queueSave(data);
+          if (result.status !== 'conflict') {
+            updateOpenFlowchart(revision.uuid, { savedContent: data });
+            indexForSearch(data);
+            await recordRevision(result.status === 'synced' && result.data ? result.data : data, { restoredFrom: revision.id });
+          }
+          await reportSaveResult(result, revision.uuid);
+        } catch (error) {
+          console.error('Failed to restore revision:', error);
+          const errorMessage = error instanceof Error ? error.message : '未知错误';
+          messageApi.error({ content: `恢复失败: ${errorMessage}`, key: 'save_notion', duration: 3 });
+        }
+      },
+    });
+  };
+
   // Modified handleSave to just open the modal
   const handleSave = () => {
-    if (!isAuthenticated) {
+    if (!canUseStorage) {
       messageApi.info({ content: '请先登录再保存流程图', duration: 3 });
       setShowLoginModal(true);
       return;
@@ -894,7 +1689,7 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
   const confirmDeleteFlowchart = async () => {
     if (!flowchartToDelete) return;
 
-    if (!isAuthenticated) {
+    if (!canUseStorage) {
       message.info({ content: '请先登录再删除流程图', duration: 3 });
       setShowLoginModal(true);
       setFlowchartToDelete(null); // 关闭删除确认框
@@ -905,38 +1700,29 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
 
     messageApi.loading({ content: `正在删除 "${tagToDelete}"...`, key: 'delete_flowchart', duration: 0 });
     try {
-      const response = await fetch(API_ENDPOINTS.notionDelete, {
-        method: 'POST',
-        headers: getAuthHeaders(),
-        body: JSON.stringify({ uuid: uuidToDelete }),
-      });
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || `服务器错误: ${response.status}`);
+      const result = await queueDelete(uuidToDelete, tagToDelete);
+      if (result.status === 'queued') {
+        messageApi.warning({ content: `"${tagToDelete}" 将在恢复连接后从服务器删除`, key: 'delete_flowchart', duration: 3 });
+      } else {
+        messageApi.success({ content: `"${tagToDelete}" 已删除`, key: 'delete_flowchart', duration: 3 });
       }
 
-      messageApi.success({ content: `"${tagToDelete}" 已删除`, key: 'delete_flowchart', duration: 3 });
-
       // Remove from local state
       setFlowcharts(prevFlowcharts => prevFlowcharts.filter(fc => fc.uuid !== uuidToDelete));
 
       // 删除本地存储中的数据
       clearFromLocalStorage(uuidToDelete);
-
-      // Check if the deleted flowchart was the currently loaded one
-      if (uuidToDelete === currentUuid) {
-        // Reset to a new state - Ensure state updates happen first
-        const newUuid = generateUuid(); // Generate new UUID
-        setNodes([]);
-        setEdges([]);
-        setCurrentTag("未命名");
-        setCurrentUuid(newUuid); // Set the new UUID
-        setHasUnsavedChanges(false);
-        // THEN clear URL params, which might trigger the searchParams effect
-        router.push('/', { scroll: false });
-        messageApi.info({ content: '当前流程图已被删除，已创建新的空白流程图', duration: 3 });
+      getRevisionHistory().removeAll(uuidToDelete).catch(error => console.error('Failed to remove revision history:', error));
+      getSearchIndex().remove(uuidToDelete).catch(error => console.error('Failed to update search index:', error));
+
+      // A deleted flowchart can't stay open in a tab
+      if (isTabOpen(uuidToDelete)) {
+        const nextUuid = closeTab(uuidToDelete);
+        if (uuidToDelete === currentUuid) {
+          // Clear URL params after the tab switch, which might trigger the searchParams effect
+          router.push(getTabPath(nextUuid), { scroll: false });
+          messageApi.info({ content: '当前流程图已被删除，已关闭其标签页', duration: 3 });
+        }
       }
 
     } catch (error) {
@@ -948,11 +1734,179 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
     }
   };
 
+  // --- Keyboard Shortcuts & Command Palette ---
+  // Plain-key shortcuts (arrows, Tab, Enter, Delete) only act while the canvas has focus
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [nodeEditRequests] = useState(createNodeEditRequests);
+  // Nudges in quick succession undo as one step
+  const lastNudgeRef = useRef(0);
+
+  const nudgeSelection = useCallback((dx: number, dy: number) => {
+    const movableIds = new Set(nodes.filter(node => node.selected && node.draggable !== false).map(node => node.id));
+    if (movableIds.size === 0) return;
+    const now = Date.now();
+    if (now - lastNudgeRef.current > NUDGE_MERGE_MS) takeSnapshot();
+    lastNudgeRef.current = now;
+    setNodes(nds => nds.map(node => (
+      movableIds.has(node.id) ? { ...node, position: { x: node.position.x + dx, y: node.position.y + dy } } : node
+    )));
+  }, [nodes, setNodes, takeSnapshot]);
+
+  // Follow the dependency edges from the selected task; with nothing selected start at the first task
+  const selectConnected = useCallback((direction: 'next' | 'previous') => {
+    const isVisible = (node: Node) => !visibleNodeIds || visibleNodeIds.has(node.id);
+    const selected = nodes.find(node => node.selected);
+    let target: Node | undefined;
+    if (!selected) {
+      target = getOrderedTasks(nodes, edges).find(isVisible) ?? nodes.find(isVisible);
+    } else {
+      const neighbourIds = new Set(edges
+        .filter(edge => (direction === 'next' ? edge.source : edge.target) === selected.id)
+        .map(edge => (direction === 'next' ? edge.target : edge.source)));
+      // Of several neighbours, the top-left one
+      target = nodes
+        .filter(node => neighbourIds.has(node.id) && isVisible(node))
+        .sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x)[0];
+      if (!target) {
+        messageApi.info({ content: direction === 'next' ? '没有后续任务' : '没有前置任务', key: 'selectConnected', duration: 2 });
+        return;
+      }
+    }
+    if (!target) return;
+    const targetId = target.id;
+    setNodes(nds => nds.map(node => (node.selected === (node.id === targetId) ? node : { ...node, selected: node.id === targetId })));
+    setEdges(eds => eds.map(edge => (edge.selected ? { ...edge, selected: false } : edge)));
+    centerOnNode(target);
+  }, [nodes, edges, visibleNodeIds, setNodes, setEdges, centerOnNode, messageApi]);
+
+  const editSelectedNode = useCallback(() => {
+    const selected = nodes.filter(node => node.selected);
+    if (selected.length === 1 && (selected[0].type === 'text' || isGroupNode(selected[0]))) {
+      nodeEditRequests.request(selected[0].id);
+    }
+  }, [nodes, nodeEditRequests]);
+
+  // Goes through React Flow so onNodesDelete/onEdgesDelete record the undo step as usual
+  const deleteSelection = useCallback(() => {
+    const selectedNodes = nodes.filter(node => node.selected && node.deletable !== false);
+    const selectedEdges = edges.filter(edge => edge.selected);
+    if (selectedNodes.length === 0 && selectedEdges.length === 0) return;
+    reactFlowInstance?.deleteElements({ nodes: selectedNodes, edges: selectedEdges });
+  }, [nodes, edges, reactFlowInstance]);
+
+  const keymapHandlers: KeymapHandlers = useMemo(() => ({
+    commandPalette: () => setIsPaletteOpen(open => !open),
+    find: openFind,
+    nudgeUp: () => nudgeSelection(0, -NUDGE_STEP),
+    nudgeDown: () => nudgeSelection(0, NUDGE_STEP),
+    nudgeLeft: () => nudgeSelection(-NUDGE_STEP, 0),
+    nudgeRight: () => nudgeSelection(NUDGE_STEP, 0),
+    nextConnected: () => selectConnected('next'),
+    previousConnected: () => selectConnected('previous'),
+    editNode: editSelectedNode,
+    deleteSelection,
+  }), [openFind, nudgeSelection, selectConnected, editSelectedNode, deleteSelection]);
+  const { keymap, setKeymap, resetKeymap } = useKeymap({ handlers: keymapHandlers, scopeRef: canvasRef });
+
+  // Every editor action for the command palette; chosen ones run through runPaletteCommand
+  const getPaletteCommands = (): PaletteCommand[] => {
+    const isMac = isMacPlatform();
+    const shortcutOf = (action: KeymapAction) => (keymap[action][0] ? formatShortcut(keymap[action][0], isMac) : undefined);
+    const selectedNodes = nodes.filter(node => node.selected);
+    const hasSelection = selectedNodes.length > 0;
+
+    return [
+      ...nodeTypeOptions.map(({ value, label }) => ({ key: `add:${value}`, group: '添加节点', label, keywords: value })),
+      { key: 'quick-add', group: '添加节点', label: '快速添加任务', keywords: 'quick add tasks chain' },
+      { key: 'save', group: '流程图', label: '保存', keywords: 'save' },
+      { key: 'new', group: '流程图', label: '新建', keywords: 'new tab' },
+      { key: 'history', group: '流程图', label: '历史版本', keywords: 'history' },
+      { key: 'share', group: '流程图', label: '分享', keywords: 'share' },
+      { key: 'search', group: '流程图', label: '搜索所有流程图', keywords: 'search' },
+      { key: 'collab', group: '流程图', label: isCollabEnabled ? '退出协作' : '协作', keywords: 'collaborate' },
+      ...(fileMenuItems ?? []).flatMap(item => (
+        item && 'label' in item && typeof item.label === 'string'
+          ? [{ key: `file:${String(item.key)}`, group: '文件', label: item.label }]
+          : []
+      )),
+      { key: 'find', group: '编辑', label: '查找节点', keywords: 'find filter', shortcut: shortcutOf('find') },
+      { key: 'undo', group: '编辑', label: '撤销', keywords: 'undo', shortcut: formatShortcut('Mod+Z', isMac), disabled: !canUndo },
+      { key: 'redo', group: '编辑', label: '重做', keywords: 'redo', shortcut: formatShortcut('Mod+Shift+Z', isMac), disabled: !canRedo },
+      { key: 'layout-TB', group: '编辑', label: '自动布局（从上到下）', keywords: 'layout' },
+      { key: 'layout-LR', group: '编辑', label: '自动布局（从左到右）', keywords: 'layout' },
+      { key: 'edit', group: '选中的节点', label: '编辑文本', keywords: 'edit', shortcut: shortcutOf('editNode'), disabled: selectedNodes.length !== 1 || (selectedNodes[0].type !== 'text' && !isGroupNode(selectedNodes[0])) },
+      { key: 'copy', group: '选中的节点', label: '复制', keywords: 'copy', shortcut: formatShortcut('Mod+C', isMac), disabled: !hasSelection },
+      { key: 'cut', group: '选中的节点', label: '剪切', keywords: 'cut', shortcut: formatShortcut('Mod+X', isMac), disabled: !hasSelection },
+      { key: 'break-sort', group: '选中的节点', label: '脱离排序', keywords: 'break sort unlink', disabled: !hasSelection },
+      { key: 'group', group: '选中的节点', label: '组合为分组', keywords: 'group subtasks', disabled: !hasSelection },
+      { key: 'toggle-group', group: '选中的节点', label: '折叠/展开分组', keywords: 'group collapse expand', disabled: selectedNodes.length !== 1 || !isGroupNode(selectedNodes[0]) },
+      { key: 'ungroup', group: '选中的节点', label: '取消分组', keywords: 'ungroup', disabled: selectedNodes.length !== 1 || !isGroupNode(selectedNodes[0]) },
+      { key: 'delete', group: '选中的节点', label: '删除', keywords: 'delete remove', shortcut: shortcutOf('deleteSelection'), disabled: !hasSelection },
+      { key: 'strict-mode', group: '设置', label: strictMode ? '关闭严格模式' : '开启严格模式', keywords: 'strict' },
+      { key: 'keymap', group: '设置', label: '自定义快捷键', keywords: 'keymap shortcut keyboard' },
+      // Typing part of a name narrows these down to the flowchart to load
+      ...flowcharts.map(flowchart => ({ key: `open:${flowchart.uuid}`, group: '打开流程图', label: flowchart.tag || '未命名', keywords: 'open load' })),
+    ];
+  };
+
+  const runPaletteCommand = (key: string) => {
+    const [kind, value] = key.split(/:(.*)/);
+    if (kind === 'add') {
+      const anchor = getPasteAnchor();
+      if (anchor) addNode(value, anchor);
+      return;
+    }
+    if (kind === 'file') {
+      runFileAction(value);
+      return;
+    }
+    if (kind === 'open') {
+      router.push(`/?talk=${value}`, { scroll: false });
+      openFlowchart(value);
+      return;
+    }
+    switch (key) {
+      case 'quick-add': setQuickEntryFocusKey(key => key + 1); break;
+      case 'save': handleSave(); break;
+      case 'new': openNewTab(); break;
+      case 'history': setIsHistoryOpen(true); break;
+      case 'share': setIsShareOpen(true); break;
+      case 'search': setIsSearchOpen(true); break;
+      case 'collab': setIsCollabEnabled(enabled => !enabled); break;
+      case 'find': openFind(); break;
+      case 'undo': undo(); break;
+      case 'redo': redo(); break;
+      case 'layout-TB':
+      case 'layout-LR':
+        applyLayout(key === 'layout-LR' ? 'LR' : 'TB');
+        break;
+      case 'edit': editSelectedNode(); break;
+      case 'copy':
+      case 'cut':
+        copyNodes(getClipboardNodeIds(), key);
+        break;
+      case 'break-sort': breakSortNodes(getClipboardNodeIds()); break;
+      case 'group': groupSelection(getClipboardNodeIds()); break;
+      case 'toggle-group':
+      case 'ungroup': {
+        const group = nodes.find(node => node.selected && isGroupNode(node));
+        if (group && key === 'ungroup') ungroup(group.id);
+        else if (group) toggleGroupCollapsed(group.id);
+        break;
+      }
+      case 'delete': deleteSelection(); break;
+      case 'strict-mode': setStrictMode(enabled => !enabled); break;
+      case 'keymap': setIsKeymapOpen(true); break;
+    }
+  };
 
   return (
-    <>
+    <UndoRedoContext.Provider value={undoRedoContextValue}>
+    <LinkedTaskContext.Provider value={linkedTaskContextValue}>
+    <NodeEditContext.Provider value={nodeEditRequests}>
       {/* 消息上下文持有者 - 必须在组件渲染树中 */}
       {contextHolder}
+      {modalContextHolder}
 
       <LoginModal
         open={showLoginModal}
@@ -968,7 +1922,7 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
       <Layout style={layoutStyle}>
         <Header style={headerStyle}>
           <div style={{ fontSize: '1.5rem', fontWeight: 'bold' }}>Visual TodoFlow</div>
-          {isAuthenticated ? (
+          {canUseStorage ? (
             <>
               <Input
                 style={{ fontSize: '1.2rem', color: '#1677ff', width: '200px', textAlign: 'center' }}
@@ -982,6 +1936,67 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
                 }}
               />
               <Space>
+                {isCollabEnabled && (
+                  <>
+                    <Tag color={COLLAB_STATUS_META[collabStatus].color}>{COLLAB_STATUS_META[collabStatus].label}</Tag>
+                    <Avatar.Group max={{ count: 4 }} size="small">
+                      {collabUser && (
+                        <Tooltip title={`${collabUser.name}（我）`}>
+                          <Avatar style={{ backgroundColor: collabUser.color }}>{collabUser.name.slice(-2)}</Avatar>
+                        </Tooltip>
+                      )}
+                      {peers.map(peer => (
+                        <Tooltip key={peer.clientId} title={peer.user.name}>
+                          <Avatar style={{ backgroundColor: peer.user.color }}>{peer.user.name.slice(-2)}</Avatar>
+                        </Tooltip>
+                      ))}
+                    </Avatar.Group>
+                  </>
+                )}
+                <Button
+                  icon={<TeamOutlined />}
+                  type={isCollabEnabled ? 'primary' : 'default'}
+                  ghost={isCollabEnabled}
+                  onClick={() => setIsCollabEnabled(enabled => !enabled)}
+                  title={isCollabEnabled ? '退出协作' : '与他人实时协作编辑当前流程图'}
+                >
+                  协作
+                </Button>
+                {!isOnline && <Tag color="orange">离线</Tag>}
+                {syncConflict && (
+                  <Button danger icon={<WarningOutlined />} onClick={() => setIsConflictDeferred(false)}>
+                    同步冲突
+                  </Button>
+                )}
+                {pendingCount > 0 && (
+                  <Button
+                    icon={<CloudSyncOutlined />}
+                    onClick={() => flushSyncQueue({ force: true })}
+                    loading={isSyncing}
+                    disabled={!isOnline}
+                    title={syncError ? `上次同步失败: ${syncError}` : '立即重试同步'}
+                  >
+                    待同步 {pendingCount}
+                  </Button>
+                )}
+                <Button
+                  icon={<UndoOutlined />}
+                  onClick={undo}
+                  disabled={!canUndo}
+                  title="撤销 (Ctrl+Z)"
+                />
+                <Button
+                  icon={<RedoOutlined />}
+                  onClick={redo}
+                  disabled={!canRedo}
+                  title="重做 (Ctrl+Shift+Z)"
+                />
+                <Dropdown menu={{ items: layoutMenuItems, onClick: handleLayoutMenuClick }}>
+                  <Button icon={<ApartmentOutlined />}>
+                    自动布局
+                  </Button>
+                </Dropdown>
+                {fileMenu}
                 <Button
                   type="primary"
                   icon={<SaveOutlined />}
@@ -991,38 +2006,77 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
                   保存
                 </Button>
                 <Button
-                  icon={<PlusOutlined />}
-                  onClick={() => {
-                    const newUuid = generateUuid();
-                    setNodes([]);
-                    setEdges([]);
-                    setCurrentTag("未命名");
-                    setCurrentUuid(newUuid);
-                    setHasUnsavedChanges(false);
-                    router.push('/', { scroll: false });
-                  }}
+                  icon={<HistoryOutlined />}
+                  onClick={() => setIsHistoryOpen(true)}
+                  title="历史版本"
+                />
+                <Button
+                  icon={<ShareAltOutlined />}
+                  onClick={() => setIsShareOpen(true)}
                 >
-                  新建
+                  分享
                 </Button>
                 <Button
-                  icon={<LogoutOutlined />}
-                  onClick={() => {
-                    logout();
-                    setShowLoginModal(true);
-                  }}
+                  icon={<ThunderboltOutlined />}
+                  onClick={() => setIsPaletteOpen(true)}
+                  title="命令面板 (Ctrl+K)"
+                />
+                <Button
+                  icon={<SearchOutlined />}
+                  onClick={() => setIsSearchOpen(true)}
+                  title="搜索所有流程图的内容"
+                />
+                {/* New browser tab, so the open flowchart tabs stay as they are */}
+                <Button
+                  icon={<DashboardOutlined />}
+                  href="/dashboard"
+                  target="_blank"
+                  title="所有流程图的进度总览"
+                />
+                <Button
+                  icon={<PlusOutlined />}
+                  onClick={openNewTab}
                 >
-                  退出
+                  新建
                 </Button>
+                {isAuthenticated && (
+                  <Button
+                    icon={<LogoutOutlined />}
+                    onClick={() => {
+                      logout();
+                      if (repository.requiresAuth) setShowLoginModal(true);
+                    }}
+                  >
+                    退出
+                  </Button>
+                )}
               </Space>
             </>
           ) : (
-            <Button
-              type="primary"
-              onClick={() => setShowLoginModal(true)}
-            >
-              登录
-            </Button>
+            <Space>
+              {fileMenu}
+              <Button
+                type="primary"
+                onClick={() => setShowLoginModal(true)}
+              >
+                登录
+              </Button>
+            </Space>
           )}
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            style={{ display: 'none' }}
+            onChange={handleImportFileChange}
+          />
+          <input
+            ref={markdownInputRef}
+            type="file"
+            accept=".md,.markdown,.txt,text/markdown,text/plain"
+            style={{ display: 'none' }}
+            onChange={handleMarkdownFileChange}
+          />
         </Header>
         <Layout>
           <Sider width={250} style={siderStyle}>
@@ -1033,6 +2087,8 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
                 <DraggableItem nodeType="image" label="Image" icon={<PictureOutlined />} />
                 <DraggableItem nodeType="attachment" label="Attachment" icon={<PaperClipOutlined />} />
                 <DraggableItem nodeType="social" label="Social Post" icon={<ShareAltOutlined />} />
+                <DraggableItem nodeType="linked" label="Linked Task" icon={<LinkOutlined />} />
+                <DraggableItem nodeType={GROUP_NODE_TYPE} label="Group" icon={<GroupOutlined />} />
               </div>
 
               <div style={{ marginTop: '32px' }}>
@@ -1070,14 +2126,9 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
                           {/* Flowchart Tag - Make this clickable */}
                           <span
                             style={{ flexGrow: 1, marginRight: '8px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', cursor: 'pointer' }} // Add cursor pointer here
-                            onClick={() => { // Add onClick here for loading
-                              const newPath = `/?talk=${flowchart.uuid}`;
-                              if (currentUuid !== flowchart.uuid) {
-                                router.push(newPath, { scroll: false });
-                                loadFlowchart(flowchart.uuid);
-                              } else {
-                                router.push(newPath, { scroll: false });
-                              }
+                            onClick={() => { // Opens the flowchart in a tab, or switches to its tab
+                              router.push(`/?talk=${flowchart.uuid}`, { scroll: false });
+                              openFlowchart(flowchart.uuid);
                             }}
                           >
                             {isLoading && currentUuid === flowchart.uuid
@@ -1118,6 +2169,24 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
           </Sider>
           {/* Main Content Area (Canvas) */}
           <Content style={contentWrapperStyle} ref={reactFlowWrapper} >
+            {/* Open flowcharts */}
+            <Tabs
+              type="editable-card"
+              size="small"
+              activeKey={currentUuid}
+              onChange={selectTab}
+              onEdit={(targetKey, action) => (action === 'add' ? openNewTab() : requestCloseTab(String(targetKey)))}
+              tabBarStyle={{ margin: 0, padding: '4px 8px 0', backgroundColor: '#fff' }}
+              items={flowTabs.map(tab => ({
+                key: tab.uuid,
+                label: (
+                  <span title={tab.hasUnsavedChanges ? '有未保存的更改' : undefined}>
+                    {tab.tag || '未命名'}
+                    {tab.hasUnsavedChanges && <span style={{ marginLeft: '4px', color: '#faad14' }}>●</span>}
+                  </span>
+                ),
+              }))}
+            />
             {/* Context Menu Dropdown wrapping the canvas area */}
             {/* Pane Context Menu Dropdown */}
             <Dropdown
@@ -1137,32 +2206,55 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
               >
                 {/* This div captures the pane context menu trigger */}
                 <div
-                  style={{ width: '100%', height: '100%', position: 'relative' }}
+                  ref={canvasRef}
+                  style={{ width: '100%', flex: 1, minHeight: 0, position: 'relative' }}
+                  onMouseMove={(event) => {
+                    lastPointerRef.current = { x: event.clientX, y: event.clientY };
+                    if (isCollabEnabled && reactFlowInstance) {
+                      updateCursor(reactFlowInstance.screenToFlowPosition(lastPointerRef.current));
+                    }
+                  }}
+                  onMouseLeave={() => {
+                    lastPointerRef.current = null;
+                    updateCursor(null);
+                  }}
                 // We need to ensure the pane context menu still triggers the outer Dropdown
                 // The inner Dropdown for nodes is triggered by onNodeContextMenu on the ReactFlow component
                 >
                   <ReactFlow
-                    nodes={nodes}
+                    nodes={displayNodes}
                     // Dynamically adjust edge styles based on hover state
                     edges={edges.map(edge => {
+                      const routed = rerouteCollapsedEdge(edge, collapsedOwners);
                       const isHovered = edge.id === hoveredEdgeId;
-                      const defaultMarker = { type: MarkerType.ArrowClosed, width: 20, height: 20, color: '#B1B1B7' };
-                      const highlightedMarker = { ...defaultMarker, color: '#1677ff' }; // Create highlighted version
+                      const isCyclic = cyclicEdgeIds.has(edge.id);
+                      const isCritical = criticalEdgeIds.has(edge.id);
+                      // Hover wins over loop highlighting, which wins over the critical path
+                      const stroke = isHovered ? '#1677ff' : isCyclic ? '#ff4d4f' : isCritical ? '#722ed1' : DEFAULT_EDGE_COLOR;
+                      const marker = { type: MarkerType.ArrowClosed, width: 20, height: 20, color: stroke };
 
                       return {
-                        ...edge,
+                        ...routed,
+                        // Edges of nodes hidden by the find bar's filters go with them
+                        hidden: !!routed.hidden || (!!visibleNodeIds && (!visibleNodeIds.has(edge.source) || !visibleNodeIds.has(edge.target))),
                         style: {
                           ...(edge.style || {}), // Ensure style object exists
-                          strokeWidth: isHovered ? 3 : 2,
-                          stroke: isHovered ? '#1677ff' : '#B1B1B7',
+                          strokeWidth: isHovered || isCyclic || isCritical ? 3 : 2,
+                          stroke,
                         },
-                        markerEnd: isHovered ? highlightedMarker : defaultMarker, // Assign the correct marker object
+                        markerEnd: marker, // Arrow matches the edge color
                         // animated: isHovered, // Optional: make it animated only when hovered
                       };
                     })}
                     onNodesChange={onNodesChange}
                     onEdgesChange={onEdgesChange}
                     onConnect={onConnect}
+                    onNodeDragStart={onNodeDragStart}
+                    onNodeDragStop={onNodeDragStop}
+                    onSelectionDragStart={onNodeDragStart}
+                    onSelectionDragStop={onSelectionDragStop}
+                    onNodesDelete={onElementsDelete}
+                    onEdgesDelete={onElementsDelete}
                     onEdgeMouseEnter={onEdgeMouseEnter} // Add hover handlers
                     onEdgeMouseLeave={onEdgeMouseLeave}
                     nodeTypes={nodeTypes}
@@ -1173,11 +2265,43 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
                     onDrop={onDrop}
                     onDragOver={onDragOver}
                     onInit={setReactFlowInstance}
+                    // Deleting and moving with the keyboard go through the remappable shortcuts
+                    deleteKeyCode={null}
+                    disableKeyboardA11y
                     fitView
                     style={{ width: '100%', height: '100%' }}
                   >
                     <Controls />
                     <MiniMap />
+                    {isCollabEnabled && <CollaboratorCursors peers={peers} />}
+                    {inspectedNode && (
+                      <Panel position="top-right">
+                        <TaskInspector
+                          key={inspectedNode.id}
+                          node={inspectedNode}
+                          nodeTypeLabel={inspectedTypeLabel}
+                          assigneeOptions={assigneeOptions}
+                          tagOptions={tagOptions}
+                          onClose={closeInspector}
+                        />
+                      </Panel>
+                    )}
+                    {isFindOpen && (
+                      <Panel position="top-center">
+                        <FindBar
+                          filter={flowFilter}
+                          onChange={handleFilterChange}
+                          matchCount={findMatches.length}
+                          currentIndex={currentFindIndex}
+                          onStep={stepFind}
+                          onClose={closeFind}
+                          nodeTypeOptions={nodeTypeOptions}
+                          selectedNodeId={selectedNodeId}
+                          scopeLabel={scopeLabel}
+                          focusKey={findFocusKey}
+                        />
+                      </Panel>
+                    )}
                     <Background gap={12} size={1} />
                   </ReactFlow>
                 </div>
@@ -1188,9 +2312,10 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
           {/* Right Sidebar for Todo List */}
           <Sider width={300} style={rightSiderStyle} className="todo-list-sider"> {/* Added className for potential styling */}
             <h3 style={{ marginBottom: '16px' }}>Todo List (Order)</h3>
+            <QuickTaskEntry anchorLabel={quickEntryAnchorLabel} onSubmit={addQuickTasks} focusKey={quickEntryFocusKey} />
             {/* Render the TodoList component */}
             {/* <div>Generated list will appear here...</div> */}
-            <TodoList nodes={nodes} edges={edges} />
+            <TodoList nodes={taskNodes} edges={edges} strictMode={strictMode} onStrictModeChange={setStrictMode} visibleNodeIds={visibleNodeIds} />
           </Sider>
         </Layout>
 
@@ -1215,6 +2340,157 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
           />
         </Modal>
 
+        {/* Import Modal */}
+        <Modal
+          title={`导入 "${pendingImport?.file.tag}"`}
+          open={!!pendingImport}
+          onCancel={() => setPendingImport(null)}
+          footer={[
+            <Button key="cancel" onClick={() => setPendingImport(null)}>取消</Button>,
+            <Button key="merge" onClick={() => applyImport('merge')}>合并到当前画布</Button>,
+            <Button key="replace" type="primary" onClick={() => applyImport('replace')}>作为当前流程图打开</Button>,
+          ]}
+        >
+          <p>
+            {pendingImport?.file.nodes.length} 个节点，{pendingImport?.file.edges.length} 条连线
+            {hasUnsavedChanges && '。打开后当前未保存的更改将被替换。'}
+          </p>
+          {pendingImport && pendingImport.fixes.length > 0 && (
+            <>
+              <p style={{ marginBottom: '4px' }}>导入时进行了以下修复：</p>
+              <List
+                size="small"
+                bordered
+                dataSource={pendingImport.fixes}
+                renderItem={(fix) => <List.Item>{fix}</List.Item>}
+                style={{ maxHeight: '240px', overflowY: 'auto' }}
+              />
+            </>
+          )}
+        </Modal>
+
+        {/* Mermaid Import Modal */}
+        <Modal
+          title="导入 Mermaid 流程图"
+          open={!!mermaidImport}
+          onOk={applyMermaidImport}
+          onCancel={() => setMermaidImport(null)}
+          okText="导入"
+          cancelText="取消"
+          okButtonProps={{ disabled: !mermaidImport?.text.trim() }}
+        >
+          <p>粘贴 flowchart / graph 代码，节点将作为文本任务添加到当前画布。</p>
+          <Input.TextArea
+            value={mermaidImport?.text}
+            onChange={(e) => setMermaidImport({ text: e.target.value, error: null })}
+            placeholder={'flowchart TD\n  A[需求评审] --> B[开发]\n  B --> C[测试]'}
+            autoSize={{ minRows: 8, maxRows: 16 }}
+            style={{ fontFamily: 'monospace' }}
+          />
+          {mermaidImport?.error && (
+            <Alert type="error" showIcon message={mermaidImport.error} style={{ marginTop: '12px' }} />
+          )}
+        </Modal>
+
+        {/* Image Export Modal */}
+        <Modal
+          title={`导出为 ${imageExport?.format.toUpperCase()} 图片`}
+          open={!!imageExport}
+          onOk={handleExportImage}
+          onCancel={() => setImageExport(null)}
+          okText="导出"
+          cancelText="取消"
+          confirmLoading={isExportingImage}
+        >
+          {imageExport && (
+            <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+              <div>
+                <div style={{ marginBottom: '4px' }}>范围</div>
+                <Radio.Group
+                  value={imageExport.scope}
+                  onChange={(e) => setImageExport({ ...imageExport, scope: e.target.value })}
+                >
+                  <Radio value="all">整个流程图</Radio>
+                  <Radio value="selection" disabled={!hasSelection}>仅选中的节点</Radio>
+                </Radio.Group>
+              </div>
+              <div>
+                <div style={{ marginBottom: '4px' }}>边距（像素）</div>
+                <InputNumber
+                  min={0}
+                  max={400}
+                  value={imageExport.padding}
+                  onChange={(value) => setImageExport({ ...imageExport, padding: value ?? 0 })}
+                />
+              </div>
+              <div>
+                <div style={{ marginBottom: '4px' }}>缩放倍数</div>
+                <InputNumber
+                  min={0.5}
+                  max={4}
+                  step={0.5}
+                  value={imageExport.scale}
+                  onChange={(value) => setImageExport({ ...imageExport, scale: value ?? 1 })}
+                  addonAfter="x"
+                />
+              </div>
+            </Space>
+          )}
+        </Modal>
+
+        {/* Sync Conflict Modal */}
+        {syncConflict && (
+          <SyncConflictModal
+            key={`${syncConflict.uuid}:${syncConflict.remote.revision ?? syncConflict.remote.savedAt}`}
+            conflict={syncConflict}
+            open={!isConflictDeferred}
+            onDefer={() => setIsConflictDeferred(true)}
+            onResolve={handleResolveConflict}
+          />
+        )}
+
+        {/* Revision History */}
+        <RevisionHistoryDrawer
+          uuid={currentUuid}
+          open={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          onRestore={restoreRevision}
+          refreshKey={historyRefreshKey}
+        />
+
+        {/* Command Palette */}
+        {isPaletteOpen && (
+          <CommandPalette commands={getPaletteCommands()} onRun={runPaletteCommand} onClose={() => setIsPaletteOpen(false)} />
+        )}
+        {isKeymapOpen && (
+          <KeymapSettingsModal
+            keymap={keymap}
+            onChange={setKeymap}
+            onReset={resetKeymap}
+            onClose={() => setIsKeymapOpen(false)}
+            isMac={isMacPlatform()}
+          />
+        )}
+
+        {/* Global Search */}
+        {isSearchOpen && (
+          <GlobalSearchModal
+            flowcharts={canUseStorage ? flowcharts : []}
+            onClose={() => setIsSearchOpen(false)}
+            onPick={handleSearchPick}
+          />
+        )}
+
+        {/* Share Dialog */}
+        {isShareOpen && (
+          <ShareModal
+            flow={{ nodes, edges, tag: currentTag, uuid: currentUuid }}
+            onClose={() => setIsShareOpen(false)}
+            createShareToken={repository.share ? () => repository.share!(currentUuid) : undefined}
+            shareTokenHint={flowcharts.some(fc => fc.uuid === currentUuid) ? undefined : '请先保存流程图，再生成分享令牌链接。'}
+          />
+        )}
+
         {/* Delete Confirmation Modal */}
         <Modal
           title={`确认删除 "${flowchartToDelete?.tag}"?`}
@@ -1225,11 +2501,13 @@ const FlowEditor: React.FC<FlowEditorProps> = ({ searchParams }) => {
           okType="danger"
           cancelText="取消"
         >
-          <p>此操作将从 Notion 中删除该流程图，且无法撤销。</p>
+          <p>此操作将从 Notion 中删除该流程图及其历史版本，且无法撤销。</p>
         </Modal>
 
       </Layout>
-    </> // Close Fragment
+    </NodeEditContext.Provider>
+    </LinkedTaskContext.Provider>
+    </UndoRedoContext.Provider>
   );
 }
 
@@ -0,0 +1,96 @@
+'use client';
+
+import React, { Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Result, Spin } from 'antd';
+import { ReactFlowProvider, Node, Edge } from 'reactflow';
+import 'reactflow/dist/style.css';
+import FlowViewer from '@/components/FlowViewer';
+import { getFlowchartRepository } from '@/storage/flowchartRepository';
+import { decodeFlowSnapshot, getSnapshotFromHash, SHARE_TOKEN_PARAM, EMBED_PARAM } from '@/utils/shareLink';
+import { GROUP_NODE_TYPE } from '@/utils/taskGroups';
+
+// Node types the editor knows; anything else in a snapshot is repaired on import
+const FLOW_NODE_TYPES = ['text', 'image', 'attachment', 'social', 'linked', GROUP_NODE_TYPE];
+
+type ViewerState =
+  | { status: 'loading' }
+  | { status: 'error'; error: string }
+  | { status: 'ready'; tag: string; nodes: Node[]; edges: Edge[] };
+
+// Where the shared flowchart comes from: a share token in the query, or a snapshot in the hash
+const loadSharedFlow = async (token: string | null, snapshot: string | null): Promise<ViewerState> => {
+  if (snapshot) {
+    const result = await decodeFlowSnapshot(snapshot, FLOW_NODE_TYPES);
+    return result.ok
+      ? { status: 'ready', tag: result.file.tag, nodes: result.file.nodes, edges: result.file.edges }
+      : { status: 'error', error: result.error };
+  }
+  if (token) {
+    const repository = getFlowchartRepository();
+    if (!repository.loadShared) {
+      return { status: 'error', error: '当前存储后端不支持分享令牌，请让分享者发送快照链接' };
+    }
+    try {
+      const data = await repository.loadShared(token);
+      return { status: 'ready', tag: data.tag, nodes: data.nodes, edges: data.edges };
+    } catch (error) {
+      return { status: 'error', error: error instanceof Error ? error.message : '未知错误' };
+    }
+  }
+  return { status: 'error', error: '链接中没有分享令牌或流程图快照' };
+};
+
+const SharedFlowViewer = () => {
+  const searchParams = useSearchParams();
+  const token = searchParams.get(SHARE_TOKEN_PARAM);
+  const embed = searchParams.get(EMBED_PARAM) === '1';
+  const [state, setState] = useState<ViewerState>({ status: 'loading' });
+  const [fullViewUrl, setFullViewUrl] = useState<string>();
+
+  useEffect(() => {
+    let cancelled = false;
+    const readHash = () => {
+      const url = new URL(window.location.href);
+      url.searchParams.delete(EMBED_PARAM);
+      loadSharedFlow(token, getSnapshotFromHash(window.location.hash)).then(next => {
+        if (cancelled) return;
+        setState(next);
+        setFullViewUrl(url.toString());
+      });
+    };
+    readHash();
+    window.addEventListener('hashchange', readHash);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('hashchange', readHash);
+    };
+  }, [token]);
+
+  if (state.status === 'loading') {
+    return <Spin size="large" style={{ display: 'block', marginTop: '30vh' }} />;
+  }
+  if (state.status === 'error') {
+    return <Result status="warning" title="无法打开分享的流程图" subTitle={state.error} />;
+  }
+  return (
+    <ReactFlowProvider>
+      <FlowViewer
+        tag={state.tag}
+        nodes={state.nodes}
+        edges={state.edges}
+        embed={embed}
+        fullViewUrl={embed ? fullViewUrl : undefined}
+      />
+    </ReactFlowProvider>
+  );
+};
+
+// Read-only viewer for shared flowcharts, also used inside iframes (?embed=1)
+export default function ViewPage() {
+  return (
+    <Suspense fallback={<Spin size="large" style={{ display: 'block', marginTop: '30vh' }} />}>
+      <SharedFlowViewer />
+    </Suspense>
+  );
+}
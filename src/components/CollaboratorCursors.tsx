@@ -0,0 +1,48 @@
+'use client';
+
+import React from 'react';
+import { useStore, ReactFlowState } from 'reactflow';
+import { CollabPeer } from '@/hooks/useCollaboration';
+
+const transformSelector = (state: ReactFlowState) => state.transform;
+
+// Other users' pointers, drawn over the canvas; rendered as a child of <ReactFlow>
+const CollaboratorCursors: React.FC<{ peers: CollabPeer[] }> = ({ peers }) => {
+  const [translateX, translateY, zoom] = useStore(transformSelector);
+
+  return (
+    <div style={{ position: 'absolute', inset: 0, pointerEvents: 'none', overflow: 'hidden', zIndex: 5 }}>
+      {peers.filter(peer => peer.cursor).map(({ clientId, user, cursor }) => (
+        <div
+          key={clientId}
+          style={{
+            position: 'absolute',
+            left: 0,
+            top: 0,
+            transform: `translate(${cursor!.x * zoom + translateX}px, ${cursor!.y * zoom + translateY}px)`,
+            transition: 'transform 80ms linear',
+          }}
+        >
+          <svg width="16" height="16" viewBox="0 0 16 16" style={{ display: 'block' }}>
+            <path d="M1 1 L1 13 L4.5 9.5 L7 15 L9 14 L6.5 8.5 L11.5 8.5 Z" fill={user.color} stroke="#fff" strokeWidth="1" />
+          </svg>
+          <div
+            style={{
+              marginLeft: '12px',
+              padding: '1px 6px',
+              borderRadius: '4px',
+              background: user.color,
+              color: '#fff',
+              fontSize: '12px',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {user.name}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CollaboratorCursors;
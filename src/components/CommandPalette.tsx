@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useMemo, useRef, useState, useEffect } from 'react';
+import { Modal, Input, Typography, Empty } from 'antd';
+import { SearchOutlined } from '@ant-design/icons';
+import { getSearchTerms } from '@/utils/flowSearch';
+
+const { Text } = Typography;
+
+// Long lists (e.g. many saved flowcharts) are cut off; typing narrows them down
+const MAX_VISIBLE_COMMANDS = 50;
+
+export interface PaletteCommand {
+  key: string;
+  label: string;
+  group: string;
+  // Extra words the command can be found by
+  keywords?: string;
+  shortcut?: string;
+  disabled?: boolean;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  // Called with the key of the chosen command, after the palette has closed
+  onRun: (key: string) => void;
+  onClose: () => void;
+}
+
+// Ctrl+K list of every editor action, filtered as the user types and run with Enter
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onRun, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const matches = useMemo(() => {
+    const terms = getSearchTerms(query);
+    return commands
+      .filter(command => !command.disabled)
+      .filter(command => {
+        const text = `${command.group} ${command.label} ${command.keywords ?? ''}`.toLowerCase();
+        return terms.every(term => text.includes(term));
+      })
+      .slice(0, MAX_VISIBLE_COMMANDS);
+  }, [commands, query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const run = (command: PaletteCommand) => {
+    onClose();
+    onRun(command.key);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (matches.length === 0) return;
+      const delta = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + delta + matches.length) % matches.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      const command = matches[Math.min(activeIndex, matches.length - 1)];
+      if (command) run(command);
+    }
+  };
+
+  return (
+    <Modal open onCancel={onClose} footer={null} closable={false} width={560} styles={{ body: { padding: 0 } }}>
+      <Input
+        autoFocus
+        size="large"
+        variant="borderless"
+        prefix={<SearchOutlined />}
+        placeholder="输入命令或流程图名称..."
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        style={{ borderBottom: '1px solid #f0f0f0', borderRadius: 0 }}
+      />
+      <div ref={listRef} style={{ maxHeight: '50vh', overflowY: 'auto', padding: '4px 0' }}>
+        {matches.length === 0 ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="没有匹配的命令" />
+        ) : (
+          matches.map((command, index) => (
+            <div
+              key={command.key}
+              data-index={index}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => run(command)}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                padding: '6px 16px',
+                cursor: 'pointer',
+                background: index === activeIndex ? '#e6f4ff' : undefined,
+              }}
+            >
+              <span>
+                <Text type="secondary" style={{ fontSize: '12px', marginRight: '8px' }}>{command.group}</Text>
+                {command.label}
+              </span>
+              {command.shortcut && <Text keyboard style={{ fontSize: '12px' }}>{command.shortcut}</Text>}
+            </div>
+          ))
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,123 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { Input, Button, Select, Segmented, Space, Tag, Typography, Tooltip } from 'antd';
+import type { InputRef } from 'antd';
+import { UpOutlined, DownOutlined, CloseOutlined, SearchOutlined } from '@ant-design/icons';
+import { FlowFilter, CompletionFilter, ScopeDirection, SCOPE_DIRECTION_LABELS, EMPTY_FLOW_FILTER, isFilterActive } from '@/utils/flowFilter';
+
+const { Text } = Typography;
+
+interface FindBarProps {
+  filter: FlowFilter;
+  onChange: (filter: FlowFilter) => void;
+  matchCount: number;
+  // Index of the hit the canvas is showing, null until the user steps to one
+  currentIndex: number | null;
+  onStep: (delta: 1 | -1) => void;
+  onClose: () => void;
+  nodeTypeOptions: { value: string; label: string }[];
+  // Centre of the upstream/downstream filter when it is turned on
+  selectedNodeId: string | null;
+  // Label of the node the scope filter is centred on
+  scopeLabel: string | null;
+  // Changes whenever Ctrl+F is pressed again, to refocus the query
+  focusKey: number;
+}
+
+// Find bar over the canvas: the query dims non-matching nodes, the filters hide them
+const FindBar: React.FC<FindBarProps> = ({
+  filter, onChange, matchCount, currentIndex, onStep, onClose, nodeTypeOptions, selectedNodeId, scopeLabel, focusKey,
+}) => {
+  const inputRef = useRef<InputRef>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus({ cursor: 'all' });
+  }, [focusKey]);
+
+  const hasQuery = filter.query.trim() !== '';
+  let counter = '';
+  if (hasQuery) {
+    counter = matchCount === 0 ? '无结果' : currentIndex === null ? `${matchCount} 个结果` : `${currentIndex + 1}/${matchCount}`;
+  }
+
+  return (
+    <div
+      className="nodrag nopan nowheel"
+      style={{ background: '#fff', border: '1px solid #d9d9d9', borderRadius: '6px', padding: '8px', boxShadow: '0 2px 8px rgba(0, 0, 0, 0.15)', width: '420px' }}
+    >
+      <Space.Compact style={{ width: '100%' }}>
+        <Input
+          ref={inputRef}
+          prefix={<SearchOutlined />}
+          placeholder="查找节点 (Enter 下一个, Shift+Enter 上一个)"
+          value={filter.query}
+          suffix={<Text type="secondary" style={{ fontSize: '12px' }}>{counter}</Text>}
+          onChange={(e) => onChange({ ...filter, query: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && matchCount > 0) {
+              e.preventDefault();
+              onStep(e.shiftKey ? -1 : 1);
+            } else if (e.key === 'Escape') {
+              e.preventDefault();
+              onClose();
+            }
+          }}
+        />
+        <Button icon={<UpOutlined />} disabled={matchCount === 0} onClick={() => onStep(-1)} />
+        <Button icon={<DownOutlined />} disabled={matchCount === 0} onClick={() => onStep(1)} />
+        <Button icon={<CloseOutlined />} onClick={onClose} />
+      </Space.Compact>
+      <Space wrap size={8} style={{ marginTop: '8px' }}>
+        <Select
+          mode="multiple"
+          size="small"
+          allowClear
+          placeholder="所有类型"
+          style={{ minWidth: '120px' }}
+          maxTagCount="responsive"
+          value={filter.types}
+          onChange={(types: string[]) => onChange({ ...filter, types })}
+          options={nodeTypeOptions}
+        />
+        <Segmented
+          size="small"
+          value={filter.completion}
+          onChange={(completion) => onChange({ ...filter, completion: completion as CompletionFilter })}
+          options={[
+            { value: 'all', label: '全部' },
+            { value: 'open', label: '未完成' },
+            { value: 'done', label: '已完成' },
+          ]}
+        />
+        {filter.scope ? (
+          <Tag closable onClose={() => onChange({ ...filter, scope: null })} style={{ marginRight: 0 }}>
+            {SCOPE_DIRECTION_LABELS[filter.scope.direction]}: {scopeLabel ?? '已删除的节点'}
+          </Tag>
+        ) : (
+          <Tooltip title={selectedNodeId ? undefined : '先在画布上选中一个节点'}>
+            <Select
+              size="small"
+              placeholder="上下游"
+              style={{ width: '96px' }}
+              disabled={!selectedNodeId}
+              value={null}
+              onChange={(direction: ScopeDirection) => selectedNodeId && onChange({ ...filter, scope: { nodeId: selectedNodeId, direction } })}
+              options={(Object.keys(SCOPE_DIRECTION_LABELS) as ScopeDirection[]).map(direction => ({
+                value: direction,
+                label: SCOPE_DIRECTION_LABELS[direction],
+              }))}
+            />
+          </Tooltip>
+        )}
+        {isFilterActive(filter) && (
+          <Button type="link" size="small" onClick={() => onChange({ ...EMPTY_FLOW_FILTER, query: filter.query })}>
+            清除筛选
+          </Button>
+        )}
+      </Space>
+    </div>
+  );
+};
+
+export default FindBar;
@@ -0,0 +1,102 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Layout, Tag, Typography } from 'antd';
+import ReactFlow, { Background, Controls, MiniMap, Node, Edge } from 'reactflow';
+import TodoList from '@/components/TodoList';
+import { READ_ONLY_NODE_TYPES } from '@/components/nodes/ReadOnlyNode';
+import { getTaskStatuses, TASK_STATUS_META } from '@/utils/taskStatus';
+import { applyGroupStates, getCollapsedOwners, rerouteCollapsedEdge } from '@/utils/taskGroups';
+
+const { Header, Sider, Content } = Layout;
+const { Text } = Typography;
+
+interface FlowViewerProps {
+  tag: string;
+  nodes: Node[];
+  edges: Edge[];
+  // Compact layout for iframes: no header, collapsible task list, link to the full viewer
+  embed?: boolean;
+  fullViewUrl?: string;
+}
+
+// Canvas and task list of a flowchart without any editing controls. Must be rendered inside a
+// ReactFlowProvider (the task list reads the flow instance).
+const FlowViewer: React.FC<FlowViewerProps> = ({ tag, nodes, edges, embed = false, fullViewUrl }) => {
+  // Groups are complete once their tasks are, like in the editor
+  const taskNodes = useMemo(() => applyGroupStates(nodes), [nodes]);
+  const collapsedOwners = useMemo(() => getCollapsedOwners(nodes), [nodes]);
+
+  // Same status outlines as the editor; tasks inside collapsed groups stay hidden
+  const displayNodes = useMemo(() => {
+    const taskStatuses = getTaskStatuses(taskNodes, edges);
+    return taskNodes.map(node => {
+      const status = taskStatuses.get(node.id);
+      const hidden = collapsedOwners.has(node.id);
+      return status
+        ? { ...node, selected: false, hidden, className: TASK_STATUS_META[status].className }
+        : { ...node, selected: false, hidden };
+    });
+  }, [taskNodes, edges, collapsedOwners]);
+  const displayEdges = useMemo(() => edges.map(edge => rerouteCollapsedEdge(edge, collapsedOwners)), [edges, collapsedOwners]);
+
+  const canvas = (
+    <ReactFlow
+      nodes={displayNodes}
+      edges={displayEdges}
+      nodeTypes={READ_ONLY_NODE_TYPES}
+      nodesDraggable={false}
+      nodesConnectable={false}
+      elementsSelectable={false}
+      deleteKeyCode={null}
+      fitView
+      style={{ width: '100%', height: '100%' }}
+    >
+      <Controls showInteractive={false} />
+      {!embed && <MiniMap />}
+      <Background gap={12} size={1} />
+    </ReactFlow>
+  );
+
+  return (
+    <Layout style={{ height: '100vh' }}>
+      {!embed && (
+        <Header style={{ display: 'flex', alignItems: 'center', gap: '16px', background: '#fff', borderBottom: '1px solid #f0f0f0', padding: '0 24px' }}>
+          <div style={{ fontSize: '1.5rem', fontWeight: 'bold' }}>Visual TodoFlow</div>
+          <Text style={{ fontSize: '1.2rem', color: '#1677ff' }}>{tag || '未命名'}</Text>
+          <Tag>只读</Tag>
+        </Header>
+      )}
+      <Layout>
+        <Content style={{ position: 'relative', background: '#fff' }}>
+          {canvas}
+          {embed && (
+            <div style={{ position: 'absolute', top: '8px', left: '8px', zIndex: 5, padding: '2px 8px', background: 'rgba(255,255,255,0.9)', borderRadius: '4px' }}>
+              <Text strong>{tag || '未命名'}</Text>
+              {fullViewUrl && (
+                <a href={fullViewUrl} target="_blank" rel="noopener noreferrer" style={{ marginLeft: '8px', fontSize: '12px' }}>
+                  在新窗口打开
+                </a>
+              )}
+            </div>
+          )}
+        </Content>
+        <Sider
+          width={embed ? 260 : 300}
+          theme="light"
+          collapsible={embed}
+          collapsedWidth={0}
+          defaultCollapsed={embed}
+          style={{ overflowY: 'auto', borderLeft: '1px solid #f0f0f0' }}
+        >
+          <div style={{ padding: embed ? '8px' : '16px' }}>
+            {!embed && <h3 style={{ marginBottom: '16px' }}>Todo List (Order)</h3>}
+            <TodoList nodes={taskNodes} edges={edges} readOnly />
+          </div>
+        </Sider>
+      </Layout>
+    </Layout>
+  );
+};
+
+export default FlowViewer;
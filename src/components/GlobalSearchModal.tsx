@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Input, List, Tag, Typography, Button, Space, Empty } from 'antd';
+import { SearchOutlined } from '@ant-design/icons';
+import { getFlowchartRepository, FlowchartSummary } from '@/storage/flowchartRepository';
+import { getSearchIndex } from '@/storage/searchIndex';
+import { SearchHit, SEARCH_FIELD_LABELS, getSearchSnippet } from '@/utils/flowSearch';
+
+const { Text } = Typography;
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 200;
+
+interface GlobalSearchModalProps {
+  // Saved flowcharts; the ones not in the index yet can be indexed from here
+  flowcharts: FlowchartSummary[];
+  onClose: () => void;
+  // nodeId is null when the flowchart name matched
+  onPick: (uuid: string, nodeId: string | null) => void;
+}
+
+const HitSnippet: React.FC<{ hit: SearchHit }> = ({ hit }) => {
+  const { before, match, after } = getSearchSnippet(hit);
+  return (
+    <Text style={{ fontSize: '12px' }}>
+      {before}<Text mark style={{ fontSize: '12px' }}>{match}</Text>{after}
+    </Text>
+  );
+};
+
+// Search the contents of every indexed flowchart: text, titles, attachment names and links
+const GlobalSearchModal: React.FC<GlobalSearchModalProps> = ({ flowcharts, onClose, onPick }) => {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [indexedUuids, setIndexedUuids] = useState<Set<string> | null>(null);
+  const [indexing, setIndexing] = useState<{ done: number; total: number } | null>(null);
+  const [indexVersion, setIndexVersion] = useState(0);
+
+  useEffect(() => {
+    getSearchIndex().listIndexed()
+      .then(uuids => setIndexedUuids(new Set(uuids)))
+      .catch(listError => console.error('Failed to read search index:', listError));
+  }, [indexVersion]);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      getSearchIndex().search(query)
+        .then(results => {
+          setHits(results);
+          setError(null);
+        })
+        .catch(searchError => setError(searchError instanceof Error ? searchError.message : '搜索失败'));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [query, indexVersion]);
+
+  const missing = useMemo(
+    () => (indexedUuids ? flowcharts.filter(fc => !indexedUuids.has(fc.uuid)) : []),
+    [flowcharts, indexedUuids]
+  );
+
+  // Load the flowcharts this browser hasn't seen yet and add them to the index
+  const indexMissing = async () => {
+    const repository = getFlowchartRepository();
+    setIndexing({ done: 0, total: missing.length });
+    for (const [index, summary] of missing.entries()) {
+      try {
+        await getSearchIndex().put(await repository.load(summary.uuid));
+      } catch (indexError) {
+        console.error('Failed to index flowchart:', summary.uuid, indexError);
+      }
+      setIndexing({ done: index + 1, total: missing.length });
+    }
+    setIndexing(null);
+    setIndexVersion(version => version + 1);
+  };
+
+  // Hits grouped by flowchart, in the order the index returned them
+  const groups = useMemo(() => {
+    const byUuid = new Map<string, { uuid: string; tag: string; hits: SearchHit[] }>();
+    hits.forEach(hit => {
+      const group = byUuid.get(hit.uuid) ?? { uuid: hit.uuid, tag: hit.tag, hits: [] };
+      group.hits.push(hit);
+      byUuid.set(hit.uuid, group);
+    });
+    return Array.from(byUuid.values());
+  }, [hits]);
+
+  return (
+    <Modal title="搜索所有流程图" open onCancel={onClose} footer={null} width={640}>
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Input
+          autoFocus
+          allowClear
+          prefix={<SearchOutlined />}
+          placeholder="搜索任务内容、标题、附件名或链接"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        {missing.length > 0 && (
+          <Space>
+            <Text type="secondary" style={{ fontSize: '12px' }}>
+              {indexing
+                ? `正在建立索引 ${indexing.done}/${indexing.total}...`
+                : `还有 ${missing.length} 个流程图未在本浏览器中打开过，尚未建立索引。`}
+            </Text>
+            {!indexing && <Button size="small" onClick={indexMissing}>建立索引</Button>}
+          </Space>
+        )}
+        {error && <Text type="danger">{error}</Text>}
+        <div style={{ maxHeight: '60vh', overflowY: 'auto' }}>
+          {query.trim() && groups.length === 0 ? (
+            <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="没有找到匹配的内容" />
+          ) : (
+            groups.map(group => (
+              <div key={group.uuid} style={{ marginBottom: '12px' }}>
+                <Text strong>{group.tag || '未命名'}</Text>
+                <List
+                  size="small"
+                  dataSource={group.hits}
+                  renderItem={(hit) => (
+                    <List.Item
+                      style={{ cursor: 'pointer', padding: '4px 8px' }}
+                      onClick={() => onPick(hit.uuid, hit.nodeId)}
+                    >
+                      <Space size={4}>
+                        <Tag style={{ marginRight: 0 }}>{SEARCH_FIELD_LABELS[hit.field]}</Tag>
+                        <HitSnippet hit={hit} />
+                      </Space>
+                    </List.Item>
+                  )}
+                />
+              </div>
+            ))
+          )}
+        </div>
+      </Space>
+    </Modal>
+  );
+};
+
+export default GlobalSearchModal;
@@ -0,0 +1,97 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Modal, Table, Tag, Button, Space, Typography } from 'antd';
+import { PlusOutlined } from '@ant-design/icons';
+import { Keymap, KeymapAction, KEYMAP_ACTION_LABELS, getEventShortcut, formatShortcut, assignShortcut, removeShortcut } from '@/utils/keymap';
+
+const { Text } = Typography;
+
+interface KeymapSettingsModalProps {
+  keymap: Keymap;
+  onChange: (keymap: Keymap) => void;
+  onReset: () => void;
+  onClose: () => void;
+  isMac: boolean;
+}
+
+// Remap the editor shortcuts: remove a key from an action, or record a new one
+const KeymapSettingsModal: React.FC<KeymapSettingsModalProps> = ({ keymap, onChange, onReset, onClose, isMac }) => {
+  // Action waiting for the user to press its new shortcut
+  const [recording, setRecording] = useState<KeymapAction | null>(null);
+
+  const handleRecordKeyDown = (action: KeymapAction, event: React.KeyboardEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (event.key === 'Escape') {
+      setRecording(null);
+      return;
+    }
+    const shortcut = getEventShortcut(event);
+    if (!shortcut) return; // Still holding modifiers
+    onChange(assignShortcut(keymap, action, shortcut));
+    setRecording(null);
+  };
+
+  return (
+    <Modal
+      title="键盘快捷键"
+      open
+      onCancel={onClose}
+      width={600}
+      footer={[
+        <Button key="reset" onClick={onReset}>恢复默认</Button>,
+        <Button key="close" type="primary" onClick={onClose}>完成</Button>,
+      ]}
+    >
+      <Text type="secondary" style={{ fontSize: '12px' }}>
+        点击“添加”后按下新的组合键（Esc 取消）。已被其他操作使用的组合键会从原操作中移除。
+      </Text>
+      <Table
+        rowKey="action"
+        size="small"
+        pagination={false}
+        style={{ marginTop: '12px' }}
+        dataSource={(Object.keys(KEYMAP_ACTION_LABELS) as KeymapAction[]).map(action => ({ action }))}
+        columns={[
+          {
+            title: '操作',
+            dataIndex: 'action',
+            render: (action: KeymapAction) => KEYMAP_ACTION_LABELS[action],
+          },
+          {
+            title: '快捷键',
+            key: 'shortcuts',
+            render: (_, { action }) => (
+              <Space size={4} wrap>
+                {keymap[action].map(shortcut => (
+                  <Tag key={shortcut} closable onClose={() => onChange(removeShortcut(keymap, action, shortcut))} style={{ marginRight: 0 }}>
+                    {formatShortcut(shortcut, isMac)}
+                  </Tag>
+                ))}
+                {recording === action ? (
+                  <Button
+                    size="small"
+                    type="primary"
+                    ghost
+                    autoFocus
+                    onKeyDown={(event) => handleRecordKeyDown(action, event)}
+                    onBlur={() => setRecording(null)}
+                  >
+                    请按下组合键...
+                  </Button>
+                ) : (
+                  <Button size="small" type="dashed" icon={<PlusOutlined />} onClick={() => setRecording(action)}>
+                    添加
+                  </Button>
+                )}
+              </Space>
+            ),
+          },
+        ]}
+      />
+    </Modal>
+  );
+};
+
+export default KeymapSettingsModal;
@@ -0,0 +1,64 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Input, Button, Checkbox, Typography } from 'antd';
+import type { TextAreaRef } from 'antd/es/input/TextArea';
+import { PlusOutlined } from '@ant-design/icons';
+
+const { TextArea } = Input;
+const { Text } = Typography;
+
+interface QuickTaskEntryProps {
+  // Task the new ones would follow, null when there is nothing to continue from
+  anchorLabel: string | null;
+  // Returns whether tasks were added, so the box is only cleared then
+  onSubmit: (input: string, linkToAnchor: boolean) => boolean;
+  // Changes whenever the command palette asks for the box, to focus it
+  focusKey: number;
+}
+
+// Type a list of tasks, or "A -> B -> C", and get chained text nodes
+const QuickTaskEntry: React.FC<QuickTaskEntryProps> = ({ anchorLabel, onSubmit, focusKey }) => {
+  const [input, setInput] = useState('');
+  const [linkToAnchor, setLinkToAnchor] = useState(true);
+  const inputRef = useRef<TextAreaRef>(null);
+
+  useEffect(() => {
+    if (focusKey > 0) inputRef.current?.focus();
+  }, [focusKey]);
+
+  const submit = () => {
+    if (input.trim() && onSubmit(input, linkToAnchor && !!anchorLabel)) setInput('');
+  };
+
+  return (
+    <div style={{ marginBottom: '16px' }}>
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <TextArea
+          ref={inputRef}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter adds the tasks, Shift+Enter starts another line
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              submit();
+            }
+          }}
+          placeholder="快速添加任务：每行一个，或 A -> B -> C"
+          autoSize={{ minRows: 1, maxRows: 6 }}
+        />
+        <Button icon={<PlusOutlined />} onClick={submit} disabled={!input.trim()} />
+      </div>
+      {anchorLabel && (
+        <Checkbox checked={linkToAnchor} onChange={(e) => setLinkToAnchor(e.target.checked)} style={{ marginTop: '4px' }}>
+          <Text type="secondary" style={{ fontSize: '12px' }}>
+            接在「{anchorLabel.length > 20 ? `${anchorLabel.slice(0, 20)}…` : anchorLabel}」之后
+          </Text>
+        </Checkbox>
+      )}
+    </div>
+  );
+};
+
+export default QuickTaskEntry;
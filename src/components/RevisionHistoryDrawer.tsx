@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Drawer, List, Button, Modal, Space, Tag, Typography, Empty } from 'antd';
+import ReactFlow, { ReactFlowProvider, Background } from 'reactflow';
+import { getRevisionHistory, FlowchartRevision, FlowchartRevisionInfo, RevisionSummary } from '@/storage/revisionHistory';
+import { READ_ONLY_NODE_TYPES } from '@/components/nodes/ReadOnlyNode';
+import { applyGroupStates, getCollapsedOwners, rerouteCollapsedEdge } from '@/utils/taskGroups';
+
+const { Text } = Typography;
+
+interface RevisionHistoryDrawerProps {
+  uuid: string;
+  open: boolean;
+  onClose: () => void;
+  onRestore: (revision: FlowchartRevision) => void;
+  // Changes whenever a revision is added, so the list reloads
+  refreshKey?: number;
+}
+
+const formatSummary = (summary: RevisionSummary) => {
+  const parts = [
+    summary.addedNodes > 0 && `+${summary.addedNodes} 节点`,
+    summary.removedNodes > 0 && `-${summary.removedNodes} 节点`,
+    summary.changedNodes > 0 && `~${summary.changedNodes} 节点`,
+    summary.addedEdges > 0 && `+${summary.addedEdges} 连线`,
+    summary.removedEdges > 0 && `-${summary.removedEdges} 连线`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join('  ') : '内容无变化';
+};
+
+// Saved revisions of one flowchart, newest first, with a read-only preview of each
+const RevisionHistoryDrawer: React.FC<RevisionHistoryDrawerProps> = ({ uuid, open, onClose, onRestore, refreshKey }) => {
+  const [revisions, setRevisions] = useState<FlowchartRevisionInfo[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<FlowchartRevision | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    getRevisionHistory().list(uuid)
+      .then(list => {
+        if (cancelled) return;
+        setRevisions(list);
+        setLoadError(null);
+      })
+      .catch(error => {
+        console.error('Failed to load revision history:', error);
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : '未知错误');
+      });
+    return () => { cancelled = true; };
+  }, [uuid, open, refreshKey]);
+
+  const openPreview = async (id: number) => {
+    try {
+      setPreview(await getRevisionHistory().get(id));
+    } catch (error) {
+      console.error('Failed to load revision:', error);
+    }
+  };
+
+  // Shown the way the editor would: group progress, tasks inside collapsed groups hidden
+  const previewFlow = useMemo(() => {
+    if (!preview) return { nodes: [], edges: [] };
+    const owners = getCollapsedOwners(preview.nodes);
+    return {
+      nodes: applyGroupStates(preview.nodes).map(node => ({ ...node, selected: false, hidden: owners.has(node.id) })),
+      edges: preview.edges.map(edge => rerouteCollapsedEdge(edge, owners)),
+    };
+  }, [preview]);
+  const latestId = revisions?.[0]?.id;
+
+  return (
+    <>
+      <Drawer title="历史版本" placement="right" width={380} open={open} onClose={onClose}>
+        {loadError ? (
+          <Text type="danger">读取历史版本失败: {loadError}</Text>
+        ) : (
+          <List
+            loading={revisions === null}
+            dataSource={revisions ?? []}
+            locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="保存后会在这里留下历史版本" /> }}
+            renderItem={(revision) => (
+              <List.Item
+                actions={[
+                  <Button key="preview" size="small" type="link" onClick={() => openPreview(revision.id)}>预览</Button>,
+                ]}
+              >
+                <List.Item.Meta
+                  title={
+                    <Space size={4}>
+                      <span>{new Date(revision.savedAt).toLocaleString()}</span>
+                      {revision.id === latestId && <Tag color="blue">最新</Tag>}
+                      {revision.restoredFrom !== undefined && <Tag>恢复</Tag>}
+                    </Space>
+                  }
+                  description={
+                    <>
+                      <div>{revision.tag}</div>
+                      <div>{formatSummary(revision.summary)}</div>
+                    </>
+                  }
+                />
+              </List.Item>
+            )}
+          />
+        )}
+      </Drawer>
+
+      <Modal
+        title={preview ? `${preview.tag} · ${new Date(preview.savedAt).toLocaleString()}` : ''}
+        open={!!preview}
+        onCancel={() => setPreview(null)}
+        width={900}
+        footer={[
+          <Button key="close" onClick={() => setPreview(null)}>关闭</Button>,
+          <Button
+            key="restore"
+            type="primary"
+            disabled={preview?.id === latestId}
+            onClick={() => {
+              if (!preview) return;
+              onRestore(preview);
+              setPreview(null);
+            }}
+          >
+            恢复此版本
+          </Button>,
+        ]}
+      >
+        {preview && (
+          <>
+            <Text type="secondary">
+              {preview.nodes.length} 个节点，{preview.edges.length} 条连线。恢复后将作为新的版本保存，之后的历史版本仍会保留。
+            </Text>
+            <div style={{ height: '480px', marginTop: '8px', border: '1px solid #f0f0f0', borderRadius: '6px' }}>
+              {/* Own provider so the preview doesn't share state with the editor's canvas */}
+              <ReactFlowProvider>
+                <ReactFlow
+                  nodes={previewFlow.nodes}
+                  edges={previewFlow.edges}
+                  nodeTypes={READ_ONLY_NODE_TYPES}
+                  nodesDraggable={false}
+                  nodesConnectable={false}
+                  elementsSelectable={false}
+                  deleteKeyCode={null}
+                  fitView
+                >
+                  <Background gap={12} size={1} />
+                </ReactFlow>
+              </ReactFlowProvider>
+            </div>
+          </>
+        )}
+      </Modal>
+    </>
+  );
+};
+
+export default RevisionHistoryDrawer;
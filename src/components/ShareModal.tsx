@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Modal, Button, Input, Space, Switch, Typography, Alert, App } from 'antd';
+import { Node, Edge } from 'reactflow';
+import {
+  encodeFlowSnapshot,
+  getSnapshotUrl,
+  getShareTokenUrl,
+  getEmbedCode,
+  LONG_SNAPSHOT_LINK_LENGTH,
+} from '@/utils/shareLink';
+
+const { Text } = Typography;
+
+interface ShareModalProps {
+  flow: { nodes: Node[]; edges: Edge[]; tag: string; uuid: string };
+  onClose: () => void;
+  // Issues a share token for the saved flowchart; missing when the backend can't share
+  createShareToken?: () => Promise<string>;
+  // Why a token can't be created right now (e.g. not saved yet)
+  shareTokenHint?: string;
+}
+
+// Link (and iframe code) opening the flowchart in the read-only viewer
+const ShareLinkField: React.FC<{ label: string; value: string }> = ({ label, value }) => {
+  const { message } = App.useApp();
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(value);
+      message.success({ content: `${label}已复制`, duration: 2 });
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+      message.error({ content: '无法访问剪贴板', duration: 2 });
+    }
+  };
+  return (
+    <Space.Compact style={{ width: '100%' }}>
+      <Input.TextArea value={value} readOnly autoSize={{ minRows: 1, maxRows: 4 }} style={{ fontFamily: 'monospace', fontSize: '12px' }} />
+      <Button onClick={copy}>复制</Button>
+    </Space.Compact>
+  );
+};
+
+// Share the open flowchart read-only: a snapshot link carries the current canvas in the URL and
+// works without any account; a token link always shows the latest saved version.
+const ShareModal: React.FC<ShareModalProps> = ({ flow, onClose, createShareToken, shareTokenHint }) => {
+  const [snapshot, setSnapshot] = useState<string | null>(null);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [tokenError, setTokenError] = useState<string | null>(null);
+  const [isCreatingToken, setIsCreatingToken] = useState(false);
+  const [embed, setEmbed] = useState(false);
+
+  // The snapshot is taken once, when the dialog opens
+  useEffect(() => {
+    encodeFlowSnapshot(flow)
+      .then(setSnapshot)
+      .catch(error => {
+        console.error('Failed to encode snapshot:', error);
+        setSnapshotError('当前浏览器无法生成快照链接');
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleCreateToken = async () => {
+    if (!createShareToken) return;
+    setIsCreatingToken(true);
+    setTokenError(null);
+    try {
+      setToken(await createShareToken());
+    } catch (error) {
+      setTokenError(error instanceof Error ? error.message : '未知错误');
+    } finally {
+      setIsCreatingToken(false);
+    }
+  };
+
+  const origin = window.location.origin;
+  const snapshotUrl = snapshot ? getSnapshotUrl(origin, snapshot, embed) : null;
+  const tokenUrl = token ? getShareTokenUrl(origin, token, embed) : null;
+  const title = flow.tag || '未命名';
+
+  return (
+    <Modal title={`分享 "${title}"`} open onCancel={onClose} footer={<Button onClick={onClose}>关闭</Button>} width={640}>
+      <Space direction="vertical" size="large" style={{ width: '100%' }}>
+        <Space>
+          <Switch checked={embed} onChange={setEmbed} />
+          <Text>嵌入模式（生成可放入 Wiki 的 iframe 代码）</Text>
+        </Space>
+
+        <div>
+          <Text strong>快照链接</Text>
+          <div style={{ marginBottom: '8px' }}>
+            <Text type="secondary">流程图当前的内容保存在链接中，无需登录即可查看，之后的修改不会同步。</Text>
+          </div>
+          {snapshotError && <Alert type="error" showIcon message={snapshotError} />}
+          {snapshotUrl && (
+            <Space direction="vertical" style={{ width: '100%' }}>
+              <ShareLinkField label={embed ? '嵌入代码' : '链接'} value={embed ? getEmbedCode(snapshotUrl, title) : snapshotUrl} />
+              {snapshotUrl.length > LONG_SNAPSHOT_LINK_LENGTH && (
+                <Alert type="warning" showIcon message={`链接较长（${snapshotUrl.length} 个字符），部分聊天工具可能会截断，建议使用分享令牌链接`} />
+              )}
+            </Space>
+          )}
+        </div>
+
+        <div>
+          <Text strong>分享令牌链接</Text>
+          <div style={{ marginBottom: '8px' }}>
+            <Text type="secondary">始终显示最近一次保存的版本，无需登录即可查看。</Text>
+          </div>
+          {!createShareToken ? (
+            <Text type="secondary">当前存储后端不支持分享令牌。</Text>
+          ) : shareTokenHint ? (
+            <Text type="secondary">{shareTokenHint}</Text>
+          ) : tokenUrl ? (
+            <ShareLinkField label={embed ? '嵌入代码' : '链接'} value={embed ? getEmbedCode(tokenUrl, title) : tokenUrl} />
+          ) : (
+            <Space direction="vertical" style={{ width: '100%' }}>
+              <Button onClick={handleCreateToken} loading={isCreatingToken}>生成分享链接</Button>
+              {tokenError && <Alert type="error" showIcon message={tokenError} />}
+            </Space>
+          )}
+        </div>
+      </Space>
+    </Modal>
+  );
+};
+
+export default ShareModal;
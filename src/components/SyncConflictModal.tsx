@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Modal, Button, Radio, Space, Tag, Typography, Empty } from 'antd';
+import { Node } from 'reactflow';
+import { FlowchartData } from '@/storage/flowchartRepository';
+import { SyncConflict, SyncConflictChoice } from '@/hooks/useSyncQueue';
+import { mergeFlowVersions, resolveFlowMerge, diffFlowContent, FlowDiff, MergeSide, NodeMergeConflict } from '@/utils/flowMerge';
+import { getDisplayContent } from '@/utils/flowData';
+
+const { Text } = Typography;
+
+interface SyncConflictModalProps {
+  conflict: SyncConflict;
+  open: boolean;
+  onDefer: () => void;
+  // `merged` is set for 'merge': the merge with the user's per-node choices applied
+  onResolve: (choice: SyncConflictChoice, merged?: FlowchartData) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  'data.text': '内容',
+  'data.label': '标题',
+  'data.completed': '完成状态',
+  'data.startDate': '开始日期',
+  'data.dueDate': '截止日期',
+  'data.duration': '工期',
+  'data.imageUrl': '图片',
+  'data.url': '链接',
+  'data.fileUrl': '附件',
+  'data.fileName': '附件名',
+  position: '位置',
+  type: '节点类型',
+  style: '样式',
+};
+
+const getFieldLabel = (field: string) => FIELD_LABELS[field] ?? field.replace(/^data\./, '');
+
+const formatDiff = (diff: FlowDiff) => {
+  const parts = [
+    diff.addedNodes.length > 0 && `新增 ${diff.addedNodes.length} 个节点`,
+    diff.removedNodes.length > 0 && `删除 ${diff.removedNodes.length} 个节点`,
+    diff.changedNodes.length > 0 && `修改 ${diff.changedNodes.length} 个节点`,
+    diff.addedEdges.length > 0 && `新增 ${diff.addedEdges.length} 条连线`,
+    diff.removedEdges.length > 0 && `删除 ${diff.removedEdges.length} 条连线`,
+    diff.tagChanged && '修改了名称',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join('，') : '无修改';
+};
+
+// One side of a conflicting node, with the conflicting fields shown
+const NodeVersion: React.FC<{ node: Node | null; fields: string[] }> = ({ node, fields }) => {
+  if (!node) return <Text type="danger">已删除</Text>;
+  return (
+    <Space direction="vertical" size={2} style={{ width: '100%' }}>
+      <Text delete={!!node.data?.completed} ellipsis style={{ maxWidth: '100%' }}>{getDisplayContent(node)}</Text>
+      {fields.includes('data.completed') && (
+        <Text type="secondary">{node.data?.completed ? '已完成' : '未完成'}</Text>
+      )}
+      {fields.includes('position') && (
+        <Text type="secondary">位置 ({Math.round(node.position.x)}, {Math.round(node.position.y)})</Text>
+      )}
+    </Space>
+  );
+};
+
+const ConflictRow: React.FC<{
+  conflict: NodeMergeConflict;
+  choice: MergeSide;
+  onChange: (choice: MergeSide) => void;
+}> = ({ conflict, choice, onChange }) => {
+  const fieldTags = conflict.fields.length > 0
+    ? conflict.fields.map(field => <Tag key={field}>{getFieldLabel(field)}</Tag>)
+    : <Tag color="red">一方删除了此节点</Tag>;
+  const cardStyle = (side: MergeSide): React.CSSProperties => ({
+    flex: 1,
+    minWidth: 0,
+    padding: '8px',
+    border: `1px solid ${choice === side ? '#1677ff' : '#f0f0f0'}`,
+    borderRadius: '6px',
+    cursor: 'pointer',
+  });
+
+  return (
+    <div style={{ padding: '8px 0', borderBottom: '1px solid #f0f0f0' }}>
+      <div style={{ marginBottom: '6px' }}>
+        <Text strong>{getDisplayContent((conflict.mine ?? conflict.theirs ?? conflict.base)!)}</Text>
+        <span style={{ marginLeft: '8px' }}>{fieldTags}</span>
+      </div>
+      <Radio.Group value={choice} onChange={(e) => onChange(e.target.value)} style={{ display: 'flex', gap: '8px', width: '100%' }}>
+        {(['mine', 'theirs'] as const).map(side => (
+          <div key={side} style={cardStyle(side)} onClick={() => onChange(side)}>
+            <Radio value={side}>{side === 'mine' ? '我的版本' : '服务器版本'}</Radio>
+            <div style={{ marginTop: '4px' }}>
+              <NodeVersion node={conflict[side]} fields={conflict.fields} />
+            </div>
+          </div>
+        ))}
+      </Radio.Group>
+    </div>
+  );
+};
+
+// Shows a sync conflict with what each side changed since the last sync. Changes that don't
+// overlap merge automatically; nodes both sides changed are listed side by side to pick from.
+const SyncConflictModal: React.FC<SyncConflictModalProps> = ({ conflict, open, onDefer, onResolve }) => {
+  const { local, remote, base } = conflict;
+  const result = useMemo(() => mergeFlowVersions(base, local, remote), [base, local, remote]);
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+  const [tagChoice, setTagChoice] = useState<MergeSide>('mine');
+
+  const setAllChoices = (side: MergeSide) => {
+    setChoices(Object.fromEntries(result.conflicts.map(item => [item.id, side])));
+    setTagChoice(side);
+  };
+
+  const handleMerge = () => onResolve('merge', resolveFlowMerge(result, choices, tagChoice));
+
+  const conflictCount = result.conflicts.length + (result.tagConflict ? 1 : 0);
+
+  return (
+    <Modal
+      title={`"${local.tag}" 存在同步冲突`}
+      open={open}
+      onCancel={onDefer}
+      width={conflictCount > 0 ? 720 : 520}
+      footer={[
+        <Button key="later" onClick={onDefer}>稍后处理</Button>,
+        <Button key="theirs" onClick={() => onResolve('theirs')}>保留服务器版本</Button>,
+        <Button key="mine" onClick={() => onResolve('mine')}>保留我的版本</Button>,
+        <Button key="merge" type="primary" onClick={handleMerge}>
+          {conflictCount > 0 ? '按所选合并' : '合并两个版本'}
+        </Button>,
+      ]}
+    >
+      <p>
+        {conflict.source === 'save'
+          ? '保存时发现服务器上的版本在上次同步后也被修改过。'
+          : '本地有尚未同步的修改，而服务器上的版本在上次同步后也被修改过。'}
+      </p>
+      <Space direction="vertical" size={2} style={{ marginBottom: '12px' }}>
+        {base ? (
+          <>
+            <Text>我的修改：{formatDiff(diffFlowContent(base, local))}</Text>
+            <Text>服务器的修改：{formatDiff(diffFlowContent(base, remote))}</Text>
+          </>
+        ) : (
+          <Text type="secondary">没有找到上次同步的版本，两边不一致的地方都需要选择。</Text>
+        )}
+        {remote.savedAt && <Text type="secondary">服务器版本保存于 {new Date(remote.savedAt).toLocaleString()}</Text>}
+      </Space>
+
+      {conflictCount === 0 ? (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="两边的修改没有冲突，可以直接合并" />
+      ) : (
+        <>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Text strong>{conflictCount} 处冲突，请逐个选择要保留的版本</Text>
+            <Space size={4}>
+              <Button size="small" onClick={() => setAllChoices('mine')}>全部选我的</Button>
+              <Button size="small" onClick={() => setAllChoices('theirs')}>全部选服务器的</Button>
+            </Space>
+          </div>
+          <div style={{ maxHeight: '360px', overflowY: 'auto' }}>
+            {result.tagConflict && (
+              <div style={{ padding: '8px 0', borderBottom: '1px solid #f0f0f0' }}>
+                <div style={{ marginBottom: '6px' }}><Text strong>流程图名称</Text></div>
+                <Radio.Group value={tagChoice} onChange={(e) => setTagChoice(e.target.value)}>
+                  <Radio value="mine">我的版本：{result.tagConflict.mine}</Radio>
+                  <Radio value="theirs">服务器版本：{result.tagConflict.theirs}</Radio>
+                </Radio.Group>
+              </div>
+            )}
+            {result.conflicts.map(item => (
+              <ConflictRow
+                key={item.id}
+                conflict={item}
+                choice={choices[item.id] ?? 'mine'}
+                onChange={(side) => setChoices(prev => ({ ...prev, [item.id]: side }))}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default SyncConflictModal;
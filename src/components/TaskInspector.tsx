@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Node, useReactFlow } from 'reactflow';
+import { Input, Select, Segmented, AutoComplete, Button, Typography } from 'antd';
+import { CloseOutlined } from '@ant-design/icons';
+import { useHistorySnapshot } from '@/hooks/useUndoRedo';
+import { getDisplayContent } from '@/utils/flowData';
+import { TaskMetaData, TaskPriority, TASK_PRIORITIES, TASK_PRIORITY_META, getTaskPriority, getTaskAssignee, getTaskTags } from '@/utils/taskMeta';
+import type { TaskScheduleData } from '@/utils/schedule';
+
+const { Text } = Typography;
+const { TextArea } = Input;
+
+const fieldLabelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '12px',
+  color: '#555',
+  margin: '10px 0 2px',
+};
+
+interface TaskInspectorProps {
+  // Mount with key={node.id} so the text drafts start over for another node
+  node: Node;
+  nodeTypeLabel: string;
+  assigneeOptions: string[];
+  tagOptions: string[];
+  onClose: () => void;
+}
+
+// Side panel with typed editors for the planning fields of the selected node, whatever its type
+const TaskInspector: React.FC<TaskInspectorProps> = ({ node, nodeTypeLabel, assigneeOptions, tagOptions, onClose }) => {
+  const { setNodes } = useReactFlow();
+  const takeSnapshot = useHistorySnapshot();
+  // Text fields are saved when they lose focus, so typing doesn't flood the undo history
+  const [assignee, setAssignee] = useState(getTaskAssignee(node));
+  const [notes, setNotes] = useState<string>(node.data?.notes ?? '');
+
+  const updateData = (patch: TaskMetaData & Pick<TaskScheduleData, 'dueDate'>) => {
+    takeSnapshot();
+    setNodes(nds => nds.map(n => (n.id === node.id ? { ...n, data: { ...n.data, ...patch } } : n)));
+  };
+
+  const saveAssignee = (value: string) => {
+    const trimmed = value.trim();
+    setAssignee(trimmed);
+    if (trimmed !== getTaskAssignee(node)) updateData({ assignee: trimmed || undefined });
+  };
+
+  const saveNotes = () => {
+    if (notes !== (node.data?.notes ?? '')) updateData({ notes: notes || undefined });
+  };
+
+  return (
+    <div
+      className="nodrag nopan nowheel"
+      style={{ background: '#fff', border: '1px solid #d9d9d9', borderRadius: '6px', padding: '12px', boxShadow: '0 2px 8px rgba(0, 0, 0, 0.15)', width: '260px' }}
+    >
+      <div style={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: '8px' }}>
+        <div style={{ minWidth: 0 }}>
+          <Text type="secondary" style={{ fontSize: '12px' }}>{nodeTypeLabel}</Text>
+          <Text strong ellipsis style={{ display: 'block' }}>{getDisplayContent(node)}</Text>
+        </div>
+        <Button type="text" size="small" icon={<CloseOutlined />} onClick={onClose} />
+      </div>
+
+      <span style={fieldLabelStyle}>优先级</span>
+      <Segmented<TaskPriority | 'none'>
+        block
+        size="small"
+        value={getTaskPriority(node) ?? 'none'}
+        onChange={(value) => updateData({ priority: value === 'none' ? undefined : value })}
+        options={[
+          { value: 'none', label: '无' },
+          ...TASK_PRIORITIES.map(priority => ({ value: priority, label: TASK_PRIORITY_META[priority].label })),
+        ]}
+      />
+
+      <span style={fieldLabelStyle}>负责人</span>
+      <AutoComplete
+        size="small"
+        style={{ width: '100%' }}
+        placeholder="未分配"
+        value={assignee}
+        options={assigneeOptions.map(name => ({ value: name }))}
+        filterOption={(input, option) => (option?.value ?? '').toLowerCase().includes(input.toLowerCase())}
+        onChange={setAssignee}
+        onSelect={saveAssignee}
+        onBlur={() => saveAssignee(assignee)}
+      />
+
+      <span style={fieldLabelStyle}>标签</span>
+      <Select
+        mode="tags"
+        size="small"
+        style={{ width: '100%' }}
+        placeholder="输入后回车添加"
+        value={getTaskTags(node)}
+        options={tagOptions.map(tag => ({ value: tag, label: tag }))}
+        onChange={(tags: string[]) => {
+          const cleaned = Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean)));
+          updateData({ tags: cleaned.length > 0 ? cleaned : undefined });
+        }}
+      />
+
+      <span style={fieldLabelStyle}>截止日期</span>
+      <Input
+        type="date"
+        size="small"
+        value={node.data?.dueDate || ''}
+        onChange={(e) => updateData({ dueDate: e.target.value || undefined })}
+      />
+
+      <span style={fieldLabelStyle}>备注</span>
+      <TextArea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        onBlur={saveNotes}
+        autoSize={{ minRows: 2, maxRows: 8 }}
+        placeholder="添加备注..."
+      />
+    </div>
+  );
+};
+
+export default TaskInspector;
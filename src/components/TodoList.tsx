@@ -1,75 +1,116 @@
 'use client';
 
 import React, { useMemo, useState, useEffect, useCallback } from 'react';
-import { Typography, Modal, Button, Checkbox } from 'antd';
+import { Typography, Modal, Button, Checkbox, Tag, Switch, Space, App, Tooltip, Select } from 'antd';
 import { Node, Edge, useReactFlow } from 'reactflow';
+import { DownOutlined, RightOutlined } from '@ant-design/icons';
+import { useHistorySnapshot } from '@/hooks/useUndoRedo';
+import { getTaskStatuses, getOpenPredecessors, TASK_STATUS_META, TaskStatus } from '@/utils/taskStatus';
+import { getOrderedTasks, findCycles } from '@/utils/taskGraph';
+import { computeSchedule, formatDate, TaskSchedule } from '@/utils/schedule';
+import { getDisplayContent } from '@/utils/flowData';
+import { LINKED_TASK_NODE_TYPE } from '@/utils/linkedTasks';
+import { moveTaskInOrder, detachTask, TaskMoveResult } from '@/utils/taskReorder';
+import {
+  TaskSortKey, TaskMetaFilter, TASK_SORT_LABELS, TASK_PRIORITIES, TASK_PRIORITY_META, EMPTY_TASK_META_FILTER,
+  getTaskPriority, getTaskComparator, collectTaskAssignees, collectTaskTags, isTaskMetaFilterActive, matchesTaskMetaFilter,
+} from '@/utils/taskMeta';
+import { isGroupNode, withDescendants } from '@/utils/taskGroups';
 
 const { Text } = Typography;
 
+// Drag data type of list items, so the canvas ignores them when they're dropped there
+const TASK_DRAG_TYPE = 'application/todoflow-task';
+
+// Where a dragged task would land: before or after a row, or at the end of a list (nodeId null)
+interface TaskDropTarget {
+  list: 'sorted' | 'unsorted';
+  nodeId: string | null;
+  after: boolean;
+}
+
 interface TodoListProps {
   nodes: Node[];
   edges: Edge[];
   onEdgeContextMenu?: (event: React.MouseEvent, edge: Edge) => void;
+  // Strict mode refuses checking off tasks whose predecessors are still open
+  strictMode?: boolean;
+  onStrictModeChange?: (strictMode: boolean) => void;
+  // Show the list without controls that change the flowchart (shared viewer)
+  readOnly?: boolean;
+  // Tasks left by the canvas find bar's filters; null or absent shows every task
+  visibleNodeIds?: Set<string> | null;
 }
 
-// Helper function for topological sort
-const getOrderedTasks = (nodes: Node[], edges: Edge[]): Node[] => {
-    const sortedList: Node[] = [];
-    const nodeMap = new Map(nodes.map(node => [node.id, node]));
-    const inDegree = new Map<string, number>();
-    const adj = new Map<string, string[]>();
-
-    nodes.forEach(node => {
-        inDegree.set(node.id, 0);
-        adj.set(node.id, []);
-    });
-
-    edges.forEach(edge => {
-        if (nodeMap.has(edge.source) && nodeMap.has(edge.target)) {
-            adj.get(edge.source)?.push(edge.target);
-            inDegree.set(edge.target, (inDegree.get(edge.target) || 0) + 1);
-        }
-    });
-
-    const queue: string[] = [];
-    nodes.forEach(node => {
-        if (inDegree.get(node.id) === 0) {
-            queue.push(node.id);
-        }
-    });
-
-    while (queue.length > 0) {
-        const u = queue.shift()!;
-        const node = nodeMap.get(u);
-        if (node) {
-            sortedList.push(node);
-        }
-
-        adj.get(u)?.forEach(v => {
-            const currentInDegree = (inDegree.get(v) || 0) - 1;
-            inDegree.set(v, currentInDegree);
-            if (currentInDegree === 0) {
-                queue.push(v);
-            }
-        });
-    }
-
-    if (sortedList.length !== nodes.length) {
-        const remainingNodes = nodes.filter(n => !sortedList.find(sn => sn.id === n.id));
-        return [...sortedList, ...remainingNodes];
-    }
+// Small colored tag showing whether a task is blocked, ready or done
+const StatusTag: React.FC<{ status?: TaskStatus }> = ({ status }) => {
+  if (!status) return null;
+  const meta = TASK_STATUS_META[status];
+  return <Tag color={meta.color} style={{ marginLeft: '8px', marginRight: 0 }}>{meta.label}</Tag>;
+};
 
-    return sortedList;
+// Critical path and overdue markers from the schedule
+const ScheduleTags: React.FC<{ schedule?: TaskSchedule }> = ({ schedule }) => {
+  if (!schedule) return null;
+  return (
+    <>
+      {schedule.critical && (
+        <Tooltip title={`最早开始: 第 ${schedule.earliestStart} 天，浮动时间: ${schedule.slack} 天`}>
+          <Tag color="purple" style={{ marginLeft: '4px', marginRight: 0 }}>关键</Tag>
+        </Tooltip>
+      )}
+      {schedule.overdue && <Tag color="red" style={{ marginLeft: '4px', marginRight: 0 }}>逾期</Tag>}
+    </>
+  );
 };
 
+// Priority and due date badges
+const TaskMetaTags: React.FC<{ node: Node; overdue?: boolean }> = ({ node, overdue }) => {
+  const priority = getTaskPriority(node);
+  const dueDate: string | undefined = node.data?.dueDate;
+  return (
+    <>
+      {priority && (
+        <Tag color={TASK_PRIORITY_META[priority].color} style={{ marginLeft: '4px', marginRight: 0 }}>
+          {TASK_PRIORITY_META[priority].label}
+        </Tag>
+      )}
+      {dueDate && (
+        <Tooltip title={`截止日期: ${dueDate}`}>
+          <Tag color={overdue ? 'red' : undefined} style={{ marginLeft: '4px', marginRight: 0 }}>{dueDate.slice(5)}</Tag>
+        </Tooltip>
+      )}
+    </>
+  );
+};
 
-const TodoList: React.FC<TodoListProps> = ({ nodes, edges }) => {
+const TodoList: React.FC<TodoListProps> = ({ nodes, edges, strictMode = false, onStrictModeChange, readOnly = false, visibleNodeIds = null }) => {
   const { setEdges, setNodes } = useReactFlow();
+  const takeSnapshot = useHistorySnapshot();
   const [taskOrder, setTaskOrder] = useState<string[]>([]);
   const [completedTasks, setCompletedTasks] = useState<Set<string>>(new Set()); // Added state for completed tasks
   const [deleteConfirm, setDeleteConfirm] = useState<Node | null>(null);
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<TaskDropTarget | null>(null);
+  const [sortKey, setSortKey] = useState<TaskSortKey>('order');
+  const [metaFilter, setMetaFilter] = useState<TaskMetaFilter>(EMPTY_TASK_META_FILTER);
+  // Groups folded in the list; independent of collapsing them on the canvas
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
+  const { message, modal } = App.useApp();
 
   const nodeMap = useMemo(() => new Map(nodes.map(node => [node.id, node])), [nodes]);
+  const taskStatuses = useMemo(() => getTaskStatuses(nodes, edges), [nodes, edges]);
+  const statusCounts = useMemo(() => {
+    const counts: Record<TaskStatus, number> = { blocked: 0, ready: 0, done: 0 };
+    taskStatuses.forEach(status => { counts[status]++; });
+    return counts;
+  }, [taskStatuses]);
+  const cycles = useMemo(() => findCycles(nodes, edges), [nodes, edges]);
+  const cyclicNodeIds = useMemo(() => new Set(cycles.flatMap(cycle => cycle.nodeIds)), [cycles]);
+  const edgeMap = useMemo(() => new Map(edges.map(edge => [edge.id, edge])), [edges]);
+  const schedule = useMemo(() => computeSchedule(nodes, edges), [nodes, edges]);
+  const assigneeOptions = useMemo(() => collectTaskAssignees(nodes), [nodes]);
+  const tagOptions = useMemo(() => collectTaskTags(nodes), [nodes]);
 
   // Update taskOrder when edges change
   useEffect(() => {
@@ -125,6 +166,19 @@ const TodoList: React.FC<TodoListProps> = ({ nodes, edges }) => {
 
   // Handler for toggling task completion
   const handleToggleComplete = useCallback((id: string, completed: boolean) => {
+    if (completed) {
+      const openPredecessors = getOpenPredecessors(id, nodes, edges);
+      if (openPredecessors.length > 0) {
+        const names = openPredecessors.map(getDisplayContent).join('、');
+        if (strictMode) {
+          message.error(`请先完成前置任务: ${names}`);
+          return;
+        }
+        message.warning(`前置任务尚未完成: ${names}`);
+      }
+    }
+
+    takeSnapshot();
     setCompletedTasks(prev => {
       const newSet = new Set(prev);
       if (completed) {
@@ -159,16 +213,278 @@ const TodoList: React.FC<TodoListProps> = ({ nodes, edges }) => {
       }
       return node;
     }));
-  }, [setNodes]);
+  }, [setNodes, takeSnapshot, nodes, edges, strictMode, message]);
 
 
 
+  // Remove one edge of a dependency loop
+  const handleBreakEdge = useCallback((edgeId: string) => {
+    takeSnapshot();
+    setEdges(eds => eds.filter(edge => edge.id !== edgeId));
+  }, [setEdges, takeSnapshot]);
+
   // Use taskOrder to determine sorted and unsorted tasks
   const unsortedTasks = useMemo(() => {
     const taskOrderSet = new Set(taskOrder);
     return nodes.filter(node => !taskOrderSet.has(node.id));
   }, [nodes, taskOrder]);
 
+  // Sorting by a field only reorders tasks the dependencies leave free, so the list stays a valid order
+  const compareTasks = useMemo(() => getTaskComparator(sortKey), [sortKey]);
+  const displayOrder = useMemo(() => {
+    if (!compareTasks) return taskOrder;
+    const orderedNodes = taskOrder.map(id => nodeMap.get(id)).filter((node): node is Node => !!node);
+    return getOrderedTasks(orderedNodes, edges, compareTasks).map(node => node.id);
+  }, [taskOrder, nodeMap, edges, compareTasks]);
+  const displayUnsortedTasks = useMemo(
+    () => (compareTasks ? [...unsortedTasks].sort(compareTasks) : unsortedTasks),
+    [unsortedTasks, compareTasks]
+  );
+
+  // Hidden by the canvas find bar or the list's own filters
+  const isTaskHidden = (node: Node) =>
+    (!!visibleNodeIds && !visibleNodeIds.has(node.id))
+    || !matchesTaskMetaFilter(node, metaFilter, !!schedule.tasks.get(node.id)?.overdue);
+
+  // Groups are listed as sections holding their subtasks. A section sits where its first sorted
+  // task is, and within a section the tasks keep the list order.
+  const taskNumbers = useMemo(() => new Map(displayOrder.map((id, index) => [id, index + 1])), [displayOrder]);
+  const { topLevelEntries, childrenByGroup } = useMemo(() => {
+    const rank = new Map<string, number>();
+    displayOrder.forEach((id, index) => rank.set(id, index));
+    const unsortedRank = new Map(displayUnsortedTasks.map((node, index) => [node.id, index]));
+    const getRank = (id: string) => rank.get(id) ?? Infinity;
+    // A group ranks as high as its best placed task
+    nodes.forEach(node => {
+      let parentId = node.parentNode;
+      const seen = new Set<string>();
+      while (parentId && nodeMap.has(parentId) && !seen.has(parentId)) {
+        seen.add(parentId);
+        rank.set(parentId, Math.min(getRank(parentId), getRank(node.id)));
+        parentId = nodeMap.get(parentId)?.parentNode;
+      }
+    });
+    const byListOrder = (a: Node, b: Node) =>
+      getRank(a.id) - getRank(b.id) || (unsortedRank.get(a.id) ?? 0) - (unsortedRank.get(b.id) ?? 0);
+
+    const children = new Map<string, Node[]>();
+    const topLevel: Node[] = [];
+    nodes.forEach(node => {
+      if (node.parentNode && nodeMap.has(node.parentNode)) {
+        children.set(node.parentNode, [...(children.get(node.parentNode) ?? []), node]);
+      } else {
+        topLevel.push(node);
+      }
+    });
+    children.forEach(list => list.sort(byListOrder));
+    topLevel.sort(byListOrder);
+    return {
+      topLevelEntries: {
+        sorted: topLevel.filter(node => getRank(node.id) !== Infinity),
+        unsorted: topLevel.filter(node => getRank(node.id) === Infinity),
+      },
+      childrenByGroup: children,
+    };
+  }, [nodes, nodeMap, displayOrder, displayUnsortedTasks]);
+
+  // A group stays visible while it or any of its tasks passes the filters
+  const isEntryShown = (node: Node): boolean =>
+    !isTaskHidden(node) || (childrenByGroup.get(node.id) ?? []).some(isEntryShown);
+
+  const toggleSection = (groupId: string) => {
+    setCollapsedSections(prev => {
+      const next = new Set(prev);
+      if (next.has(groupId)) next.delete(groupId);
+      else next.add(groupId);
+      return next;
+    });
+  };
+
+  // Apply rewritten edges, removing the dependencies the new order contradicts only once confirmed
+  const applyTaskMove = ({ edges: nextEdges, violated, unsorted }: TaskMoveResult) => {
+    const commit = () => {
+      takeSnapshot();
+      setEdges(nextEdges);
+    };
+    if (violated.length === 0 && unsorted.length === 0) {
+      commit();
+      return;
+    }
+    const getName = (id: string) => {
+      const node = nodeMap.get(id);
+      return node ? getDisplayContent(node) : id;
+    };
+    const names = violated.map(edge => `${getName(edge.source)} → ${getName(edge.target)}`).join('、');
+    const unsortedNames = unsorted.map(getName).join('、');
+    if (strictMode && violated.length > 0) {
+      message.error(`新位置与依赖冲突: ${names}`);
+      return;
+    }
+    modal.confirm({
+      title: violated.length > 0 ? '调整顺序会移除依赖' : '调整顺序会移出任务',
+      content: [
+        violated.length > 0 ? `以下依赖与新顺序冲突，将被移除: ${names}` : '',
+        unsorted.length > 0 ? `以下任务将移到未排序: ${unsortedNames}` : '',
+      ].filter(Boolean).join('；'),
+      okText: '移除并调整',
+      cancelText: '取消',
+      onOk: commit,
+    });
+  };
+
+  const handleTaskDrop = () => {
+    const nodeId = draggedTaskId;
+    const target = dropTarget;
+    setDraggedTaskId(null);
+    setDropTarget(null);
+    if (!nodeId || !target || target.nodeId === nodeId) return;
+
+    const from = displayOrder.indexOf(nodeId);
+    if (target.list === 'sorted') {
+      // A task can only be ordered relative to at least one other
+      if (displayOrder.every(id => id === nodeId)) return;
+      const targetIndex = target.nodeId ? displayOrder.indexOf(target.nodeId) + (target.after ? 1 : 0) : displayOrder.length;
+      // Index among the other tasks, as the dragged one leaves its old place
+      const index = from !== -1 && from < targetIndex ? targetIndex - 1 : targetIndex;
+      if (index === from) return;
+      applyTaskMove(moveTaskInOrder(displayOrder, nodeId, index, nodes, edges, compareTasks));
+      return;
+    }
+
+    // Unsorted tasks are listed in node order, so moving the node moves the item
+    takeSnapshot();
+    if (from !== -1) setEdges(detachTask(nodeId, nodes, edges));
+    setNodes(nds => {
+      const dragged = nds.find(node => node.id === nodeId);
+      if (!dragged) return nds;
+      const rest = nds.filter(node => node.id !== nodeId);
+      const targetIndex = target.nodeId ? rest.findIndex(node => node.id === target.nodeId) : -1;
+      if (targetIndex === -1) return [...rest, dragged];
+      rest.splice(targetIndex + (target.after ? 1 : 0), 0, dragged);
+      return rest;
+    });
+  };
+
+  // Drag handlers of a task row; the upper or lower half decides whether it lands before or after
+  const getRowDragProps = (list: TaskDropTarget['list'], nodeId: string): React.HTMLAttributes<HTMLDivElement> => (readOnly ? {} : {
+    draggable: true,
+    onDragStart: (event) => {
+      event.dataTransfer.setData(TASK_DRAG_TYPE, nodeId);
+      event.dataTransfer.effectAllowed = 'move';
+      setDraggedTaskId(nodeId);
+    },
+    onDragEnd: () => {
+      setDraggedTaskId(null);
+      setDropTarget(null);
+    },
+    onDragOver: (event) => {
+      if (!draggedTaskId) return;
+      event.preventDefault();
+      event.stopPropagation();
+      const rect = event.currentTarget.getBoundingClientRect();
+      const after = event.clientY > rect.top + rect.height / 2;
+      setDropTarget(current => (current?.list === list && current.nodeId === nodeId && current.after === after ? current : { list, nodeId, after }));
+    },
+  });
+
+  // Drag handlers of a whole list; dropping below its rows puts the task at the end
+  const getListDropProps = (list: TaskDropTarget['list']): React.HTMLAttributes<HTMLDivElement> => (readOnly ? {} : {
+    onDragOver: (event) => {
+      if (!draggedTaskId) return;
+      event.preventDefault();
+      setDropTarget(current => (current?.list === list && current.nodeId === null ? current : { list, nodeId: null, after: true }));
+    },
+    onDragLeave: (event) => {
+      if (!event.currentTarget.contains(event.relatedTarget as globalThis.Node | null)) setDropTarget(null);
+    },
+    onDrop: (event) => {
+      event.preventDefault();
+      handleTaskDrop();
+    },
+  });
+
+  const getRowDragStyle = (list: TaskDropTarget['list'], nodeId: string): React.CSSProperties => ({
+    cursor: readOnly ? undefined : 'grab',
+    opacity: draggedTaskId === nodeId ? 0.5 : undefined,
+    boxShadow: dropTarget?.list === list && dropTarget.nodeId === nodeId
+      ? `inset 0 ${dropTarget.after ? -2 : 2}px 0 #1677ff`
+      : undefined,
+  });
+
+  const getListDropStyle = (list: TaskDropTarget['list']): React.CSSProperties => ({
+    border: `1px solid ${dropTarget?.list === list && dropTarget.nodeId === null ? '#1677ff' : '#d9d9d9'}`,
+    borderRadius: '2px',
+  });
+
+  // One task row, or a group section with its subtasks indented below it
+  const renderEntry = (node: Node, depth: number): React.ReactNode => {
+    if (!isEntryShown(node)) return null;
+    const number = taskNumbers.get(node.id);
+    const list: TaskDropTarget['list'] = number !== undefined ? 'sorted' : 'unsorted';
+    const isCompleted = completedTasks.has(node.id);
+    const isGroup = isGroupNode(node);
+    const isSectionCollapsed = collapsedSections.has(node.id);
+    const progress = node.data?.progress as { done: number; total: number } | undefined;
+
+    return (
+      <React.Fragment key={node.id}>
+        <div
+          {...getRowDragProps(list, node.id)}
+          style={{
+            padding: '8px 12px',
+            paddingLeft: `${12 + depth * 16}px`,
+            borderBottom: '1px solid #f0f0f0',
+            background: isGroup ? '#fafafa' : '#fff',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            ...getRowDragStyle(list, node.id)
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', flexGrow: 1 }}>
+            {isGroup && (
+              <Button
+                type="text"
+                size="small"
+                icon={isSectionCollapsed ? <RightOutlined /> : <DownOutlined />}
+                onClick={() => toggleSection(node.id)}
+                style={{ marginRight: '4px' }}
+              />
+            )}
+            <Checkbox
+              checked={isCompleted}
+              onChange={(e) => handleToggleComplete(node.id, e.target.checked)}
+              // Linked tasks are checked off in their own flowchart, groups through their subtasks
+              disabled={readOnly || node.type === LINKED_TASK_NODE_TYPE || isGroup}
+              style={{ marginRight: '8px' }}
+            />
+            <Text strong={isGroup} delete={isCompleted} style={{ flexGrow: 1, textDecoration: isCompleted ? 'line-through' : 'none' }}>
+              {number !== undefined && `${number}. `}{getDisplayContent(node)}
+            </Text>
+            {isGroup && progress && <Text type="secondary" style={{ fontSize: '12px', marginLeft: '8px' }}>{progress.done}/{progress.total}</Text>}
+            <StatusTag status={taskStatuses.get(node.id)} />
+            <TaskMetaTags node={node} overdue={schedule.tasks.get(node.id)?.overdue} />
+            {cyclicNodeIds.has(node.id) && <Tag color="red" style={{ marginLeft: '4px', marginRight: 0 }}>循环</Tag>}
+            <ScheduleTags schedule={schedule.tasks.get(node.id)} />
+          </div>
+          {!readOnly && (
+            <div>
+              <Button
+                type="text"
+                size="small"
+                danger
+                onClick={() => setDeleteConfirm(node)}
+              >
+                删除
+              </Button>
+            </div>
+          )}
+        </div>
+        {isGroup && !isSectionCollapsed && (childrenByGroup.get(node.id) ?? []).map(child => renderEntry(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
   if (taskOrder.length === 0 && unsortedTasks.length === 0) {
     return <div style={{ padding: '16px', color: '#888' }}>Add nodes to the canvas to create tasks.</div>;
   }
@@ -176,55 +492,125 @@ const TodoList: React.FC<TodoListProps> = ({ nodes, edges }) => {
   return (
     <>
       <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        {/* Status Summary */}
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Space size={4}>
+            {(Object.keys(TASK_STATUS_META) as TaskStatus[]).map(status => (
+              <Tag key={status} color={TASK_STATUS_META[status].color}>
+                {TASK_STATUS_META[status].label} {statusCounts[status]}
+              </Tag>
+            ))}
+          </Space>
+          {!readOnly && (
+            <Space size={4}>
+              <Text type="secondary" style={{ fontSize: '12px' }}>严格模式</Text>
+              <Switch size="small" checked={strictMode} onChange={onStrictModeChange} disabled={!onStrictModeChange} />
+            </Space>
+          )}
+        </div>
+
+        {/* Sort and Filters */}
+        <Space wrap size={4}>
+          <Select
+            size="small"
+            value={sortKey}
+            onChange={setSortKey}
+            options={(Object.keys(TASK_SORT_LABELS) as TaskSortKey[]).map(key => ({ value: key, label: `排序: ${TASK_SORT_LABELS[key]}` }))}
+            style={{ width: '132px' }}
+          />
+          <Select
+            mode="multiple"
+            size="small"
+            allowClear
+            placeholder="优先级"
+            value={metaFilter.priorities}
+            onChange={(priorities) => setMetaFilter(prev => ({ ...prev, priorities }))}
+            options={TASK_PRIORITIES.map(priority => ({ value: priority, label: TASK_PRIORITY_META[priority].label }))}
+            style={{ minWidth: '90px' }}
+          />
+          <Select
+            mode="multiple"
+            size="small"
+            allowClear
+            placeholder="负责人"
+            value={metaFilter.assignees}
+            onChange={(assignees) => setMetaFilter(prev => ({ ...prev, assignees }))}
+            options={assigneeOptions.map(name => ({ value: name, label: name }))}
+            maxTagCount="responsive"
+            style={{ minWidth: '90px' }}
+          />
+          <Select
+            mode="multiple"
+            size="small"
+            allowClear
+            placeholder="标签"
+            value={metaFilter.tags}
+            onChange={(tags) => setMetaFilter(prev => ({ ...prev, tags }))}
+            options={tagOptions.map(tag => ({ value: tag, label: tag }))}
+            maxTagCount="responsive"
+            style={{ minWidth: '90px' }}
+          />
+          <Checkbox checked={metaFilter.overdueOnly} onChange={(e) => setMetaFilter(prev => ({ ...prev, overdueOnly: e.target.checked }))}>
+            <Text style={{ fontSize: '12px' }}>仅逾期</Text>
+          </Checkbox>
+          {isTaskMetaFilterActive(metaFilter) && (
+            <Button type="link" size="small" onClick={() => setMetaFilter(EMPTY_TASK_META_FILTER)}>清除筛选</Button>
+          )}
+        </Space>
+
+        {visibleNodeIds && (
+          <Text type="secondary" style={{ fontSize: '12px' }}>
+            已按画布筛选，显示 {visibleNodeIds.size}/{nodes.length} 个任务
+          </Text>
+        )}
+
+        {/* Projected Finish */}
+        <div style={{ padding: '8px 12px', background: '#f9f0ff', border: '1px solid #d3adf7', borderRadius: '2px' }}>
+          <Text style={{ fontSize: '12px' }}>
+            预计完成: <Text strong>{formatDate(schedule.projectFinish)}</Text>
+            {' · '}关键任务 {schedule.criticalNodeIds.size} 个
+          </Text>
+        </div>
+
+        {/* Dependency Loops Section */}
+        {cycles.length > 0 && (
+          <div>
+            <h3 style={{ marginBottom: '8px', color: '#cf1322' }}>循环依赖</h3>
+            <div style={{ border: '1px solid #ffa39e', borderRadius: '2px', background: '#fff1f0' }}>
+              {cycles.map((cycle, cycleIndex) => (
+                <div key={cycle.nodeIds.join('-')} style={{ padding: '8px 12px', borderBottom: '1px solid #ffccc7' }}>
+                  <Text strong style={{ fontSize: '12px' }}>
+                    循环 {cycleIndex + 1}: {cycle.nodeIds.map(id => nodeMap.get(id)).filter((n): n is Node => !!n).map(getDisplayContent).join('、')}
+                  </Text>
+                  {cycle.edgeIds.map(edgeId => {
+                    const edge = edgeMap.get(edgeId);
+                    if (!edge) return null;
+                    const sourceNode = nodeMap.get(edge.source);
+                    const targetNode = nodeMap.get(edge.target);
+                    return (
+                      <div key={edgeId} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontSize: '12px' }}>
+                        <Text style={{ fontSize: '12px' }}>
+                          {sourceNode ? getDisplayContent(sourceNode) : edge.source} → {targetNode ? getDisplayContent(targetNode) : edge.target}
+                        </Text>
+                        {!readOnly && (
+                          <Button type="link" size="small" danger onClick={() => handleBreakEdge(edgeId)}>
+                            断开
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Sorted Tasks Section */}
         <div>
           <h3 style={{ marginBottom: '8px' }}>已排序任务</h3>
-          <div style={{ border: '1px solid #d9d9d9', borderRadius: '2px' }}>
-                {taskOrder.map((nodeId, index) => {
-                  const node = nodeMap.get(nodeId);
-                  if (!node) return null;
-                  const isCompleted = completedTasks.has(node.id);
-                  const displayContent = node.type === 'text' && node.data?.text
-                    ? node.data.text
-                    : node.data?.label || `Node ${node.id}`;
-
-                  return (
-                    <div
-                      key={node.id}
-                      style={{
-                        padding: '8px 12px',
-                        borderBottom: '1px solid #f0f0f0',
-                        backgroundColor: '#fff',
-                        display: 'flex',
-                        alignItems: 'center',
-                        justifyContent: 'space-between'
-                      }}
-                    >
-                      <div style={{ display: 'flex', alignItems: 'center', flexGrow: 1 }}>
-                        {/* Checkbox */}
-                        <Checkbox
-                          checked={isCompleted}
-                          onChange={(e) => handleToggleComplete(node.id, e.target.checked)}
-                          style={{ marginRight: '8px' }}
-                        />
-                        {/* Task Text */}
-                        <Text delete={isCompleted} style={{ flexGrow: 1, textDecoration: isCompleted ? 'line-through' : 'none' }}>
-                          {index + 1}. {displayContent}
-                        </Text>
-                      </div>
-                      <div>
-                        <Button
-                          type="text"
-                          size="small"
-                          danger
-                          onClick={() => setDeleteConfirm(node)}
-                        >
-                          删除
-                        </Button>
-                      </div>
-                    </div>
-                  );
-                })}
+          <div style={getListDropStyle('sorted')} {...getListDropProps('sorted')}>
+                {topLevelEntries.sorted.map(node => renderEntry(node, 0))}
                 {taskOrder.length === 0 && (
                   <div style={{ padding: '16px', color: '#888', textAlign: 'center' }}>
                     通过连线来对任务进行排序
@@ -236,51 +622,9 @@ const TodoList: React.FC<TodoListProps> = ({ nodes, edges }) => {
         {/* Unsorted Tasks Section */}
         <div>
           <h3 style={{ marginBottom: '8px' }}>待排序任务</h3>
-          <div style={{ border: '1px solid #d9d9d9', borderRadius: '2px' }}>
-            {unsortedTasks.map((node) => {
-              const isCompleted = completedTasks.has(node.id);
-              const displayContent = node.type === 'text' && node.data?.text
-                ? node.data.text
-                : node.data?.label || `Node ${node.id}`;
-
-              return (
-                <div
-                  key={node.id}
-                  style={{
-                    padding: '8px 12px',
-                    borderBottom: '1px solid #f0f0f0',
-                    background: '#fff',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'space-between'
-                  }}
-                >
-                  <div style={{ display: 'flex', alignItems: 'center', flexGrow: 1 }}>
-                    {/* Checkbox for unsorted tasks */}
-                    <Checkbox
-                      checked={isCompleted}
-                      onChange={(e) => handleToggleComplete(node.id, e.target.checked)}
-                      style={{ marginRight: '8px' }}
-                    />
-                    {/* Task Text for unsorted tasks */}
-                    <Text delete={isCompleted} style={{ flexGrow: 1, textDecoration: isCompleted ? 'line-through' : 'none' }}>
-                      {displayContent}
-                    </Text>
-                  </div>
-                <div>
-                  <Button
-                    type="text"
-                    size="small"
-                    danger
-                    onClick={() => setDeleteConfirm(node)}
-                  >
-                    删除
-                  </Button>
-                </div>
-              </div>
-             );
-            })}
-            {unsortedTasks.length === 0 && (
+          <div style={getListDropStyle('unsorted')} {...getListDropProps('unsorted')}>
+            {topLevelEntries.unsorted.map(node => renderEntry(node, 0))}
+            {topLevelEntries.unsorted.length === 0 && (
               <div style={{ padding: '16px', color: '#888', textAlign: 'center' }}>
                 暂无待排序任务
               </div>
@@ -296,12 +640,15 @@ const TodoList: React.FC<TodoListProps> = ({ nodes, edges }) => {
         open={!!deleteConfirm}
         onOk={() => {
           if (deleteConfirm) {
-            setNodes((nds) => nds.filter((node) => node.id !== deleteConfirm.id));
+            takeSnapshot();
+            // A group goes with its subtasks
+            const removedIds = withDescendants(new Set([deleteConfirm.id]), nodes);
+            setNodes((nds) => nds.filter((node) => !removedIds.has(node.id)));
             setEdges((eds) =>
               eds.filter(
                 (edge) =>
-                  edge.source !== deleteConfirm.id &&
-                  edge.target !== deleteConfirm.id
+                  !removedIds.has(edge.source) &&
+                  !removedIds.has(edge.target)
               )
             );
             // Also remove from completed tasks state if deleted
@@ -315,7 +662,7 @@ const TodoList: React.FC<TodoListProps> = ({ nodes, edges }) => {
         }}
         onCancel={() => setDeleteConfirm(null)}
       >
-        <p>确定要删除这个任务吗？这个操作无法撤销。</p>
+        <p>{deleteConfirm && isGroupNode(deleteConfirm) ? '确定要删除这个分组及其中的任务吗？' : '确定要删除这个任务吗？'}可以通过 Ctrl+Z 撤销。</p>
       </Modal>
     </>
   );
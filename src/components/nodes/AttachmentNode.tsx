@@ -4,6 +4,9 @@ import { PaperClipOutlined, UploadOutlined, FileOutlined } from '@ant-design/ico
 import { Button, Upload, message, Tooltip, Spin } from 'antd'; // Import Spin from antd
 import type { UploadChangeParam } from 'antd/es/upload/interface'; // Import specific type
 import { API_ENDPOINTS, getAuthHeaders } from '@/config/api';
+import TaskScheduleFields from './TaskScheduleFields';
+import TaskMetaBadges from './TaskMetaBadges';
+import type { TaskScheduleData } from '@/utils/schedule';
 
 // Basic styling
 const nodeStyle: React.CSSProperties = {
@@ -51,7 +54,7 @@ const handleStyle: React.CSSProperties = {
 };
 
 // Define the props specific to our AttachmentNode data
-interface AttachmentNodeData {
+interface AttachmentNodeData extends TaskScheduleData {
   label?: string;
   fileName?: string;
   fileUrl?: string; // URL of the uploaded file
@@ -170,7 +173,8 @@ const AttachmentNode = memo(({ data, id }: NodeProps<AttachmentNodeData>) => {
           </Upload>
         )}
       </div>
-
+      <TaskMetaBadges data={data} />
+      <TaskScheduleFields id={id} data={data} />
     </div>
   );
 });
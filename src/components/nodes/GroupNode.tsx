@@ -0,0 +1,122 @@
+import React, { memo, useState, useCallback } from 'react';
+import { Handle, Position, NodeProps, NodeResizer, useReactFlow } from 'reactflow';
+import { Input, Button, Progress, Tooltip } from 'antd';
+import { FolderOutlined, FolderOpenOutlined, CompressOutlined, ExpandOutlined } from '@ant-design/icons';
+import { useHistorySnapshot } from '@/hooks/useUndoRedo';
+import { useNodeEditRequest } from '@/hooks/useNodeEditRequest';
+import { GroupData, setGroupCollapsed } from '@/utils/taskGroups';
+import TaskMetaBadges from './TaskMetaBadges';
+
+const handleStyle: React.CSSProperties = {
+  background: '#555',
+  width: '8px',
+  height: '8px',
+};
+
+const headerStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  padding: '6px 8px 6px 10px',
+  fontSize: '12px',
+  fontWeight: 'bold',
+  color: '#333',
+};
+
+// Container for subtasks: a dashed frame its children sit in, or a summary card while collapsed
+const GroupNode = memo(({ id, data, selected }: NodeProps<GroupData>) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftLabel, setDraftLabel] = useState('');
+  const { setNodes } = useReactFlow();
+  const takeSnapshot = useHistorySnapshot();
+  const collapsed = !!data.collapsed;
+  const { done, total } = data.progress ?? { done: 0, total: 0 };
+
+  const toggleCollapsed = useCallback(() => {
+    takeSnapshot();
+    setNodes(nds => nds.map(node => (node.id === id ? setGroupCollapsed(node, !node.data?.collapsed) : node)));
+  }, [id, setNodes, takeSnapshot]);
+
+  const startEditing = useCallback(() => {
+    setDraftLabel(data.label || '');
+    setIsEditing(true);
+  }, [data.label]);
+
+  // Enter on the selected group renames it, like editing a text node
+  useNodeEditRequest(id, startEditing);
+
+  const saveLabel = () => {
+    setIsEditing(false);
+    const label = draftLabel.trim();
+    if (!label || label === data.label) return;
+    takeSnapshot();
+    setNodes(nds => nds.map(node => (node.id === id ? { ...node, data: { ...node.data, label } } : node)));
+  };
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        border: collapsed ? '1px solid #d9d9d9' : '1px dashed #8c8c8c',
+        borderTop: '4px solid #13c2c2',
+        borderRadius: '8px',
+        background: collapsed ? '#fff' : 'rgba(19, 194, 194, 0.04)',
+        display: 'flex',
+        flexDirection: 'column',
+      }}
+    >
+      <NodeResizer isVisible={selected && !collapsed} minWidth={160} minHeight={100} onResizeStart={takeSnapshot} />
+      <Handle type="target" position={Position.Top} id="top-target" style={handleStyle} />
+      <Handle type="source" position={Position.Top} id="top-source" style={handleStyle} />
+      <Handle type="target" position={Position.Right} id="right-target" style={handleStyle} />
+      <Handle type="source" position={Position.Right} id="right-source" style={handleStyle} />
+      <Handle type="target" position={Position.Bottom} id="bottom-target" style={handleStyle} />
+      <Handle type="source" position={Position.Bottom} id="bottom-source" style={handleStyle} />
+      <Handle type="target" position={Position.Left} id="left-target" style={handleStyle} />
+      <Handle type="source" position={Position.Left} id="left-source" style={handleStyle} />
+
+      <div style={headerStyle}>
+        {collapsed ? <FolderOutlined /> : <FolderOpenOutlined />}
+        {isEditing ? (
+          <Input
+            size="small"
+            className="nodrag"
+            value={draftLabel}
+            onChange={(e) => setDraftLabel(e.target.value)}
+            onBlur={saveLabel}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveLabel();
+              if (e.key === 'Escape') setIsEditing(false);
+            }}
+            autoFocus
+          />
+        ) : (
+          <span onDoubleClick={startEditing} style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', cursor: 'pointer' }}>
+            {data.label || '分组'}
+          </span>
+        )}
+        <span style={{ color: '#888', fontWeight: 'normal' }}>{done}/{total}</span>
+        <Tooltip title={collapsed ? '展开分组' : '折叠分组'}>
+          <Button
+            type="text"
+            size="small"
+            className="nodrag"
+            icon={collapsed ? <ExpandOutlined /> : <CompressOutlined />}
+            onClick={toggleCollapsed}
+          />
+        </Tooltip>
+      </div>
+      {collapsed && (
+        <div style={{ padding: '0 10px 8px', fontSize: '12px' }}>
+          <Progress percent={total > 0 ? Math.round((done / total) * 100) : 0} size="small" status={total > 0 && done === total ? 'success' : 'normal'} />
+          <TaskMetaBadges data={data} />
+        </div>
+      )}
+    </div>
+  );
+});
+
+GroupNode.displayName = 'GroupNode';
+
+export default GroupNode;
@@ -5,6 +5,9 @@ import { Button, Upload, message, Spin } from 'antd';
 import Image from 'next/image';
 import type { UploadChangeParam } from 'antd/es/upload/interface';
 import { API_ENDPOINTS, getAuthHeaders } from '@/config/api';
+import TaskScheduleFields from './TaskScheduleFields';
+import TaskMetaBadges from './TaskMetaBadges';
+import type { TaskScheduleData } from '@/utils/schedule';
 
 // Basic styling
 const nodeStyle: React.CSSProperties = {
@@ -40,7 +43,7 @@ const handleStyle: React.CSSProperties = {
 };
 
 // Define the props specific to our ImageNode data
-interface ImageNodeData {
+interface ImageNodeData extends TaskScheduleData {
   label?: string;
   imageUrl?: string; // URL of the uploaded image
 }
@@ -142,7 +145,8 @@ const ImageNode = memo(({ data, id }: NodeProps<ImageNodeData>) => {
           </Upload>
         )}
       </div>
-
+      <TaskMetaBadges data={data} />
+      <TaskScheduleFields id={id} data={data} />
     </div>
   );
 });
@@ -0,0 +1,193 @@
+import React, { memo, useState, useCallback, useEffect } from 'react';
+import { Handle, Position, NodeProps, useReactFlow } from 'reactflow';
+import { LinkOutlined, ExportOutlined } from '@ant-design/icons';
+import { Button, Modal, Select, Spin, Tag, Space, Typography } from 'antd';
+import { useHistorySnapshot } from '@/hooks/useUndoRedo';
+import { useLinkedTaskContext } from '@/hooks/useLinkedTasks';
+import { getFlowchartRepository, FlowchartSummary } from '@/storage/flowchartRepository';
+import { LinkedTaskData, LINKED_TASK_NODE_TYPE, getLinkedTaskRef, getLinkedTaskKey } from '@/utils/linkedTasks';
+import { TASK_STATUS_META } from '@/utils/taskStatus';
+import { getDisplayContent } from '@/utils/flowData';
+import TaskMetaBadges from './TaskMetaBadges';
+
+const { Text } = Typography;
+
+// Basic styling
+const nodeStyle: React.CSSProperties = {
+  padding: '10px 15px',
+  border: '1px dashed #722ed1',
+  borderRadius: '8px',
+  background: '#fff',
+  minWidth: '180px',
+  maxWidth: '280px',
+  borderTop: '4px solid #722ed1',
+  fontSize: '12px',
+  position: 'relative',
+};
+
+const labelStyle: React.CSSProperties = {
+  fontWeight: 'bold',
+  marginBottom: '8px',
+  color: '#333',
+  display: 'flex',
+  alignItems: 'center',
+};
+
+const handleStyle: React.CSSProperties = {
+  background: '#555',
+  width: '8px',
+  height: '8px',
+};
+
+interface LinkedTaskPickerProps {
+  excludeUuid: string | null;
+  onCancel: () => void;
+  onPick: (data: Required<Pick<LinkedTaskData, 'flowchartUuid' | 'flowchartTag' | 'nodeId' | 'label'>>) => void;
+}
+
+// Choose a saved flowchart, then one of its tasks
+const LinkedTaskPicker: React.FC<LinkedTaskPickerProps> = ({ excludeUuid, onCancel, onPick }) => {
+  const [flowcharts, setFlowcharts] = useState<FlowchartSummary[] | null>(null);
+  const [flowchartUuid, setFlowchartUuid] = useState<string>();
+  const [tasks, setTasks] = useState<{ id: string; text: string }[] | null>(null);
+  const [nodeId, setNodeId] = useState<string>();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getFlowchartRepository().list()
+      .then(list => setFlowcharts(list.filter(fc => fc.uuid !== excludeUuid)))
+      .catch(listError => setError(listError instanceof Error ? listError.message : '无法获取流程图列表'));
+  }, [excludeUuid]);
+
+  const handleFlowchartChange = async (uuid: string) => {
+    setFlowchartUuid(uuid);
+    setNodeId(undefined);
+    setTasks(null);
+    setError(null);
+    try {
+      const data = await getFlowchartRepository().load(uuid);
+      setTasks(data.nodes.map(node => ({ id: node.id, text: getDisplayContent(node) })));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : '无法加载流程图');
+    }
+  };
+
+  const selectedTask = tasks?.find(task => task.id === nodeId);
+  const selectedFlowchart = flowcharts?.find(fc => fc.uuid === flowchartUuid);
+
+  return (
+    <Modal
+      title="关联其他流程图中的任务"
+      open
+      onCancel={onCancel}
+      okText="关联"
+      cancelText="取消"
+      okButtonProps={{ disabled: !selectedTask || !selectedFlowchart }}
+      onOk={() => {
+        if (!selectedTask || !selectedFlowchart) return;
+        onPick({ flowchartUuid: selectedFlowchart.uuid, flowchartTag: selectedFlowchart.tag, nodeId: selectedTask.id, label: selectedTask.text });
+      }}
+    >
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Select
+          placeholder="选择流程图"
+          style={{ width: '100%' }}
+          loading={!flowcharts && !error}
+          value={flowchartUuid}
+          onChange={handleFlowchartChange}
+          options={flowcharts?.map(fc => ({ value: fc.uuid, label: fc.tag }))}
+          showSearch
+          optionFilterProp="label"
+        />
+        <Select
+          placeholder="选择任务"
+          style={{ width: '100%' }}
+          disabled={!flowchartUuid}
+          loading={!!flowchartUuid && !tasks && !error}
+          value={nodeId}
+          onChange={setNodeId}
+          options={tasks?.map(task => ({ value: task.id, label: task.text }))}
+          showSearch
+          optionFilterProp="label"
+        />
+        {error && <Text type="danger">{error}</Text>}
+      </Space>
+    </Modal>
+  );
+};
+
+// Stand-in for a task of another saved flowchart. Its completion follows that task, so tasks
+// depending on it here stay blocked until it is checked off over there.
+const LinkedTaskNode = memo(({ data, id }: NodeProps<LinkedTaskData>) => {
+  const { setNodes } = useReactFlow();
+  const takeSnapshot = useHistorySnapshot();
+  const { states, currentUuid, openFlowchart } = useLinkedTaskContext();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  const ref = getLinkedTaskRef({ id, type: LINKED_TASK_NODE_TYPE, data, position: { x: 0, y: 0 } });
+  const state = ref ? states.get(getLinkedTaskKey(ref)) : undefined;
+
+  const handlePick = useCallback((picked: Required<Pick<LinkedTaskData, 'flowchartUuid' | 'flowchartTag' | 'nodeId' | 'label'>>) => {
+    takeSnapshot();
+    setNodes(nds => nds.map(node => (node.id === id ? { ...node, data: { ...node.data, ...picked } } : node)));
+    setIsPickerOpen(false);
+  }, [id, setNodes, takeSnapshot]);
+
+  let status: React.ReactNode = null;
+  if (state?.status === 'loading') {
+    status = <Spin size="small" />;
+  } else if (state?.status === 'found') {
+    const meta = TASK_STATUS_META[state.taskStatus];
+    status = <Tag color={meta.color}>{meta.label}</Tag>;
+  } else if (state?.status === 'missing') {
+    status = <Tag color="red">任务已删除</Tag>;
+  } else if (state?.status === 'error') {
+    status = <Tag color="red" title={state.error}>无法获取状态</Tag>;
+  }
+
+  return (
+    <div style={nodeStyle}>
+      <Handle type="target" position={Position.Top} id="top-target" style={handleStyle} />
+      <Handle type="source" position={Position.Top} id="top-source" style={handleStyle} />
+      <Handle type="target" position={Position.Right} id="right-target" style={handleStyle} />
+      <Handle type="source" position={Position.Right} id="right-source" style={handleStyle} />
+      <Handle type="target" position={Position.Bottom} id="bottom-target" style={handleStyle} />
+      <Handle type="source" position={Position.Bottom} id="bottom-source" style={handleStyle} />
+      <Handle type="target" position={Position.Left} id="left-target" style={handleStyle} />
+      <Handle type="source" position={Position.Left} id="left-source" style={handleStyle} />
+
+      <div style={labelStyle}>
+        <LinkOutlined style={{ marginRight: '5px' }} /> 关联任务
+      </div>
+      {ref ? (
+        <>
+          <div style={{ color: '#888', marginBottom: '2px' }}>{data.flowchartTag || '未命名'}</div>
+          <div style={{ color: '#333', whiteSpace: 'pre-wrap', marginBottom: '6px', textDecoration: data.completed ? 'line-through' : undefined }}>
+            {data.label}
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }} className="nodrag">
+            {status}
+            <Space size={0}>
+              <Button type="link" size="small" icon={<ExportOutlined />} onClick={() => openFlowchart(ref.flowchartUuid)}>打开</Button>
+              <Button type="link" size="small" onClick={() => setIsPickerOpen(true)}>更换</Button>
+            </Space>
+          </div>
+        </>
+      ) : (
+        <Button size="small" className="nodrag" onClick={() => setIsPickerOpen(true)}>选择任务...</Button>
+      )}
+      <TaskMetaBadges data={data} />
+      {isPickerOpen && (
+        <LinkedTaskPicker
+          excludeUuid={currentUuid}
+          onCancel={() => setIsPickerOpen(false)}
+          onPick={handlePick}
+        />
+      )}
+    </div>
+  );
+});
+
+LinkedTaskNode.displayName = 'LinkedTaskNode';
+
+export default LinkedTaskNode;
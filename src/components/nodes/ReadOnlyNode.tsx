@@ -0,0 +1,100 @@
+import React from 'react';
+import Image from 'next/image';
+import { Handle, Position, NodeProps, NodeTypes } from 'reactflow';
+import { Progress } from 'antd';
+import { getDisplayContent } from '@/utils/flowData';
+import { GROUP_NODE_TYPE, GroupData } from '@/utils/taskGroups';
+import TaskMetaBadges from './TaskMetaBadges';
+
+const hiddenHandleStyle: React.CSSProperties = { opacity: 0, pointerEvents: 'none' };
+
+const HANDLE_SIDES = [
+  ['top', Position.Top],
+  ['right', Position.Right],
+  ['bottom', Position.Bottom],
+  ['left', Position.Left],
+] as const;
+
+// Hidden handles with the ids of the real nodes so edges attach the same way
+const readOnlyHandles = HANDLE_SIDES.map(([side, position]) => (
+  <React.Fragment key={side}>
+    <Handle type="target" position={position} id={`${side}-target`} style={hiddenHandleStyle} isConnectable={false} />
+    <Handle type="source" position={position} id={`${side}-source`} style={hiddenHandleStyle} isConnectable={false} />
+  </React.Fragment>
+));
+
+// Display-only stand-in for every task node type, used where the flowchart can't be edited
+// (history preview, shared viewer)
+const ReadOnlyNode: React.FC<NodeProps> = ({ data, type, id }) => {
+  const completed = !!data?.completed;
+  return (
+    <div
+      style={{
+        padding: '8px 12px',
+        minWidth: '120px',
+        maxWidth: '240px',
+        background: completed ? '#f6ffed' : '#fff',
+        border: `1px solid ${completed ? '#b7eb8f' : '#d9d9d9'}`,
+        borderRadius: '6px',
+        fontSize: '12px',
+        whiteSpace: 'pre-wrap',
+        wordBreak: 'break-word',
+        textDecoration: completed ? 'line-through' : undefined,
+        color: completed ? '#8c8c8c' : undefined,
+      }}
+    >
+      {type === 'image' && data?.imageUrl && (
+        <div style={{ position: 'relative', width: '100%', height: '120px', marginBottom: '4px' }}>
+          <Image src={data.imageUrl} alt={data.label || ''} fill style={{ objectFit: 'contain' }} unoptimized />
+        </div>
+      )}
+      {getDisplayContent({ id, type, data, position: { x: 0, y: 0 } })}
+      <TaskMetaBadges data={data} />
+      {readOnlyHandles}
+    </div>
+  );
+};
+
+// Display-only group frame; the size comes from the node's style like in the editor
+const ReadOnlyGroupNode: React.FC<NodeProps<GroupData>> = ({ data }) => {
+  const collapsed = !!data?.collapsed;
+  const { done, total } = data?.progress ?? { done: 0, total: 0 };
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        border: collapsed ? '1px solid #d9d9d9' : '1px dashed #8c8c8c',
+        borderTop: '4px solid #13c2c2',
+        borderRadius: '8px',
+        background: collapsed ? '#fff' : 'rgba(19, 194, 194, 0.04)',
+        padding: '6px 10px',
+        fontSize: '12px',
+      }}
+    >
+      <div style={{ display: 'flex', gap: '6px', fontWeight: 'bold', color: '#333' }}>
+        <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{data?.label || '分组'}</span>
+        <span style={{ color: '#888', fontWeight: 'normal' }}>{done}/{total}</span>
+      </div>
+      {collapsed && (
+        <>
+          <Progress percent={total > 0 ? Math.round((done / total) * 100) : 0} size="small" status={total > 0 && done === total ? 'success' : 'normal'} />
+          <TaskMetaBadges data={data} />
+        </>
+      )}
+      {readOnlyHandles}
+    </div>
+  );
+};
+
+export const READ_ONLY_NODE_TYPES: NodeTypes = {
+  text: ReadOnlyNode,
+  image: ReadOnlyNode,
+  attachment: ReadOnlyNode,
+  social: ReadOnlyNode,
+  linked: ReadOnlyNode,
+  [GROUP_NODE_TYPE]: ReadOnlyGroupNode,
+  default: ReadOnlyNode,
+};
+
+export default ReadOnlyNode;
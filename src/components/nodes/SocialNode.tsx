@@ -2,6 +2,9 @@ import React, { memo, useState, useCallback, useEffect } from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
 import { ShareAltOutlined } from '@ant-design/icons';
 import { Input } from 'antd';
+import TaskScheduleFields from './TaskScheduleFields';
+import TaskMetaBadges from './TaskMetaBadges';
+import type { TaskScheduleData } from '@/utils/schedule';
 
 // Twitter type declaration
 declare global {
@@ -47,7 +50,7 @@ const handleStyle: React.CSSProperties = {
 
 
 // Define the props specific to our SocialNode data
-interface SocialNodeData {
+interface SocialNodeData extends TaskScheduleData {
   label?: string;
   url?: string;
 }
@@ -157,7 +160,8 @@ const SocialNode = memo(({ data, id }: NodeProps<SocialNodeData>) => {
             )}
          </div>
       </div>
-
+      <TaskMetaBadges data={data} />
+      <TaskScheduleFields id={id} data={data} />
     </div>
   );
 });
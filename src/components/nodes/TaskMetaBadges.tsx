@@ -0,0 +1,28 @@
+import React, { memo } from 'react';
+import { Tag } from 'antd';
+import { UserOutlined } from '@ant-design/icons';
+import { Node } from 'reactflow';
+import { TASK_PRIORITY_META, getTaskPriority, getTaskAssignee, getTaskTags } from '@/utils/taskMeta';
+
+const badgeStyle: React.CSSProperties = { marginRight: 0, fontSize: '11px', lineHeight: '18px' };
+
+// Priority, assignee and tags of a task, shown compactly on every node type; edited in the inspector
+const TaskMetaBadges = memo(({ data }: { data: Node['data'] }) => {
+  const node = { data } as Node;
+  const priority = getTaskPriority(node);
+  const assignee = getTaskAssignee(node);
+  const tags = getTaskTags(node);
+  if (!priority && !assignee && tags.length === 0) return null;
+
+  return (
+    <div style={{ marginTop: '6px', display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+      {priority && <Tag color={TASK_PRIORITY_META[priority].color} style={badgeStyle}>{TASK_PRIORITY_META[priority].label}</Tag>}
+      {assignee && <Tag icon={<UserOutlined />} style={badgeStyle}>{assignee}</Tag>}
+      {tags.map(tag => <Tag key={tag} style={badgeStyle}>#{tag}</Tag>)}
+    </div>
+  );
+});
+
+TaskMetaBadges.displayName = 'TaskMetaBadges';
+
+export default TaskMetaBadges;
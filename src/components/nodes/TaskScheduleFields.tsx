@@ -0,0 +1,121 @@
+import React, { memo, useState, useCallback } from 'react';
+import { useReactFlow } from 'reactflow';
+import { Popover, InputNumber, Input, Button, Space } from 'antd';
+import { FieldTimeOutlined } from '@ant-design/icons';
+import { useHistorySnapshot } from '@/hooks/useUndoRedo';
+import type { TaskScheduleData } from '@/utils/schedule';
+
+const summaryStyle: React.CSSProperties = {
+  marginTop: '8px',
+  paddingTop: '6px',
+  borderTop: '1px dashed #eee',
+  color: '#888',
+  fontSize: '11px',
+  cursor: 'pointer',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '4px',
+};
+
+const fieldLabelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '12px',
+  color: '#555',
+  marginBottom: '2px',
+};
+
+interface TaskScheduleFieldsProps {
+  id: string;
+  data: TaskScheduleData;
+}
+
+// Shared duration / start date / due date editor shown at the bottom of every node type
+const TaskScheduleFields = memo(({ id, data }: TaskScheduleFieldsProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<TaskScheduleData>({});
+  const { setNodes } = useReactFlow();
+  const takeSnapshot = useHistorySnapshot();
+
+  const handleOpenChange = useCallback((visible: boolean) => {
+    if (visible) {
+      setDraft({ duration: data.duration, startDate: data.startDate, dueDate: data.dueDate });
+    }
+    setOpen(visible);
+  }, [data.duration, data.startDate, data.dueDate]);
+
+  const handleSave = useCallback(() => {
+    takeSnapshot();
+    setNodes(nds => nds.map(node => node.id === id
+      ? {
+        ...node,
+        data: {
+          ...node.data,
+          duration: draft.duration ?? undefined,
+          startDate: draft.startDate || undefined,
+          dueDate: draft.dueDate || undefined,
+        },
+      }
+      : node));
+    setOpen(false);
+  }, [id, draft, setNodes, takeSnapshot]);
+
+  const parts = [
+    data.duration !== undefined ? `${data.duration}天` : null,
+    data.startDate ? `开始 ${data.startDate}` : null,
+    data.dueDate ? `截止 ${data.dueDate}` : null,
+  ].filter(Boolean);
+
+  const content = (
+    <div style={{ width: '200px' }}>
+      <div style={{ marginBottom: '8px' }}>
+        <span style={fieldLabelStyle}>预计工期（天）</span>
+        <InputNumber
+          min={0}
+          step={0.5}
+          value={draft.duration}
+          onChange={(value) => setDraft(prev => ({ ...prev, duration: value ?? undefined }))}
+          style={{ width: '100%' }}
+        />
+      </div>
+      <div style={{ marginBottom: '8px' }}>
+        <span style={fieldLabelStyle}>开始日期</span>
+        <Input
+          type="date"
+          value={draft.startDate || ''}
+          onChange={(e) => setDraft(prev => ({ ...prev, startDate: e.target.value }))}
+        />
+      </div>
+      <div style={{ marginBottom: '8px' }}>
+        <span style={fieldLabelStyle}>截止日期</span>
+        <Input
+          type="date"
+          value={draft.dueDate || ''}
+          onChange={(e) => setDraft(prev => ({ ...prev, dueDate: e.target.value }))}
+        />
+      </div>
+      <Space style={{ width: '100%', justifyContent: 'flex-end' }}>
+        <Button size="small" onClick={() => setOpen(false)}>取消</Button>
+        <Button size="small" type="primary" onClick={handleSave}>保存</Button>
+      </Space>
+    </div>
+  );
+
+  return (
+    <Popover
+      content={content}
+      title="任务时间"
+      trigger="click"
+      open={open}
+      onOpenChange={handleOpenChange}
+    >
+      <div style={summaryStyle} className="nodrag">
+        <FieldTimeOutlined />
+        {parts.length > 0 ? parts.join(' · ') : <span style={{ color: '#bbb' }}>设置时间...</span>}
+      </div>
+    </Popover>
+  );
+});
+
+TaskScheduleFields.displayName = 'TaskScheduleFields';
+
+export default TaskScheduleFields;
@@ -1,6 +1,12 @@
-import React, { memo, useState, useEffect, useCallback, useMemo } from 'react';
+import React, { memo, useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Handle, Position, NodeProps, useReactFlow, useStoreApi, Edge } from 'reactflow';
 import { Input, Dropdown } from 'antd';
+import { useHistorySnapshot } from '@/hooks/useUndoRedo';
+import { useNodeEditRequest } from '@/hooks/useNodeEditRequest';
+import TaskScheduleFields from './TaskScheduleFields';
+import TaskMetaBadges from './TaskMetaBadges';
+import type { TaskScheduleData } from '@/utils/schedule';
+import { rebaseTextEdit } from '@/utils/textMerge';
 
 const { TextArea } = Input;
 
@@ -36,7 +42,7 @@ const handleStyle: React.CSSProperties = {
   height: '8px',
 };
 
-interface TextNodeData {
+interface TextNodeData extends TaskScheduleData {
   label: string;
   text?: string;
   // No longer need order in data
@@ -69,8 +75,11 @@ const orderBadgeStyle: React.CSSProperties = {
 const TextNode = memo(({ id, data, order }: TextNodeProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [nodeText, setNodeText] = useState(data.text || '');
+  // Text when editing started; a collaborator may change it while this user is typing
+  const editBaseRef = useRef('');
   const { setNodes, setEdges } = useReactFlow();
   const store = useStoreApi();
+  const takeSnapshot = useHistorySnapshot();
 
   // Memoize menu items to prevent unnecessary re-renders
   const menuItems = useMemo(() => {
@@ -81,34 +90,46 @@ const TextNode = memo(({ id, data, order }: TextNodeProps) => {
         key: edge.id,
         label: `删除连线 ${edge.source} → ${edge.target}`,
         onClick: () => {
+          takeSnapshot();
           setEdges(edges => edges.filter(e => e.id !== edge.id));
         }
       }));
-  }, [id, store, setEdges]);
+  }, [id, store, setEdges, takeSnapshot]);
 
   useEffect(() => {
-    setNodeText(data.text || '');
-  }, [data.text]);
+    if (!isEditing) setNodeText(data.text || '');
+  }, [data.text, isEditing]);
 
   const handleDoubleClick = useCallback(() => {
+    editBaseRef.current = data.text || '';
     setIsEditing(true);
-  }, []);
+  }, [data.text]);
+
+  // Enter on the selected node starts editing like a double-click
+  useNodeEditRequest(id, handleDoubleClick);
 
   const handleBlur = useCallback(() => {
     setIsEditing(false);
     const { nodeInternals } = store.getState();
+    const currentText = nodeInternals.get(id)?.data.text || '';
+    // Keep changes others made to this text while it was being edited
+    const text = currentText === editBaseRef.current ? nodeText : rebaseTextEdit(editBaseRef.current, nodeText, currentText);
+    // Only record a history step when the text actually changed
+    if (text !== currentText) {
+      takeSnapshot();
+    }
     setNodes(
       Array.from(nodeInternals.values()).map((node) => {
         if (node.id === id) {
           node.data = {
             ...node.data,
-            text: nodeText,
+            text,
           };
         }
         return node;
       })
     );
-  }, [id, nodeText, setNodes, store]);
+  }, [id, nodeText, setNodes, store, takeSnapshot]);
 
   const handleInputChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
     setNodeText(event.target.value);
@@ -162,6 +183,8 @@ const TextNode = memo(({ id, data, order }: TextNodeProps) => {
             {nodeText || <span style={{ color: '#aaa' }}>Double-click to edit...</span>}
           </div>
         )}
+        <TaskMetaBadges data={data} />
+        <TaskScheduleFields id={id} data={data} />
       </div>
     </Dropdown>
   );
@@ -7,6 +7,8 @@ interface ApiEndpoints {
   notionDelete: string;
   notionListTags: string;
   notionCreateDb: string;
+  notionShare: string;
+  notionShared: string;
   upload: string;
 }
 
@@ -17,6 +19,8 @@ export const API_ENDPOINTS: ApiEndpoints = {
   notionDelete: `${API_BASE_URL}/notion/delete`,
   notionListTags: `${API_BASE_URL}/notion/list-tags`,
   notionCreateDb: `${API_BASE_URL}/notion/create-db`,
+  notionShare: `${API_BASE_URL}/notion/share`,
+  notionShared: `${API_BASE_URL}/notion/shared`,
   upload: `${API_BASE_URL}/upload`,
 };
 
@@ -26,4 +30,18 @@ export const getAuthHeaders = () => {
     'Content-Type': 'application/json',
     'Authorization': token ? `Bearer ${token}` : '',
   };
-};
\ No newline at end of file
+};
+
+// Where flowcharts are stored: the Notion-backed API above (requires login), the browser's
+// IndexedDB (offline, no account needed) or memory (tests). Override with NEXT_PUBLIC_STORAGE_PROVIDER.
+export type StorageProvider = 'notion' | 'indexeddb' | 'memory';
+
+const STORAGE_PROVIDERS: StorageProvider[] = ['notion', 'indexeddb', 'memory'];
+
+export const STORAGE_PROVIDER: StorageProvider = STORAGE_PROVIDERS.includes(process.env.NEXT_PUBLIC_STORAGE_PROVIDER as StorageProvider)
+  ? process.env.NEXT_PUBLIC_STORAGE_PROVIDER as StorageProvider
+  : 'notion';
+
+// WebSocket relay for live collaboration; `npm run collab-server` starts one locally.
+// Override with NEXT_PUBLIC_COLLAB_SERVER_URL.
+export const COLLAB_SERVER_URL = process.env.NEXT_PUBLIC_COLLAB_SERVER_URL || 'ws://localhost:1234';
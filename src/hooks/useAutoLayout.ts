@@ -0,0 +1,80 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { Node, Edge } from 'reactflow';
+import { computeLayeredLayout, LayoutDirection } from '@/utils/autoLayout';
+
+interface UseAutoLayoutOptions {
+  nodes: Node[];
+  edges: Edge[];
+  setNodes: React.Dispatch<React.SetStateAction<Node[]>>;
+  setEdges: React.Dispatch<React.SetStateAction<Edge[]>>;
+  takeSnapshot: () => void;
+  onLayoutEnd?: () => void;
+  animationDuration?: number;
+}
+
+// Ease-out so nodes settle gently into place
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+export const useAutoLayout = ({
+  nodes,
+  edges,
+  setNodes,
+  setEdges,
+  takeSnapshot,
+  onLayoutEnd,
+  animationDuration = 400,
+}: UseAutoLayoutOptions) => {
+  const frameRef = useRef<number | null>(null);
+
+  const cancelAnimation = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => cancelAnimation, [cancelAnimation]);
+
+  // Arrange all nodes in layers and animate them there; the whole move is one undo step.
+  // Subtasks keep their place inside their group, which moves as a whole.
+  const applyLayout = useCallback((direction: LayoutDirection) => {
+    const layoutNodes = nodes.filter(node => !node.parentNode);
+    if (layoutNodes.length === 0) return;
+    cancelAnimation();
+
+    const { positions, edges: layoutEdges } = computeLayeredLayout(layoutNodes, edges, { direction });
+    const startPositions = new Map(layoutNodes.map(node => [node.id, node.position]));
+    takeSnapshot();
+    setEdges(layoutEdges);
+
+    const startTime = performance.now();
+    const step = (now: number) => {
+      const progress = Math.min(1, (now - startTime) / animationDuration);
+      const eased = easeOutCubic(progress);
+      setNodes(nds => nds.map(node => {
+        const from = startPositions.get(node.id);
+        const to = positions.get(node.id);
+        if (!from || !to) return node;
+        return {
+          ...node,
+          position: {
+            x: from.x + (to.x - from.x) * eased,
+            y: from.y + (to.y - from.y) * eased,
+          },
+        };
+      }));
+
+      if (progress < 1) {
+        frameRef.current = requestAnimationFrame(step);
+      } else {
+        frameRef.current = null;
+        onLayoutEnd?.();
+      }
+    };
+    frameRef.current = requestAnimationFrame(step);
+  }, [nodes, edges, setNodes, setEdges, takeSnapshot, onLayoutEnd, animationDuration, cancelAnimation]);
+
+  return applyLayout;
+};
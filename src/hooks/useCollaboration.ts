@@ -0,0 +1,165 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+import { XYPosition } from 'reactflow';
+import { COLLAB_SERVER_URL } from '@/config/api';
+import { CollabFlow, writeFlowToDoc, readFlowFromDoc, isDocEmpty } from '@/utils/collabDoc';
+
+const COLLAB_USER_KEY = 'visual-todoflow-collab-user';
+const USER_COLORS = ['#f5222d', '#fa8c16', '#faad14', '#52c41a', '#13c2c2', '#1677ff', '#722ed1', '#eb2f96'];
+// Cursor updates are sent at most this often
+const CURSOR_THROTTLE_MS = 50;
+
+export type CollabStatus = 'off' | 'connecting' | 'connected' | 'disconnected';
+
+export interface CollabUser {
+  name: string;
+  color: string;
+}
+
+// Another user in the same room, as published through awareness
+export interface CollabPeer {
+  clientId: number;
+  user: CollabUser;
+  cursor: XYPosition | null; // In flow coordinates
+  selection: string[]; // Selected node ids
+}
+
+interface UseCollaborationOptions {
+  // Room to join (the flowchart uuid); null turns collaboration off
+  room: string | null;
+  flow: CollabFlow;
+  // Called with the shared flowchart whenever someone else changed it
+  onRemoteChange: (flow: CollabFlow) => void;
+}
+
+// Origin of transactions made from this editor's state, so they aren't echoed back
+const LOCAL_ORIGIN = 'local-editor';
+
+// Name and color shown to others, kept per browser
+const getCollabUser = (): CollabUser => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(COLLAB_USER_KEY) || 'null');
+    if (stored && typeof stored.name === 'string' && typeof stored.color === 'string') return stored;
+  } catch (error) {
+    console.error('Failed to read collaboration user:', error);
+  }
+  const user = {
+    name: `访客 ${Math.floor(1000 + Math.random() * 9000)}`,
+    color: USER_COLORS[Math.floor(Math.random() * USER_COLORS.length)],
+  };
+  localStorage.setItem(COLLAB_USER_KEY, JSON.stringify(user));
+  return user;
+};
+
+// Live editing of one flowchart with other users: the editor state is mirrored into a Yjs
+// document shared through the WebSocket relay, and cursors/selections go through awareness.
+// Whoever joins an empty room seeds it with their current flowchart; later joiners take the
+// room's version.
+export const useCollaboration = ({ room, flow, onRemoteChange }: UseCollaborationOptions) => {
+  const [connection, setConnection] = useState<{ room: string | null; status: CollabStatus; peers: CollabPeer[] }>({
+    room: null,
+    status: 'off',
+    peers: [],
+  });
+  const [user, setUser] = useState<CollabUser | null>(null);
+  const docRef = useRef<Y.Doc | null>(null);
+  const providerRef = useRef<WebsocketProvider | null>(null);
+  // Local edits are only written once the room's state has arrived
+  const syncedRef = useRef(false);
+  const flowRef = useRef(flow);
+  const onRemoteChangeRef = useRef(onRemoteChange);
+  const lastCursorSentRef = useRef(0);
+
+  useEffect(() => {
+    flowRef.current = flow;
+    onRemoteChangeRef.current = onRemoteChange;
+  }, [flow, onRemoteChange]);
+
+  useEffect(() => {
+    if (!room) return;
+    const doc = new Y.Doc();
+    const provider = new WebsocketProvider(COLLAB_SERVER_URL, room, doc);
+    const collabUser = getCollabUser();
+    docRef.current = doc;
+    providerRef.current = provider;
+    syncedRef.current = false;
+    provider.awareness.setLocalState({ user: collabUser, cursor: null, selection: [] });
+
+    const updateConnection = (update: Partial<{ status: CollabStatus; peers: CollabPeer[] }>) =>
+      setConnection(prev => ({ ...(prev.room === room ? prev : { room, status: 'connecting', peers: [] }), ...update }));
+
+    const handleStatus = ({ status }: { status: 'connecting' | 'connected' | 'disconnected' }) => {
+      updateConnection({ status });
+      setUser(collabUser);
+    };
+    const handleSync = (isSynced: boolean) => {
+      if (!isSynced || syncedRef.current) return;
+      syncedRef.current = true;
+      if (isDocEmpty(doc)) {
+        writeFlowToDoc(doc, flowRef.current, LOCAL_ORIGIN);
+      } else {
+        onRemoteChangeRef.current(readFlowFromDoc(doc));
+      }
+    };
+    const handleUpdate = (_update: Uint8Array, origin: unknown) => {
+      if (origin === LOCAL_ORIGIN || !syncedRef.current) return;
+      onRemoteChangeRef.current(readFlowFromDoc(doc));
+    };
+    const handleAwareness = () => {
+      const peers: CollabPeer[] = [];
+      provider.awareness.getStates().forEach((state, clientId) => {
+        if (clientId === doc.clientID || !state.user) return;
+        peers.push({ clientId, user: state.user, cursor: state.cursor ?? null, selection: state.selection ?? [] });
+      });
+      updateConnection({ peers });
+    };
+
+    provider.on('status', handleStatus);
+    provider.on('sync', handleSync);
+    doc.on('update', handleUpdate);
+    provider.awareness.on('change', handleAwareness);
+
+    return () => {
+      provider.awareness.off('change', handleAwareness);
+      doc.off('update', handleUpdate);
+      provider.off('sync', handleSync);
+      provider.off('status', handleStatus);
+      provider.destroy();
+      doc.destroy();
+      docRef.current = null;
+      providerRef.current = null;
+      syncedRef.current = false;
+    };
+  }, [room]);
+
+  // Mirror local edits into the shared document; state that came from the document writes nothing
+  useEffect(() => {
+    if (!room || !docRef.current || !syncedRef.current) return;
+    writeFlowToDoc(docRef.current, flow, LOCAL_ORIGIN);
+  }, [room, flow]);
+
+  const updateCursor = useCallback((cursor: XYPosition | null) => {
+    const provider = providerRef.current;
+    if (!provider) return;
+    const now = Date.now();
+    if (cursor && now - lastCursorSentRef.current < CURSOR_THROTTLE_MS) return;
+    lastCursorSentRef.current = now;
+    provider.awareness.setLocalStateField('cursor', cursor);
+  }, []);
+
+  const updateSelection = useCallback((selection: string[]) => {
+    providerRef.current?.awareness.setLocalStateField('selection', selection);
+  }, []);
+
+  const isCurrentRoom = !!room && connection.room === room;
+  return {
+    status: (room ? (isCurrentRoom ? connection.status : 'connecting') : 'off') as CollabStatus,
+    peers: isCurrentRoom ? connection.peers : [],
+    user,
+    updateCursor,
+    updateSelection,
+  };
+};
@@ -0,0 +1,136 @@
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { Node, Edge, Viewport } from 'reactflow';
+import type { UndoHistory } from '@/hooks/useUndoRedo';
+
+export interface FlowTabContent {
+  tag: string;
+  nodes: Node[];
+  edges: Edge[];
+}
+
+// Everything needed to bring a tab back exactly as it was left
+export interface FlowTabDocument extends FlowTabContent {
+  uuid: string;
+  hasUnsavedChanges: boolean;
+  // Content as last loaded or saved; null for flowcharts that were never saved
+  savedContent: FlowTabContent | null;
+  viewport: Viewport | null;
+  history: UndoHistory;
+}
+
+export interface FlowTab {
+  uuid: string;
+  tag: string;
+  hasUnsavedChanges: boolean;
+}
+
+interface UseFlowTabsOptions {
+  // The tab shown in the editor
+  active: FlowTab;
+  // Snapshot of the editor, kept while its tab is in the background
+  captureActive: () => FlowTabDocument;
+  // Put a tab's document into the editor
+  showDocument: (document: FlowTabDocument) => void;
+  // Blank flowchart shown when the last tab is closed
+  createEmptyDocument: () => FlowTabDocument;
+}
+
+export const createTabDocument = (uuid: string, content: FlowTabContent, savedContent: FlowTabContent | null = null): FlowTabDocument => ({
+  uuid,
+  ...content,
+  hasUnsavedChanges: false,
+  savedContent,
+  viewport: null,
+  history: { past: [], future: [] },
+});
+
+// Several flowcharts open side by side. Only the active one lives in the editor state; the
+// others are kept here as snapshots and swapped in when their tab is selected.
+export const useFlowTabs = ({ active, captureActive, showDocument, createEmptyDocument }: UseFlowTabsOptions) => {
+  const [order, setOrder] = useState<string[]>([active.uuid]);
+  const [background, setBackground] = useState<Record<string, FlowTabDocument>>({});
+
+  const { uuid: activeUuid, tag: activeTag, hasUnsavedChanges: isActiveDirty } = active;
+  const tabs = useMemo<FlowTab[]>(() => {
+    const uuids = order.includes(activeUuid) ? order : [...order, activeUuid];
+    return uuids.flatMap(uuid => {
+      if (uuid === activeUuid) return [{ uuid, tag: activeTag, hasUnsavedChanges: isActiveDirty }];
+      const document = background[uuid];
+      return document ? [{ uuid, tag: document.tag, hasUnsavedChanges: document.hasUnsavedChanges }] : [];
+    });
+  }, [order, background, activeUuid, activeTag, isActiveDirty]);
+
+  const isOpen = useCallback((uuid: string) => uuid === activeUuid || uuid in background, [activeUuid, background]);
+
+  const hasUnsavedBackgroundTabs = useMemo(
+    () => Object.values(background).some(document => document.hasUnsavedChanges),
+    [background]
+  );
+
+  // Show an open tab; false if there is no such tab
+  const activate = useCallback((uuid: string) => {
+    if (uuid === activeUuid) return true;
+    const document = background[uuid];
+    if (!document) return false;
+    const current = captureActive();
+    setBackground(prev => {
+      const next = { ...prev, [current.uuid]: current };
+      delete next[uuid];
+      return next;
+    });
+    showDocument(document);
+    return true;
+  }, [activeUuid, background, captureActive, showDocument]);
+
+  // Open a document in a new tab next to the active one; replaceActive drops the active tab instead
+  const openTab = useCallback((document: FlowTabDocument, { replaceActive = false } = {}) => {
+    if (!replaceActive) {
+      const current = captureActive();
+      setBackground(prev => ({ ...prev, [current.uuid]: current }));
+    }
+    setOrder(prev => {
+      const index = prev.indexOf(activeUuid);
+      const next = prev.filter(uuid => uuid !== document.uuid && !(replaceActive && uuid === activeUuid));
+      const insertAt = index === -1 ? next.length : Math.min(replaceActive ? index : index + 1, next.length);
+      next.splice(insertAt, 0, document.uuid);
+      return next;
+    });
+    showDocument(document);
+  }, [activeUuid, captureActive, showDocument]);
+
+  // Close a tab without asking; returns the uuid of the tab shown afterwards
+  const closeTab = useCallback((uuid: string) => {
+    const uuids = tabs.map(tab => tab.uuid);
+    const remaining = uuids.filter(other => other !== uuid);
+    if (uuid !== activeUuid) {
+      setOrder(remaining);
+      setBackground(prev => {
+        const next = { ...prev };
+        delete next[uuid];
+        return next;
+      });
+      return activeUuid;
+    }
+
+    // The tab to the right takes its place, or the one to the left if it was the last
+    const nextUuid = remaining[Math.min(uuids.indexOf(uuid), remaining.length - 1)];
+    const nextDocument = nextUuid ? background[nextUuid] : createEmptyDocument();
+    setOrder(nextUuid ? remaining : [nextDocument.uuid]);
+    setBackground(prev => {
+      const next = { ...prev };
+      delete next[nextDocument.uuid];
+      return next;
+    });
+    showDocument(nextDocument);
+    return nextDocument.uuid;
+  }, [tabs, activeUuid, background, createEmptyDocument, showDocument]);
+
+  // Change a tab that is in the background, e.g. when its load or save finishes
+  const updateBackgroundTab = useCallback((uuid: string, update: Partial<FlowTabDocument>) => {
+    setBackground(prev => (prev[uuid] ? { ...prev, [uuid]: { ...prev[uuid], ...update } } : prev));
+  }, []);
+
+  return { tabs, isOpen, hasUnsavedBackgroundTabs, activate, openTab, closeTab, updateBackgroundTab };
+};
@@ -0,0 +1,54 @@
+'use client';
+
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { isEditableTarget } from '@/utils/keyboard';
+import { Keymap, KeymapAction, DEFAULT_KEYMAP, getEventShortcut, getShortcutAction, isModShortcut } from '@/utils/keymap';
+import { loadPreferences, savePreferences } from '@/storage/preferences';
+
+export type KeymapHandlers = Partial<Record<KeymapAction, () => void>>;
+
+interface UseKeymapOptions {
+  handlers: KeymapHandlers;
+  // Plain-key shortcuts only fire while focus is here (or nowhere), so arrows and Tab keep
+  // working in the header, sidebars and dialogs
+  scopeRef: RefObject<HTMLElement | null>;
+}
+
+// Keyboard shortcuts of the editor, remappable and saved in this browser's preferences
+export const useKeymap = ({ handlers, scopeRef }: UseKeymapOptions) => {
+  const [keymap, setKeymapState] = useState<Keymap>(() => loadPreferences().keymap);
+  // Latest handlers, read by the listener without re-registering it on every render
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const shortcut = getEventShortcut(event);
+      const action = shortcut ? getShortcutAction(keymap, shortcut) : null;
+      const handler = action ? handlersRef.current[action] : undefined;
+      if (!shortcut || !handler) return;
+      if (!isModShortcut(shortcut)) {
+        const target = event.target;
+        const inScope = target === document.body || (target instanceof Node && !!scopeRef.current?.contains(target));
+        if (!inScope || isEditableTarget(target)) return;
+      }
+      event.preventDefault();
+      handler();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [keymap, scopeRef]);
+
+  const setKeymap = useCallback((next: Keymap) => {
+    setKeymapState(next);
+    savePreferences({ ...loadPreferences(), keymap: next });
+  }, []);
+
+  const resetKeymap = useCallback(() => setKeymap(DEFAULT_KEYMAP), [setKeymap]);
+
+  return { keymap, setKeymap, resetKeymap };
+};
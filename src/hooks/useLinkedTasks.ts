@@ -0,0 +1,81 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Node } from 'reactflow';
+import { FlowchartRepository, FlowchartNotFoundError } from '@/storage/flowchartRepository';
+import { LinkedFlowchart, LinkedTaskState, getLinkedFlowchartUuids, getLinkTargets, getLinkedTaskStates } from '@/utils/linkedTasks';
+
+// Linked tasks are refreshed this often, and whenever the window regains focus
+const LINKED_TASK_REFRESH_MS = 60 * 1000;
+
+interface UseLinkedTasksOptions {
+  nodes: Node[];
+  repository: FlowchartRepository;
+  enabled: boolean;
+}
+
+// Loads the flowcharts that linked task nodes point into and keeps their states current
+export const useLinkedTasks = ({ nodes, repository, enabled }: UseLinkedTasksOptions) => {
+  const [flowcharts, setFlowcharts] = useState<Map<string, LinkedFlowchart>>(new Map());
+  const [refreshKey, setRefreshKey] = useState(0);
+  // Only a change in the set of linked flowcharts triggers a load, not every node edit
+  const uuidsKey = useMemo(() => getLinkedFlowchartUuids(nodes).sort().join(','), [nodes]);
+
+  const refresh = useCallback(() => setRefreshKey(key => key + 1), []);
+
+  useEffect(() => {
+    if (!enabled || !uuidsKey) return;
+    let cancelled = false;
+    Promise.all(uuidsKey.split(',').map(async (uuid): Promise<[string, LinkedFlowchart]> => {
+      try {
+        return [uuid, getLinkTargets(await repository.load(uuid))];
+      } catch (error) {
+        const message = error instanceof FlowchartNotFoundError
+          ? '关联的流程图已被删除'
+          : error instanceof Error ? error.message : '未知错误';
+        return [uuid, { status: 'error', error: message }];
+      }
+    })).then(entries => {
+      if (!cancelled) setFlowcharts(new Map(entries));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, uuidsKey, repository, refreshKey]);
+
+  useEffect(() => {
+    if (!enabled || !uuidsKey) return;
+    const timer = window.setInterval(refresh, LINKED_TASK_REFRESH_MS);
+    window.addEventListener('focus', refresh);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('focus', refresh);
+    };
+  }, [enabled, uuidsKey, refresh]);
+
+  const states = useMemo(() => {
+    if (enabled) return getLinkedTaskStates(nodes, flowcharts);
+    const loginRequired: LinkedFlowchart = { status: 'error', error: '登录后才能查看关联任务' };
+    return getLinkedTaskStates(nodes, new Map(getLinkedFlowchartUuids(nodes).map(uuid => [uuid, loginRequired])));
+  }, [nodes, flowcharts, enabled]);
+
+  return { states, refresh };
+};
+
+interface LinkedTaskContextValue {
+  states: Map<string, LinkedTaskState>;
+  // The flowchart open in the editor, which can't link to itself
+  currentUuid: string | null;
+  openFlowchart: (uuid: string) => void;
+  refresh: () => void;
+}
+
+// Lets linked task nodes read their state and open the flowchart they point into
+export const LinkedTaskContext = createContext<LinkedTaskContextValue>({
+  states: new Map(),
+  currentUuid: null,
+  openFlowchart: () => {},
+  refresh: () => {},
+});
+
+export const useLinkedTaskContext = () => useContext(LinkedTaskContext);
@@ -0,0 +1,34 @@
+'use client';
+
+import { createContext, useContext, useEffect } from 'react';
+
+// Lets the editor ask a node to start editing, e.g. from the Enter shortcut
+export interface NodeEditRequests {
+  request: (nodeId: string) => void;
+  subscribe: (listener: (nodeId: string) => void) => () => void;
+}
+
+export const createNodeEditRequests = (): NodeEditRequests => {
+  const listeners = new Set<(nodeId: string) => void>();
+  return {
+    request: (nodeId) => listeners.forEach(listener => listener(nodeId)),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+export const NodeEditContext = createContext<NodeEditRequests | null>(null);
+
+// Run onRequest whenever the editor asks node id to start editing
+export const useNodeEditRequest = (id: string, onRequest: () => void) => {
+  const requests = useContext(NodeEditContext);
+
+  useEffect(() => {
+    if (!requests) return;
+    return requests.subscribe(nodeId => {
+      if (nodeId === id) onRequest();
+    });
+  }, [requests, id, onRequest]);
+};
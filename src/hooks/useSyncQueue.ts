@@ -0,0 +1,254 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { FlowchartData, FlowchartNotFoundError, FlowchartRepository } from '@/storage/flowchartRepository';
+import {
+  OutboxEntry,
+  loadOutbox,
+  saveOutbox,
+  enqueueOutboxEntry,
+  getRetryDelay,
+  getSyncBase,
+  setSyncBase,
+  hasRemoteChangedSinceBase,
+} from '@/storage/syncOutbox';
+import { isSameFlowContent } from '@/utils/flowData';
+import { mergeFlowVersions } from '@/utils/flowMerge';
+
+export type SyncConflictChoice = 'mine' | 'theirs' | 'merge';
+
+// Local and backend copies of a flowchart that both changed since they were last in sync
+export interface SyncConflict {
+  uuid: string;
+  local: FlowchartData;
+  remote: FlowchartData;
+  // Last version both had in common, if known; the ancestor for a three-way merge
+  base: FlowchartData | null;
+  // 'save': a queued save found newer backend changes; 'load': opening found unsynced local changes
+  source: 'save' | 'load';
+}
+
+export type SyncResult =
+  | { status: 'synced'; data?: FlowchartData }
+  | { status: 'queued'; error?: string }
+  | { status: 'conflict' };
+
+interface UseSyncQueueOptions {
+  repository: FlowchartRepository;
+  enabled: boolean;
+  // Called with the version chosen for a conflict so the editor can show it
+  onResolved?: (data: FlowchartData) => void;
+}
+
+const subscribeOnline = (callback: () => void) => {
+  window.addEventListener('online', callback);
+  window.addEventListener('offline', callback);
+  return () => {
+    window.removeEventListener('online', callback);
+    window.removeEventListener('offline', callback);
+  };
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : '未知错误');
+
+// Outbox for saves and deletes: they are sent right away when possible, otherwise kept and
+// replayed with backoff once the connection returns. Before a save is sent the backend copy is
+// compared with the last synced version, and a conflict is raised instead of overwriting it.
+export const useSyncQueue = ({ repository, enabled, onResolved }: UseSyncQueueOptions) => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const [conflict, setConflict] = useState<SyncConflict | null>(null);
+  const conflictRef = useRef<SyncConflict | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  // The flush in progress, so a new save can wait for it instead of being skipped
+  const flushPromiseRef = useRef<Promise<void> | null>(null);
+  const retryTimerRef = useRef<number | null>(null);
+  const onResolvedRef = useRef(onResolved);
+  const isOnline = useSyncExternalStore(subscribeOnline, () => navigator.onLine, () => true);
+
+  useEffect(() => {
+    onResolvedRef.current = onResolved;
+  }, [onResolved]);
+
+  const updateEntries = useCallback((update: (entries: OutboxEntry[]) => OutboxEntry[]) => {
+    entriesRef.current = update(entriesRef.current);
+    saveOutbox(entriesRef.current);
+    setEntries(entriesRef.current);
+  }, []);
+
+  const showConflict = useCallback((next: SyncConflict | null) => {
+    conflictRef.current = next;
+    setConflict(next);
+  }, []);
+
+  const loadRemote = useCallback(async (uuid: string) => {
+    try {
+      return await repository.load(uuid);
+    } catch (error) {
+      if (error instanceof FlowchartNotFoundError) return null;
+      throw error;
+    }
+  }, [repository]);
+
+  // Send one entry; returns the conflict if the backend changed underneath a save
+  const processEntry = useCallback(async (entry: OutboxEntry): Promise<SyncConflict | null> => {
+    if (entry.kind === 'delete') {
+      await repository.remove(entry.uuid);
+      setSyncBase(entry.uuid, null);
+      return null;
+    }
+
+    const remote = await loadRemote(entry.uuid);
+    const base = getSyncBase(entry.uuid);
+    if (remote && hasRemoteChangedSinceBase(remote, base) && !isSameFlowContent(remote, entry.data)) {
+      return { uuid: entry.uuid, local: entry.data, remote, base, source: 'save' };
+    }
+    const saved: FlowchartData = {
+      ...entry.data,
+      revision: Math.max(remote?.revision ?? 0, base?.revision ?? 0) + 1,
+      savedAt: Date.now(),
+    };
+    await repository.save(saved);
+    setSyncBase(entry.uuid, saved);
+    return null;
+  }, [repository, loadRemote]);
+
+  const flushRef = useRef<(options?: { force?: boolean }) => Promise<void>>(async () => {});
+
+  const scheduleRetry = useCallback(() => {
+    if (retryTimerRef.current !== null) {
+      window.clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+    const waiting = entriesRef.current.filter(entry => entry.uuid !== conflictRef.current?.uuid);
+    if (waiting.length === 0) return;
+    const nextAttemptAt = Math.min(...waiting.map(entry => entry.nextAttemptAt));
+    retryTimerRef.current = window.setTimeout(() => flushRef.current(), Math.max(0, nextAttemptAt - Date.now()));
+  }, []);
+
+  // Send every entry that is due. With `force`, entries waiting for a retry go too.
+  const flush = useCallback(async (options: { force?: boolean } = {}) => {
+    if (flushPromiseRef.current || !enabled || !navigator.onLine) return;
+    const run = async () => {
+      setIsSyncing(true);
+      try {
+        for (const entry of [...entriesRef.current]) {
+          if (entry.uuid === conflictRef.current?.uuid) continue; // Waiting for the user
+          if (!options.force && entry.nextAttemptAt > Date.now()) continue;
+          const replaceEntry = (next: OutboxEntry | null) => updateEntries(list =>
+            next ? list.map(item => (item === entry ? next : item)) : list.filter(item => item !== entry)
+          );
+          try {
+            const found = await processEntry(entry);
+            if (!found) {
+              replaceEntry(null);
+            } else if (!conflictRef.current) {
+              showConflict(found);
+            } else {
+              // One conflict at a time; check this one again later
+              replaceEntry({ ...entry, nextAttemptAt: Date.now() + getRetryDelay(entry.attempts + 1) });
+            }
+          } catch (error) {
+            console.error('Sync failed:', error);
+            const attempts = entry.attempts + 1;
+            replaceEntry({ ...entry, attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts), lastError: errorMessage(error) });
+          }
+        }
+      } finally {
+        setIsSyncing(false);
+        scheduleRetry();
+      }
+    };
+    const promise = run();
+    flushPromiseRef.current = promise;
+    try {
+      await promise;
+    } finally {
+      if (flushPromiseRef.current === promise) flushPromiseRef.current = null;
+    }
+  }, [enabled, processEntry, updateEntries, showConflict, scheduleRetry]);
+
+  // Flush once any flush already running is done, so a newly queued entry is sent rather than
+  // reported as queued while the running flush only handles the entries it started with
+  const flushAfterRunning = useCallback(async () => {
+    while (flushPromiseRef.current) await flushPromiseRef.current;
+    await flush();
+  }, [flush]);
+
+  useEffect(() => {
+    flushRef.current = flush;
+  }, [flush]);
+
+  // Pick up entries left over from an earlier session
+  useEffect(() => {
+    updateEntries(() => loadOutbox());
+    return () => {
+      if (retryTimerRef.current !== null) window.clearTimeout(retryTimerRef.current);
+    };
+  }, [updateEntries]);
+
+  // Retry everything as soon as the connection comes back
+  useEffect(() => {
+    if (isOnline && enabled) flushRef.current({ force: true });
+  }, [isOnline, enabled]);
+
+  // Outcome of the entry queued for `uuid` at `queuedAt` after a flush
+  const getResult = useCallback((uuid: string, queuedAt: number): SyncResult => {
+    const entry = entriesRef.current.find(item => item.uuid === uuid && item.queuedAt === queuedAt);
+    if (!entry) return { status: 'synced' };
+    if (conflictRef.current?.uuid === uuid) return { status: 'conflict' };
+    return { status: 'queued', error: entry.lastError };
+  }, []);
+
+  const queueSave = useCallback(async (data: FlowchartData): Promise<SyncResult> => {
+    const queuedAt = Date.now();
+    updateEntries(list => enqueueOutboxEntry(list, { kind: 'save', uuid: data.uuid, data, queuedAt, attempts: 0, nextAttemptAt: 0 }));
+    await flushAfterRunning();
+    const result = getResult(data.uuid, queuedAt);
+    return result.status === 'synced' ? { status: 'synced', data: getSyncBase(data.uuid) || data } : result;
+  }, [updateEntries, flushAfterRunning, getResult]);
+
+  const queueDelete = useCallback(async (uuid: string, tag: string): Promise<SyncResult> => {
+    const queuedAt = Date.now();
+    if (conflictRef.current?.uuid === uuid) showConflict(null); // Nothing left to resolve
+    updateEntries(list => enqueueOutboxEntry(list, { kind: 'delete', uuid, tag, queuedAt, attempts: 0, nextAttemptAt: 0 }));
+    await flushAfterRunning();
+    return getResult(uuid, queuedAt);
+  }, [updateEntries, flushAfterRunning, getResult, showConflict]);
+
+  const hasPending = useCallback((uuid: string) => entriesRef.current.some(entry => entry.uuid === uuid), []);
+
+  // Apply the user's choice for the open conflict. Keeping mine or merging saves the result on
+  // top of the backend copy, so the backend copy becomes the new base. A merge uses `merged` if
+  // the user reviewed it, otherwise the three-way merge with conflicts decided for the local side.
+  const resolveConflict = useCallback(async (choice: SyncConflictChoice, merged?: FlowchartData): Promise<SyncResult> => {
+    const current = conflictRef.current;
+    if (!current) return { status: 'synced' };
+    showConflict(null);
+    setSyncBase(current.uuid, current.remote);
+
+    if (choice === 'theirs') {
+      updateEntries(list => list.filter(entry => entry.uuid !== current.uuid));
+      onResolvedRef.current?.(current.remote);
+      return { status: 'synced', data: current.remote };
+    }
+    if (choice === 'mine') return queueSave(current.local); // Already shown in the editor
+    const result = merged ?? mergeFlowVersions(current.base, current.local, current.remote).merged;
+    onResolvedRef.current?.(result);
+    return queueSave(result);
+  }, [showConflict, updateEntries, queueSave]);
+
+  return {
+    isOnline,
+    isSyncing,
+    pendingCount: entries.length,
+    lastError: entries.find(entry => entry.lastError)?.lastError,
+    conflict,
+    reportConflict: showConflict,
+    resolveConflict,
+    queueSave,
+    queueDelete,
+    hasPending,
+    flush,
+  };
+};
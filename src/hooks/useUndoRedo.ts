@@ -0,0 +1,167 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { Node, Edge } from 'reactflow';
+import { isEditableTarget } from '@/utils/keyboard';
+
+interface HistorySnapshot {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+// Undo and redo stacks, e.g. kept aside while another flowchart is being edited
+export interface UndoHistory {
+  past: HistorySnapshot[];
+  future: HistorySnapshot[];
+}
+
+interface UseUndoRedoOptions {
+  nodes: Node[];
+  edges: Edge[];
+  setNodes: (nodes: Node[]) => void;
+  setEdges: (edges: Edge[]) => void;
+  maxHistorySize?: number;
+  enableShortcuts?: boolean;
+}
+
+const DEFAULT_MAX_HISTORY_SIZE = 100;
+
+// Only positions, data and connections matter for history; selection/dimension changes are ignored
+const isSameGraph = (a: HistorySnapshot, b: HistorySnapshot) => {
+  if (a.nodes.length !== b.nodes.length || a.edges.length !== b.edges.length) return false;
+  const sameNodes = a.nodes.every((node, index) => {
+    const other = b.nodes[index];
+    return node.id === other.id
+      && node.data === other.data
+      && node.position.x === other.position.x
+      && node.position.y === other.position.y;
+  });
+  if (!sameNodes) return false;
+  return a.edges.every((edge, index) => {
+    const other = b.edges[index];
+    return edge.id === other.id && edge.source === other.source && edge.target === other.target;
+  });
+};
+
+export const useUndoRedo = ({
+  nodes,
+  edges,
+  setNodes,
+  setEdges,
+  maxHistorySize = DEFAULT_MAX_HISTORY_SIZE,
+  enableShortcuts = true,
+}: UseUndoRedoOptions) => {
+  const [past, setPast] = useState<HistorySnapshot[]>([]);
+  const [future, setFuture] = useState<HistorySnapshot[]>([]);
+  // Latest committed graph, read by callbacks without re-creating them on every change
+  const currentRef = useRef<HistorySnapshot>({ nodes, edges });
+  // Snapshot captured when a drag starts, committed once the drag ends
+  const transactionRef = useRef<HistorySnapshot | null>(null);
+
+  useEffect(() => {
+    currentRef.current = { nodes, edges };
+  }, [nodes, edges]);
+
+  const pushSnapshot = useCallback((snapshot: HistorySnapshot) => {
+    setPast((prev) => {
+      const last = prev[prev.length - 1];
+      // Several callbacks can fire for one user action (e.g. onEdgesDelete + onNodesDelete)
+      if (last && last.nodes === snapshot.nodes && last.edges === snapshot.edges) return prev;
+      return [...prev, snapshot].slice(-maxHistorySize);
+    });
+    setFuture([]);
+  }, [maxHistorySize]);
+
+  // Record the current graph before applying a change
+  const takeSnapshot = useCallback(() => {
+    pushSnapshot(currentRef.current);
+  }, [pushSnapshot]);
+
+  // Start a change spanning several updates (e.g. a node drag) that should undo as one step
+  const beginTransaction = useCallback(() => {
+    transactionRef.current = currentRef.current;
+  }, []);
+
+  const endTransaction = useCallback(() => {
+    const snapshot = transactionRef.current;
+    transactionRef.current = null;
+    if (snapshot && !isSameGraph(snapshot, currentRef.current)) {
+      pushSnapshot(snapshot);
+    }
+  }, [pushSnapshot]);
+
+  const undo = useCallback(() => {
+    const previous = past[past.length - 1];
+    if (!previous) return;
+    setPast(past.slice(0, -1));
+    setFuture((prev) => [...prev, currentRef.current].slice(-maxHistorySize));
+    setNodes(previous.nodes);
+    setEdges(previous.edges);
+  }, [past, maxHistorySize, setNodes, setEdges]);
+
+  const redo = useCallback(() => {
+    const next = future[future.length - 1];
+    if (!next) return;
+    setFuture(future.slice(0, -1));
+    setPast((prev) => [...prev, currentRef.current].slice(-maxHistorySize));
+    setNodes(next.nodes);
+    setEdges(next.edges);
+  }, [future, maxHistorySize, setNodes, setEdges]);
+
+  // Drop all history, e.g. when another flowchart is loaded
+  const clearHistory = useCallback(() => {
+    transactionRef.current = null;
+    setPast([]);
+    setFuture([]);
+  }, []);
+
+  const getHistory = useCallback((): UndoHistory => ({ past, future }), [past, future]);
+
+  // Bring back history saved with getHistory, e.g. when switching back to a flowchart tab
+  const restoreHistory = useCallback((history: UndoHistory) => {
+    transactionRef.current = null;
+    setPast(history.past);
+    setFuture(history.future);
+  }, []);
+
+  useEffect(() => {
+    if (!enableShortcuts) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [enableShortcuts, undo, redo]);
+
+  return {
+    takeSnapshot,
+    beginTransaction,
+    endTransaction,
+    undo,
+    redo,
+    clearHistory,
+    getHistory,
+    restoreHistory,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+};
+
+interface UndoRedoContextValue {
+  takeSnapshot: () => void;
+}
+
+// Lets custom nodes and the TodoList record history without prop drilling
+export const UndoRedoContext = createContext<UndoRedoContextValue>({ takeSnapshot: () => {} });
+
+export const useHistorySnapshot = () => useContext(UndoRedoContext).takeSnapshot;
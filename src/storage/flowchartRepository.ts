@@ -0,0 +1,62 @@
+import { Node, Edge } from 'reactflow';
+import { STORAGE_PROVIDER, StorageProvider } from '@/config/api';
+import { createNotionRepository } from '@/storage/notionRepository';
+import { createIndexedDbRepository } from '@/storage/indexedDbRepository';
+import { createMemoryRepository } from '@/storage/memoryRepository';
+
+// Entry in the saved flowcharts list
+export interface FlowchartSummary {
+  tag: string;
+  uuid: string;
+  created_time: string;
+}
+
+export interface FlowchartData {
+  uuid: string;
+  tag: string;
+  nodes: Node[];
+  edges: Edge[];
+  // Bumped by every synced save; used with savedAt to notice changes made elsewhere
+  revision?: number;
+  savedAt?: number;
+}
+
+// Rejection of `load` when the flowchart doesn't exist (as opposed to a network or server error)
+export class FlowchartNotFoundError extends Error {
+  constructor(uuid: string) {
+    super(`未找到流程图 ${uuid}`);
+    this.name = 'FlowchartNotFoundError';
+  }
+}
+
+// Storage backend for saved flowcharts. Every method rejects with an Error whose message
+// can be shown to the user.
+export interface FlowchartRepository {
+  provider: StorageProvider;
+  // Whether the user has to log in before using this backend
+  requiresAuth: boolean;
+  list: () => Promise<FlowchartSummary[]>;
+  load: (uuid: string) => Promise<FlowchartData>;
+  save: (data: FlowchartData) => Promise<{ message?: string }>;
+  remove: (uuid: string) => Promise<void>;
+  // Read-only share links, for backends other people can reach. `share` issues a token for a
+  // saved flowchart; `loadShared` opens it without logging in.
+  share?: (uuid: string) => Promise<string>;
+  loadShared?: (token: string) => Promise<Omit<FlowchartData, 'uuid'>>;
+}
+
+const REPOSITORY_FACTORIES: Record<StorageProvider, () => FlowchartRepository> = {
+  notion: createNotionRepository,
+  indexeddb: createIndexedDbRepository,
+  memory: createMemoryRepository,
+};
+
+let repository: FlowchartRepository | null = null;
+
+// The repository chosen by STORAGE_PROVIDER, shared by the whole app
+export const getFlowchartRepository = (): FlowchartRepository => {
+  if (!repository) {
+    repository = REPOSITORY_FACTORIES[STORAGE_PROVIDER]();
+  }
+  return repository;
+};
@@ -0,0 +1,51 @@
+// Minimal promise wrappers around the IndexedDB API
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Open (and create or upgrade) a database; `upgrade` creates the object stores
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> => {
+  if (!isIndexedDbAvailable()) {
+    return Promise.reject(new Error('当前浏览器不支持本地存储 (IndexedDB)'));
+  }
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('本地数据库被其他标签页占用，请关闭其他标签页后重试'));
+  });
+};
+
+// Run `work` in one transaction and resolve with its result once the transaction commits
+export const runTransaction = async <T>(
+  dbPromise: Promise<IDBDatabase>,
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const db = await dbPromise;
+  const transaction = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+  let result: T;
+  try {
+    result = await work(transaction);
+  } catch (error) {
+    done.catch(() => undefined); // The work's error is the one worth reporting
+    throw error;
+  }
+  await done;
+  return result;
+};
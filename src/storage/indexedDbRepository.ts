@@ -0,0 +1,69 @@
+import { FlowchartNotFoundError, type FlowchartData, type FlowchartRepository } from '@/storage/flowchartRepository';
+import { openDatabase, requestToPromise, runTransaction } from '@/storage/indexedDb';
+
+const DB_NAME = 'visual-todoflow';
+const DB_VERSION = 1;
+const FLOWCHART_STORE = 'flowcharts';
+
+interface StoredFlowchart extends FlowchartData {
+  created_time: string;
+  updated_time: string;
+}
+
+// Flowcharts stored only in this browser; works offline and without an account
+export const createIndexedDbRepository = (): FlowchartRepository => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  // Opened on first use so the repository can be created during server rendering
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(FLOWCHART_STORE)) {
+          db.createObjectStore(FLOWCHART_STORE, { keyPath: 'uuid' });
+        }
+      });
+      dbPromise.catch(() => { dbPromise = null; }); // Allow retrying after a failure
+    }
+    return dbPromise;
+  };
+
+  return {
+    provider: 'indexeddb',
+    requiresAuth: false,
+
+    list: () => runTransaction(getDb(), FLOWCHART_STORE, 'readonly', async (transaction) => {
+      const records = await requestToPromise<StoredFlowchart[]>(transaction.objectStore(FLOWCHART_STORE).getAll());
+      return records.map(({ tag, uuid, created_time }) => ({ tag, uuid, created_time }));
+    }),
+
+    load: (uuid) => runTransaction(getDb(), FLOWCHART_STORE, 'readonly', async (transaction) => {
+      const record = await requestToPromise<StoredFlowchart | undefined>(transaction.objectStore(FLOWCHART_STORE).get(uuid));
+      if (!record) throw new FlowchartNotFoundError(uuid);
+      return {
+        uuid: record.uuid,
+        tag: record.tag,
+        nodes: record.nodes,
+        edges: record.edges,
+        revision: record.revision,
+        savedAt: record.savedAt,
+      };
+    }),
+
+    save: (data) => runTransaction(getDb(), FLOWCHART_STORE, 'readwrite', async (transaction) => {
+      const store = transaction.objectStore(FLOWCHART_STORE);
+      const existing = await requestToPromise<StoredFlowchart | undefined>(store.get(data.uuid));
+      const now = new Date().toISOString();
+      // Plain JSON copy; React Flow state may hold values IndexedDB can't clone
+      const record: StoredFlowchart = {
+        ...JSON.parse(JSON.stringify(data)),
+        created_time: existing?.created_time || now,
+        updated_time: now,
+      };
+      await requestToPromise(store.put(record));
+      return { message: '已保存到本地' };
+    }),
+
+    remove: (uuid) => runTransaction(getDb(), FLOWCHART_STORE, 'readwrite', async (transaction) => {
+      await requestToPromise(transaction.objectStore(FLOWCHART_STORE).delete(uuid));
+    }),
+  };
+};
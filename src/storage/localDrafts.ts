@@ -0,0 +1,126 @@
+import { Node, Edge } from 'reactflow';
+
+// Unsaved changes are cached in localStorage per flowchart uuid, independent of the storage backend
+
+export const LOCAL_STORAGE_PREFIX = 'visual-todoflow:';
+
+export const saveToLocalStorage = (uuid: string, data: { nodes: Node[], edges: Edge[], tag: string }) => {
+  if (!uuid) return; // Don't save if UUID is missing
+  try {
+    const dataToStore = {
+      ...data,
+      savedAt: Date.now() // Add timestamp
+    };
+    localStorage.setItem(`${LOCAL_STORAGE_PREFIX}${uuid}`, JSON.stringify(dataToStore));
+    // console.log(`Saved to LS: ${uuid}`);
+  } catch (error) {
+    console.error("Failed to save to local storage:", error);
+    // Optionally, inform the user or implement more robust error handling
+  }
+};
+
+export const loadFromLocalStorage = (uuid: string): { nodes: Node[], edges: Edge[], tag: string, savedAt?: number } | null => {
+  if (!uuid) return null;
+  try {
+    const item = localStorage.getItem(`${LOCAL_STORAGE_PREFIX}${uuid}`);
+    // console.log(`Attempted load from LS: ${uuid}, Found: ${!!item}`);
+    if (!item) return null;
+    const parsedData = JSON.parse(item);
+    // Basic check if it looks like our data (can be improved)
+    // Check for timestamp existence as part of validation now
+    if (parsedData && typeof parsedData === 'object' && ('nodes' in parsedData || 'edges' in parsedData) && 'savedAt' in parsedData) {
+      return parsedData;
+    }
+    // If data is invalid or old format without timestamp, treat as null and remove
+    console.warn("Invalid or old format data found in local storage for:", uuid);
+    localStorage.removeItem(`${LOCAL_STORAGE_PREFIX}${uuid}`);
+    return null;
+
+  } catch (error) {
+    console.error("Failed to load from local storage:", error);
+    localStorage.removeItem(`${LOCAL_STORAGE_PREFIX}${uuid}`); // Clear corrupted item
+    return null;
+  }
+};
+
+export const clearFromLocalStorage = (uuid: string) => {
+  if (!uuid) return;
+  try {
+    localStorage.removeItem(`${LOCAL_STORAGE_PREFIX}${uuid}`);
+    // console.log(`Cleared from LS: ${uuid}`);
+  } catch (error) {
+    console.error("Failed to clear from local storage:", error);
+  }
+};
+
+// --- Local Storage Cleanup ---
+const CLEANUP_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
+
+export const cleanupLocalStorage = () => {
+  const now = Date.now();
+  let itemsRemoved = 0;
+  try {
+    // Iterate safely over keys
+    const keysToRemove: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(LOCAL_STORAGE_PREFIX)) {
+        const item = localStorage.getItem(key);
+        if (item) {
+          try {
+            const parsedData = JSON.parse(item);
+            // Check if it has a timestamp and if it's older than the interval
+            if (parsedData.savedAt && (now - parsedData.savedAt > CLEANUP_INTERVAL_MS)) {
+              keysToRemove.push(key);
+            } else if (!parsedData.savedAt) {
+              // Also remove items without a timestamp (old format)
+              console.log(`Removing old format LS item (no timestamp): ${key}`);
+              keysToRemove.push(key);
+            }
+          } catch (parseError) {
+            // If parsing fails, it might be corrupted, remove it
+            console.warn(`Removing potentially corrupted LS item: ${key}`, parseError);
+            keysToRemove.push(key);
+          }
+        } else {
+          // If key exists but item is null/undefined somehow, mark for removal
+          keysToRemove.push(key);
+        }
+      }
+    }
+
+    // Remove identified keys
+    keysToRemove.forEach(key => {
+      localStorage.removeItem(key);
+      itemsRemoved++;
+    });
+
+    if (itemsRemoved > 0) {
+      console.log(`Local storage cleanup removed ${itemsRemoved} old or invalid item(s).`);
+    }
+  } catch (error) {
+    console.error("Error during local storage cleanup:", error);
+  }
+};
+
+// --- Draft of a flowchart that has never been saved ---
+const NEW_FLOWCHART_KEY = `${LOCAL_STORAGE_PREFIX}new`;
+
+export const saveNewFlowchartDraft = (data: { nodes: Node[], edges: Edge[], tag: string }) => {
+  localStorage.setItem(NEW_FLOWCHART_KEY, JSON.stringify(data));
+};
+
+export const loadNewFlowchartDraft = (): { nodes: Node[], edges: Edge[], tag: string } | null => {
+  const unsavedData = localStorage.getItem(NEW_FLOWCHART_KEY);
+  if (!unsavedData) return null;
+  try {
+    return JSON.parse(unsavedData);
+  } catch (error) {
+    console.error("Failed to load unsaved changes:", error);
+    return null;
+  }
+};
+
+export const clearNewFlowchartDraft = () => {
+  localStorage.removeItem(NEW_FLOWCHART_KEY);
+};
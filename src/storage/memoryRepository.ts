@@ -0,0 +1,38 @@
+import { FlowchartNotFoundError, type FlowchartData, type FlowchartRepository, type FlowchartSummary } from '@/storage/flowchartRepository';
+
+// Flowcharts kept in memory for the lifetime of the page, for tests and demos
+export const createMemoryRepository = (initial: FlowchartData[] = []): FlowchartRepository => {
+  const records = new Map<string, { data: FlowchartData; created_time: string }>();
+  // Copies keep callers from mutating stored state
+  const clone = (data: FlowchartData): FlowchartData => JSON.parse(JSON.stringify(data));
+  initial.forEach(data => records.set(data.uuid, { data: clone(data), created_time: new Date().toISOString() }));
+
+  return {
+    provider: 'memory',
+    requiresAuth: false,
+
+    list: async () => Array.from(records.values()).map<FlowchartSummary>(({ data, created_time }) => ({
+      tag: data.tag,
+      uuid: data.uuid,
+      created_time,
+    })),
+
+    load: async (uuid) => {
+      const record = records.get(uuid);
+      if (!record) throw new FlowchartNotFoundError(uuid);
+      return clone(record.data);
+    },
+
+    save: async (data) => {
+      records.set(data.uuid, {
+        data: clone(data),
+        created_time: records.get(data.uuid)?.created_time || new Date().toISOString(),
+      });
+      return { message: '保存成功!' };
+    },
+
+    remove: async (uuid) => {
+      records.delete(uuid);
+    },
+  };
+};
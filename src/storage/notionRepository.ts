@@ -0,0 +1,90 @@
+import { API_ENDPOINTS, getAuthHeaders } from '@/config/api';
+import { FlowchartNotFoundError, type FlowchartRepository, type FlowchartSummary } from '@/storage/flowchartRepository';
+
+// Read the JSON body of an API response, turning failures into errors with the server's message
+const readJson = async (response: Response, fallbackError: string) => {
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `${fallbackError}: ${response.status}`);
+  }
+  return result;
+};
+
+// Flowcharts stored in the user's Notion database through the backend API
+export const createNotionRepository = (): FlowchartRepository => ({
+  provider: 'notion',
+  requiresAuth: true,
+
+  list: async () => {
+    const response = await fetch(API_ENDPOINTS.notionListTags, {
+      headers: getAuthHeaders(),
+    });
+    const data = await readJson(response, '获取标签列表失败');
+    return (data.flowcharts || []) as FlowchartSummary[];
+  },
+
+  load: async (uuid) => {
+    const response = await fetch(API_ENDPOINTS.notionLoad, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ uuid }),
+    });
+    if (response.status === 404) throw new FlowchartNotFoundError(uuid);
+    const data = await readJson(response, '加载流程图失败');
+    return {
+      uuid: data.uuid || uuid,
+      tag: data.tag,
+      nodes: data.nodes || [],
+      edges: data.edges || [],
+      revision: typeof data.revision === 'number' ? data.revision : undefined,
+      savedAt: typeof data.savedAt === 'number' ? data.savedAt : undefined,
+    };
+  },
+
+  save: async ({ uuid, tag, nodes, edges, revision, savedAt }) => {
+    const response = await fetch(API_ENDPOINTS.notionSave, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ nodes, edges, tag, uuid, revision, savedAt }),
+    });
+    const result = await readJson(response, '服务器错误');
+    return { message: result.message };
+  },
+
+  remove: async (uuid) => {
+    const response = await fetch(API_ENDPOINTS.notionDelete, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ uuid }),
+    });
+    await readJson(response, '服务器错误');
+  },
+
+  share: async (uuid) => {
+    const response = await fetch(API_ENDPOINTS.notionShare, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ uuid }),
+    });
+    const result = await readJson(response, '生成分享链接失败');
+    if (typeof result.token !== 'string') throw new Error('服务器没有返回分享令牌');
+    return result.token;
+  },
+
+  // Public endpoint: no auth header, the token is the permission
+  loadShared: async (token) => {
+    const response = await fetch(API_ENDPOINTS.notionShared, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    });
+    if (response.status === 404) throw new Error('分享链接无效或已被取消');
+    const data = await readJson(response, '加载分享的流程图失败');
+    return {
+      tag: data.tag,
+      nodes: data.nodes || [],
+      edges: data.edges || [],
+      savedAt: typeof data.savedAt === 'number' ? data.savedAt : undefined,
+    };
+  },
+});
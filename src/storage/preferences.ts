@@ -0,0 +1,28 @@
+import { Keymap, normalizeKeymap } from '@/utils/keymap';
+
+// Per-browser editor settings. Kept outside the draft prefix so draft cleanup leaves them alone.
+const PREFERENCES_KEY = 'visual-todoflow-preferences';
+
+export interface Preferences {
+  keymap: Keymap;
+}
+
+export const loadPreferences = (): Preferences => {
+  try {
+    const item = localStorage.getItem(PREFERENCES_KEY);
+    const parsed = item ? JSON.parse(item) : {};
+    return { keymap: normalizeKeymap(parsed?.keymap) };
+  } catch (error) {
+    // Also reached during server rendering, where there is no localStorage
+    if (typeof window !== 'undefined') console.error("Failed to read preferences:", error);
+    return { keymap: normalizeKeymap(null) };
+  }
+};
+
+export const savePreferences = (preferences: Preferences) => {
+  try {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error("Failed to write preferences:", error);
+  }
+};
@@ -0,0 +1,127 @@
+import type { FlowchartData } from '@/storage/flowchartRepository';
+import { openDatabase, requestToPromise, runTransaction } from '@/storage/indexedDb';
+import { diffFlowContent } from '@/utils/flowMerge';
+
+// Kept in its own database so history works with every storage provider, including offline
+const DB_NAME = 'visual-todoflow-history';
+const DB_VERSION = 1;
+const REVISION_STORE = 'revisions';
+const UUID_INDEX = 'uuid';
+// Oldest revisions beyond this are dropped when a new one is added
+const MAX_REVISIONS_PER_FLOWCHART = 100;
+
+export interface RevisionSummary {
+  addedNodes: number;
+  removedNodes: number;
+  changedNodes: number;
+  addedEdges: number;
+  removedEdges: number;
+}
+
+export interface FlowchartRevision {
+  id: number;
+  uuid: string;
+  tag: string;
+  nodes: FlowchartData['nodes'];
+  edges: FlowchartData['edges'];
+  savedAt: number;
+  // Changes compared with the previous revision
+  summary: RevisionSummary;
+  // Id of the revision this one restored, if any
+  restoredFrom?: number;
+}
+
+// Revision without its content, for listing
+export type FlowchartRevisionInfo = Omit<FlowchartRevision, 'nodes' | 'edges'>;
+
+export interface RevisionHistory {
+  add: (data: FlowchartData, options?: { restoredFrom?: number }) => Promise<FlowchartRevisionInfo>;
+  // Newest first
+  list: (uuid: string) => Promise<FlowchartRevisionInfo[]>;
+  get: (id: number) => Promise<FlowchartRevision | null>;
+  removeAll: (uuid: string) => Promise<void>;
+}
+
+const toInfo = (revision: FlowchartRevision): FlowchartRevisionInfo => {
+  const info: Partial<FlowchartRevision> = { ...revision };
+  delete info.nodes;
+  delete info.edges;
+  return info as FlowchartRevisionInfo;
+};
+
+const getRevisionsOf = (store: IDBObjectStore, uuid: string) =>
+  requestToPromise<FlowchartRevision[]>(store.index(UUID_INDEX).getAll(uuid));
+
+// Every save of a flowchart, kept as a snapshot in this browser
+export const createRevisionHistory = (): RevisionHistory => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  // Opened on first use so the history can be created during server rendering
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(REVISION_STORE)) {
+          const store = db.createObjectStore(REVISION_STORE, { keyPath: 'id', autoIncrement: true });
+          store.createIndex(UUID_INDEX, 'uuid');
+        }
+      });
+      dbPromise.catch(() => { dbPromise = null; }); // Allow retrying after a failure
+    }
+    return dbPromise;
+  };
+
+  return {
+    add: (data, options = {}) => runTransaction(getDb(), REVISION_STORE, 'readwrite', async (transaction) => {
+      const store = transaction.objectStore(REVISION_STORE);
+      const revisions = await getRevisionsOf(store, data.uuid); // Ascending by id, oldest first
+      const previous = revisions[revisions.length - 1];
+      const diff = diffFlowContent(previous ?? null, data);
+      // Plain JSON copy; React Flow state may hold values IndexedDB can't clone
+      const { nodes, edges } = JSON.parse(JSON.stringify({ nodes: data.nodes, edges: data.edges }));
+      const record: Omit<FlowchartRevision, 'id'> = {
+        uuid: data.uuid,
+        tag: data.tag,
+        nodes,
+        edges,
+        savedAt: data.savedAt ?? Date.now(),
+        summary: {
+          addedNodes: diff.addedNodes.length,
+          removedNodes: diff.removedNodes.length,
+          changedNodes: diff.changedNodes.length,
+          addedEdges: diff.addedEdges.length,
+          removedEdges: diff.removedEdges.length,
+        },
+        ...(options.restoredFrom !== undefined ? { restoredFrom: options.restoredFrom } : {}),
+      };
+      const id = await requestToPromise(store.add(record)) as number;
+      const excess = revisions.length + 1 - MAX_REVISIONS_PER_FLOWCHART;
+      await Promise.all(revisions.slice(0, Math.max(0, excess)).map(old => requestToPromise(store.delete(old.id))));
+      return toInfo({ ...record, id });
+    }),
+
+    list: (uuid) => runTransaction(getDb(), REVISION_STORE, 'readonly', async (transaction) => {
+      const revisions = await getRevisionsOf(transaction.objectStore(REVISION_STORE), uuid);
+      return revisions.reverse().map(toInfo);
+    }),
+
+    get: (id) => runTransaction(getDb(), REVISION_STORE, 'readonly', async (transaction) => {
+      const revision = await requestToPromise<FlowchartRevision | undefined>(transaction.objectStore(REVISION_STORE).get(id));
+      return revision ?? null;
+    }),
+
+    removeAll: (uuid) => runTransaction(getDb(), REVISION_STORE, 'readwrite', async (transaction) => {
+      const store = transaction.objectStore(REVISION_STORE);
+      const revisions = await getRevisionsOf(store, uuid);
+      await Promise.all(revisions.map(revision => requestToPromise(store.delete(revision.id))));
+    }),
+  };
+};
+
+let revisionHistory: RevisionHistory | null = null;
+
+// History shared by the whole app
+export const getRevisionHistory = (): RevisionHistory => {
+  if (!revisionHistory) {
+    revisionHistory = createRevisionHistory();
+  }
+  return revisionHistory;
+};
@@ -0,0 +1,86 @@
+import type { FlowchartData } from '@/storage/flowchartRepository';
+import { openDatabase, requestToPromise, runTransaction } from '@/storage/indexedDb';
+import { SearchEntry, SearchHit, getSearchEntries, getSearchTerms, matchSearchEntry } from '@/utils/flowSearch';
+
+// Kept in its own database so search works with every storage provider
+const DB_NAME = 'visual-todoflow-search';
+const DB_VERSION = 1;
+const DOCUMENT_STORE = 'documents';
+const DEFAULT_RESULT_LIMIT = 200;
+
+// Searchable text of one flowchart, replaced whenever it is loaded or saved
+interface IndexedFlowchart {
+  uuid: string;
+  tag: string;
+  entries: SearchEntry[];
+  indexedAt: number;
+}
+
+export interface SearchIndex {
+  put: (data: Pick<FlowchartData, 'uuid' | 'tag' | 'nodes'>) => Promise<void>;
+  remove: (uuid: string) => Promise<void>;
+  // Most recently indexed flowcharts first
+  search: (query: string, limit?: number) => Promise<SearchHit[]>;
+  // Flowcharts present in the index, to find the ones still missing
+  listIndexed: () => Promise<string[]>;
+}
+
+// Full-text index over the flowcharts opened or saved in this browser
+export const createSearchIndex = (): SearchIndex => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  // Opened on first use so the index can be created during server rendering
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(DOCUMENT_STORE)) {
+          db.createObjectStore(DOCUMENT_STORE, { keyPath: 'uuid' });
+        }
+      });
+      dbPromise.catch(() => { dbPromise = null; }); // Allow retrying after a failure
+    }
+    return dbPromise;
+  };
+
+  return {
+    put: (data) => runTransaction(getDb(), DOCUMENT_STORE, 'readwrite', async (transaction) => {
+      const record: IndexedFlowchart = { uuid: data.uuid, tag: data.tag, entries: getSearchEntries(data), indexedAt: Date.now() };
+      await requestToPromise(transaction.objectStore(DOCUMENT_STORE).put(record));
+    }),
+
+    remove: (uuid) => runTransaction(getDb(), DOCUMENT_STORE, 'readwrite', async (transaction) => {
+      await requestToPromise(transaction.objectStore(DOCUMENT_STORE).delete(uuid));
+    }),
+
+    search: (query, limit = DEFAULT_RESULT_LIMIT) => runTransaction(getDb(), DOCUMENT_STORE, 'readonly', async (transaction) => {
+      const terms = getSearchTerms(query);
+      if (terms.length === 0) return [];
+      const records = await requestToPromise<IndexedFlowchart[]>(transaction.objectStore(DOCUMENT_STORE).getAll());
+      const hits: SearchHit[] = [];
+      records.sort((a, b) => b.indexedAt - a.indexedAt);
+      for (const record of records) {
+        for (const entry of record.entries) {
+          const match = matchSearchEntry(entry, terms);
+          if (!match) continue;
+          hits.push({ ...entry, ...match, uuid: record.uuid, tag: record.tag });
+          if (hits.length >= limit) return hits;
+        }
+      }
+      return hits;
+    }),
+
+    listIndexed: () => runTransaction(getDb(), DOCUMENT_STORE, 'readonly', async (transaction) => {
+      const keys = await requestToPromise(transaction.objectStore(DOCUMENT_STORE).getAllKeys());
+      return keys.map(String);
+    }),
+  };
+};
+
+let searchIndex: SearchIndex | null = null;
+
+// Index shared by the whole app
+export const getSearchIndex = (): SearchIndex => {
+  if (!searchIndex) {
+    searchIndex = createSearchIndex();
+  }
+  return searchIndex;
+};
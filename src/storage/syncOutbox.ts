@@ -0,0 +1,79 @@
+import type { FlowchartData } from '@/storage/flowchartRepository';
+import { isSameFlowContent } from '@/utils/flowData';
+
+// Saves and deletes waiting to reach the storage backend, persisted in localStorage so they
+// survive reloads while offline. Kept outside the draft prefix so draft cleanup leaves them alone.
+const OUTBOX_KEY = 'visual-todoflow-outbox';
+// Last version of each flowchart known to match the backend, the base for conflict checks
+const SYNC_BASE_PREFIX = 'visual-todoflow-sync:';
+
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+export type OutboxEntry =
+  | { kind: 'save'; uuid: string; data: FlowchartData; queuedAt: number; attempts: number; nextAttemptAt: number; lastError?: string; conflict?: boolean }
+  | { kind: 'delete'; uuid: string; tag: string; queuedAt: number; attempts: number; nextAttemptAt: number; lastError?: string; conflict?: boolean };
+
+export const loadOutbox = (): OutboxEntry[] => {
+  try {
+    const item = localStorage.getItem(OUTBOX_KEY);
+    const parsed = item ? JSON.parse(item) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Failed to read sync outbox:", error);
+    return [];
+  }
+};
+
+export const saveOutbox = (entries: OutboxEntry[]) => {
+  try {
+    if (entries.length === 0) {
+      localStorage.removeItem(OUTBOX_KEY);
+    } else {
+      localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+    }
+  } catch (error) {
+    console.error("Failed to write sync outbox:", error);
+  }
+};
+
+// Add an entry, replacing anything already queued for the same flowchart: only the latest
+// save matters, and a delete makes earlier saves pointless
+export const enqueueOutboxEntry = (entries: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] =>
+  entries.filter(existing => existing.uuid !== entry.uuid).concat(entry);
+
+// Exponential backoff with jitter: ~2s, 4s, 8s ... capped at 5 minutes
+export const getRetryDelay = (attempts: number) => {
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+export const getSyncBase = (uuid: string): FlowchartData | null => {
+  try {
+    const item = localStorage.getItem(`${SYNC_BASE_PREFIX}${uuid}`);
+    return item ? JSON.parse(item) : null;
+  } catch (error) {
+    console.error("Failed to read sync base:", error);
+    return null;
+  }
+};
+
+export const setSyncBase = (uuid: string, data: FlowchartData | null) => {
+  try {
+    if (data) {
+      localStorage.setItem(`${SYNC_BASE_PREFIX}${uuid}`, JSON.stringify(data));
+    } else {
+      localStorage.removeItem(`${SYNC_BASE_PREFIX}${uuid}`);
+    }
+  } catch (error) {
+    console.error("Failed to write sync base:", error);
+  }
+};
+
+// Whether the backend copy changed since the base. Revisions are compared when both sides have
+// one; backends that don't keep revisions fall back to comparing content.
+export const hasRemoteChangedSinceBase = (data: FlowchartData, base: FlowchartData | null) => {
+  if (!base) return true;
+  if (data.revision !== undefined && base.revision !== undefined) return data.revision !== base.revision;
+  return !isSameFlowContent(data, base);
+};
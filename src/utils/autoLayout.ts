@@ -0,0 +1,180 @@
+import { Node, Edge, XYPosition } from 'reactflow';
+import { getOrderedTasks, findCycles } from '@/utils/taskGraph';
+
+export type LayoutDirection = 'TB' | 'LR';
+
+interface LayoutOptions {
+  direction: LayoutDirection;
+  nodeSpacing?: number; // Gap between nodes in the same layer
+  layerSpacing?: number; // Gap between consecutive layers
+  sweeps?: number; // Crossing reduction passes
+  maxIsolatedPerRow?: number; // Unconnected nodes are wrapped into rows of this size
+}
+
+export interface LayoutResult {
+  positions: Map<string, XYPosition>;
+  edges: Edge[];
+}
+
+// Fallback size for nodes React Flow hasn't measured yet
+const DEFAULT_NODE_WIDTH = 200;
+const DEFAULT_NODE_HEIGHT = 80;
+// Placeholder inserted where an edge skips a layer
+const DUMMY_SIZE = 20;
+
+// Handle ids exposed by every custom node component
+const LAYOUT_HANDLES: Record<LayoutDirection, { sourceHandle: string; targetHandle: string }> = {
+  TB: { sourceHandle: 'bottom-source', targetHandle: 'top-target' },
+  LR: { sourceHandle: 'right-source', targetHandle: 'left-target' },
+};
+
+// Number of edge crossings between two adjacent layers
+const countCrossings = (upper: string[], lower: string[], down: Map<string, string[]>) => {
+  const lowerIndex = new Map(lower.map((id, index) => [id, index]));
+  const segments: Array<[number, number]> = [];
+  upper.forEach((id, index) => {
+    (down.get(id) || []).forEach(target => {
+      const targetIndex = lowerIndex.get(target);
+      if (targetIndex !== undefined) segments.push([index, targetIndex]);
+    });
+  });
+  let crossings = 0;
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      const [a1, b1] = segments[i];
+      const [a2, b2] = segments[j];
+      if ((a1 - a2) * (b1 - b2) < 0) crossings++;
+    }
+  }
+  return crossings;
+};
+
+const countAllCrossings = (layers: string[][], down: Map<string, string[]>) =>
+  layers.slice(0, -1).reduce((sum, layer, index) => sum + countCrossings(layer, layers[index + 1], down), 0);
+
+// Reorder one layer by the average position of each node's neighbours in the fixed layer
+const sortByBarycenter = (layer: string[], fixed: string[], neighbours: Map<string, string[]>) => {
+  const fixedIndex = new Map(fixed.map((id, index) => [id, index]));
+  const weights = new Map<string, number>();
+  layer.forEach((id, index) => {
+    const positions = (neighbours.get(id) || [])
+      .map(n => fixedIndex.get(n))
+      .filter((p): p is number => p !== undefined);
+    // Nodes without neighbours keep their current slot
+    weights.set(id, positions.length > 0 ? positions.reduce((a, b) => a + b, 0) / positions.length : index);
+  });
+  return [...layer].sort((a, b) => weights.get(a)! - weights.get(b)!);
+};
+
+// Layered (Sugiyama-style) layout: longest-path layering, dummy nodes for long edges,
+// barycenter crossing reduction, then layers are centred on the cross axis.
+export const computeLayeredLayout = (nodes: Node[], edges: Edge[], options: LayoutOptions): LayoutResult => {
+  const {
+    direction,
+    nodeSpacing = 60,
+    layerSpacing = 100,
+    sweeps = 8,
+    maxIsolatedPerRow = 6,
+  } = options;
+  const isVertical = direction === 'TB';
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  const validEdges = edges.filter(edge => nodeMap.has(edge.source) && nodeMap.has(edge.target));
+  const cyclicEdgeIds = new Set(findCycles(nodes, edges).flatMap(cycle => cycle.edgeIds));
+  const layoutEdges = validEdges.filter(edge => !cyclicEdgeIds.has(edge.id) && edge.source !== edge.target);
+  const connectedIds = new Set(validEdges.flatMap(edge => [edge.source, edge.target]));
+
+  // 1. Longest-path layering in topological order
+  const predecessors = new Map<string, string[]>();
+  layoutEdges.forEach(edge => {
+    if (!predecessors.has(edge.target)) predecessors.set(edge.target, []);
+    predecessors.get(edge.target)!.push(edge.source);
+  });
+  const layerOf = new Map<string, number>();
+  const ordered = getOrderedTasks(nodes, edges);
+  ordered.filter(node => connectedIds.has(node.id)).forEach(node => {
+    const layer = (predecessors.get(node.id) || []).reduce((max, id) => Math.max(max, (layerOf.get(id) ?? 0) + 1), 0);
+    layerOf.set(node.id, layer);
+  });
+
+  // Unconnected nodes go into trailing rows so they don't stretch the first layer
+  const firstIsolatedLayer = layerOf.size > 0 ? Math.max(...Array.from(layerOf.values())) + 1 : 0;
+  ordered.filter(node => !connectedIds.has(node.id)).forEach((node, index) => {
+    layerOf.set(node.id, firstIsolatedLayer + Math.floor(index / maxIsolatedPerRow));
+  });
+
+  const layerCount = layerOf.size > 0 ? Math.max(...Array.from(layerOf.values())) + 1 : 0;
+  const layers: string[][] = Array.from({ length: layerCount }, () => []);
+  ordered.forEach(node => layers[layerOf.get(node.id)!].push(node.id));
+
+  // 2. Split edges spanning several layers with dummy nodes
+  const down = new Map<string, string[]>();
+  const up = new Map<string, string[]>();
+  const link = (from: string, to: string) => {
+    if (!down.has(from)) down.set(from, []);
+    if (!up.has(to)) up.set(to, []);
+    down.get(from)!.push(to);
+    up.get(to)!.push(from);
+  };
+  layoutEdges.forEach(edge => {
+    const sourceLayer = layerOf.get(edge.source)!;
+    const targetLayer = layerOf.get(edge.target)!;
+    let previous = edge.source;
+    for (let layer = sourceLayer + 1; layer < targetLayer; layer++) {
+      const dummyId = `__dummy:${edge.id}:${layer}`;
+      layers[layer].push(dummyId);
+      link(previous, dummyId);
+      previous = dummyId;
+    }
+    link(previous, edge.target);
+  });
+
+  // 3. Crossing reduction, keeping the best ordering seen
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = countAllCrossings(best, down);
+  let current = best.map(layer => [...layer]);
+  for (let sweep = 0; sweep < sweeps && bestCrossings > 0; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let i = 1; i < current.length; i++) current[i] = sortByBarycenter(current[i], current[i - 1], up);
+    } else {
+      for (let i = current.length - 2; i >= 0; i--) current[i] = sortByBarycenter(current[i], current[i + 1], down);
+    }
+    const crossings = countAllCrossings(current, down);
+    if (crossings < bestCrossings) {
+      best = current.map(layer => [...layer]);
+      bestCrossings = crossings;
+    }
+    current = current.map(layer => [...layer]);
+  }
+
+  // 4. Coordinates: layers stack along the main axis, each layer is centred on the cross axis
+  const sizeOf = (id: string) => {
+    const node = nodeMap.get(id);
+    if (!node) return { width: DUMMY_SIZE, height: DUMMY_SIZE };
+    return { width: node.width ?? DEFAULT_NODE_WIDTH, height: node.height ?? DEFAULT_NODE_HEIGHT };
+  };
+  const crossSize = (id: string) => (isVertical ? sizeOf(id).width : sizeOf(id).height);
+  const mainSize = (id: string) => (isVertical ? sizeOf(id).height : sizeOf(id).width);
+
+  const positions = new Map<string, XYPosition>();
+  let mainOffset = 0;
+  best.forEach(layer => {
+    const total = layer.reduce((sum, id) => sum + crossSize(id), 0) + nodeSpacing * Math.max(0, layer.length - 1);
+    let crossOffset = -total / 2;
+    const thickness = Math.max(0, ...layer.map(mainSize));
+    layer.forEach(id => {
+      if (nodeMap.has(id)) {
+        // Centre each node within the layer's thickness
+        const main = mainOffset + (thickness - mainSize(id)) / 2;
+        positions.set(id, isVertical ? { x: crossOffset, y: main } : { x: main, y: crossOffset });
+      }
+      crossOffset += crossSize(id) + nodeSpacing;
+    });
+    mainOffset += thickness + layerSpacing;
+  });
+
+  const handles = LAYOUT_HANDLES[direction];
+  return {
+    positions,
+    edges: edges.map(edge => (validEdges.includes(edge) ? { ...edge, ...handles } : edge)),
+  };
+};
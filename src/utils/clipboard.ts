@@ -0,0 +1,130 @@
+import { Node, Edge, XYPosition } from 'reactflow';
+import { isRecord, isFiniteNumber, toStoredNode, toStoredEdge, getEdgeId } from '@/utils/flowData';
+import { normalizeParentNodes, getAbsolutePosition } from '@/utils/taskGroups';
+
+// Copied subgraphs travel through the system clipboard as JSON tagged with this format
+export const CLIPBOARD_FORMAT = 'visual-todoflow/subgraph';
+export const CLIPBOARD_VERSION = 1;
+
+export interface ClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+  nodes: Node[];
+  edges: Edge[];
+}
+
+export type ParseClipboardResult =
+  | { ok: true; payload: ClipboardPayload }
+  | { ok: false; error: string };
+
+// Build a payload from the given nodes plus every edge running between two of them
+export const createClipboardPayload = (nodes: Node[], edges: Edge[], nodeIds: Set<string>): ClipboardPayload => {
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  return {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    nodes: nodes
+      .filter(node => nodeIds.has(node.id))
+      .map(node => {
+        if (!node.parentNode || nodeIds.has(node.parentNode)) return toStoredNode(node);
+        // Copied without its group: store where it is on the canvas instead
+        const stored = toStoredNode({ ...node, position: getAbsolutePosition(node, nodeMap) });
+        delete stored.parentNode;
+        return stored;
+      }),
+    edges: edges.filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target)).map(toStoredEdge),
+  };
+};
+
+// Check untrusted clipboard text before any of it reaches editor state
+export const parseClipboardPayload = (text: string, allowedNodeTypes: string[]): ParseClipboardResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: '剪贴板内容不是流程图数据' };
+  }
+
+  if (!isRecord(raw) || raw.format !== CLIPBOARD_FORMAT) {
+    return { ok: false, error: '剪贴板内容不是流程图数据' };
+  }
+  if (!isFiniteNumber(raw.version) || raw.version > CLIPBOARD_VERSION) {
+    return { ok: false, error: '剪贴板数据来自更新的版本，无法粘贴' };
+  }
+  if (!Array.isArray(raw.nodes) || !Array.isArray(raw.edges)) {
+    return { ok: false, error: '剪贴板数据缺少节点或连线' };
+  }
+
+  const nodes: Node[] = [];
+  const nodeIds = new Set<string>();
+  for (const item of raw.nodes) {
+    if (!isRecord(item) || typeof item.id !== 'string' || nodeIds.has(item.id)) {
+      return { ok: false, error: '剪贴板中的节点 ID 无效' };
+    }
+    if (typeof item.type !== 'string' || !allowedNodeTypes.includes(item.type)) {
+      return { ok: false, error: `不支持的节点类型: ${String(item.type)}` };
+    }
+    if (!isRecord(item.position) || !isFiniteNumber(item.position.x) || !isFiniteNumber(item.position.y)) {
+      return { ok: false, error: `节点 ${item.id} 的位置无效` };
+    }
+    if (!isRecord(item.data)) {
+      return { ok: false, error: `节点 ${item.id} 缺少数据` };
+    }
+    nodeIds.add(item.id);
+    nodes.push(toStoredNode(item as unknown as Node));
+  }
+
+  if (nodes.length === 0) {
+    return { ok: false, error: '剪贴板中没有节点' };
+  }
+
+  const edges: Edge[] = [];
+  for (const item of raw.edges) {
+    if (!isRecord(item) || typeof item.id !== 'string' || typeof item.source !== 'string' || typeof item.target !== 'string') {
+      return { ok: false, error: '剪贴板中的连线无效' };
+    }
+    // Edges pointing outside the copied nodes are dropped rather than rejected
+    if (nodeIds.has(item.source) && nodeIds.has(item.target)) {
+      edges.push(toStoredEdge(item as unknown as Edge));
+    }
+  }
+
+  return { ok: true, payload: { format: CLIPBOARD_FORMAT, version: CLIPBOARD_VERSION, nodes, edges } };
+};
+
+// Give pasted nodes/edges fresh ids and move the group so its top-left corner sits at `anchor`
+export const instantiateClipboardPayload = (
+  payload: ClipboardPayload,
+  getId: () => string,
+  anchor: XYPosition
+): { nodes: Node[]; edges: Edge[] } => {
+  // Subtasks copied with their group stay inside the pasted group; the others are pasted on their own
+  const { nodes: copiedNodes } = normalizeParentNodes(payload.nodes);
+  const topLevelNodes = copiedNodes.filter(node => !node.parentNode);
+  const minX = Math.min(...topLevelNodes.map(node => node.position.x));
+  const minY = Math.min(...topLevelNodes.map(node => node.position.y));
+  const idMap = new Map<string, string>();
+  copiedNodes.forEach(node => idMap.set(node.id, getId()));
+
+  const nodes = copiedNodes.map(node => node.parentNode
+    ? { ...node, id: idMap.get(node.id)!, parentNode: idMap.get(node.parentNode) }
+    : {
+      ...node,
+      id: idMap.get(node.id)!,
+      position: { x: anchor.x + node.position.x - minX, y: anchor.y + node.position.y - minY },
+      selected: true, // Select pasted nodes so they can be moved together right away
+    });
+
+  const edges = payload.edges.map(edge => {
+    const source = idMap.get(edge.source)!;
+    const target = idMap.get(edge.target)!;
+    return {
+      ...edge,
+      id: getEdgeId({ ...edge, source, target }),
+      source,
+      target,
+    };
+  });
+
+  return { nodes, edges };
+};
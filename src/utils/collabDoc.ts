@@ -0,0 +1,150 @@
+import * as Y from 'yjs';
+import { Node, Edge } from 'reactflow';
+import { isRecord, toStoredNode, toStoredEdge } from '@/utils/flowData';
+import { getTextSplice } from '@/utils/textMerge';
+
+// Layout of the shared document:
+//   nodes: Y.Map<id, Y.Map>  one map per node with its stored fields; `data` is a nested Y.Map
+//                            so different keys (text, completed, ...) merge independently, and
+//                            `data.text` is a Y.Text so concurrent typing merges by character
+//   edges: Y.Map<id, Edge>   plain edge objects; edges are only ever added or removed
+//   meta:  Y.Map             `tag`
+const NODES_KEY = 'nodes';
+const EDGES_KEY = 'edges';
+const META_KEY = 'meta';
+const TEXT_FIELDS = new Set(['text']);
+
+export interface CollabFlow {
+  tag: string;
+  nodes: Node[];
+  edges: Edge[];
+}
+
+const getNodesMap = (doc: Y.Doc) => doc.getMap<Y.Map<unknown>>(NODES_KEY);
+const getEdgesMap = (doc: Y.Doc) => doc.getMap<Edge>(EDGES_KEY);
+const getMetaMap = (doc: Y.Doc) => doc.getMap<unknown>(META_KEY);
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const updateText = (text: Y.Text, value: string) => {
+  const splice = getTextSplice(text.toString(), value);
+  if (splice.deleteCount > 0) text.delete(splice.index, splice.deleteCount);
+  if (splice.insert) text.insert(splice.index, splice.insert);
+};
+
+const writeDataField = (data: Y.Map<unknown>, key: string, value: unknown) => {
+  if (value === undefined) {
+    if (data.has(key)) data.delete(key);
+    return;
+  }
+  const current = data.get(key);
+  if (TEXT_FIELDS.has(key) && typeof value === 'string') {
+    if (current instanceof Y.Text) {
+      updateText(current, value);
+    } else {
+      data.set(key, new Y.Text(value));
+    }
+    return;
+  }
+  if (!isSameValue(current instanceof Y.Text ? current.toString() : current, value)) data.set(key, value);
+};
+
+const writeNode = (map: Y.Map<unknown>, node: Node) => {
+  const { data, ...fields } = toStoredNode(node);
+  Object.entries(fields).forEach(([key, value]) => {
+    if (key === 'id') return;
+    if (!isSameValue(map.get(key), value)) map.set(key, value);
+  });
+  // Fields the node no longer has
+  Array.from(map.keys()).forEach(key => {
+    if (key !== 'data' && !(key in fields)) map.delete(key);
+  });
+
+  let dataMap = map.get('data');
+  if (!(dataMap instanceof Y.Map)) {
+    dataMap = new Y.Map<unknown>();
+    map.set('data', dataMap);
+  }
+  const yData = dataMap as Y.Map<unknown>;
+  const values = isRecord(data) ? data : {};
+  Object.entries(values).forEach(([key, value]) => writeDataField(yData, key, value));
+  Array.from(yData.keys()).forEach(key => {
+    if (!(key in values)) yData.delete(key);
+  });
+};
+
+// Bring the document in line with the editor state. Only fields that differ are written, so
+// applying state that came from the document is a no-op.
+export const writeFlowToDoc = (doc: Y.Doc, flow: CollabFlow, origin: unknown) => {
+  const nodesMap = getNodesMap(doc);
+  const edgesMap = getEdgesMap(doc);
+  const meta = getMetaMap(doc);
+  doc.transact(() => {
+    const nodeIds = new Set(flow.nodes.map(node => node.id));
+    Array.from(nodesMap.keys()).forEach(id => {
+      if (!nodeIds.has(id)) nodesMap.delete(id);
+    });
+    flow.nodes.forEach(node => {
+      let map = nodesMap.get(node.id);
+      if (!map) {
+        map = new Y.Map<unknown>();
+        nodesMap.set(node.id, map);
+      }
+      writeNode(map, node);
+    });
+
+    const edgeIds = new Set(flow.edges.map(edge => edge.id));
+    Array.from(edgesMap.keys()).forEach(id => {
+      if (!edgeIds.has(id)) edgesMap.delete(id);
+    });
+    flow.edges.forEach(edge => {
+      const stored = toStoredEdge(edge);
+      if (!isSameValue(edgesMap.get(edge.id), stored)) edgesMap.set(edge.id, stored);
+    });
+
+    if (meta.get('tag') !== flow.tag) meta.set('tag', flow.tag);
+  }, origin);
+};
+
+const readNode = (id: string, map: Y.Map<unknown>): Node => {
+  const node: Record<string, unknown> = { id };
+  const data: Record<string, unknown> = {};
+  map.forEach((value, key) => {
+    if (key === 'data' && value instanceof Y.Map) {
+      value.forEach((dataValue, dataKey) => {
+        data[dataKey] = dataValue instanceof Y.Text ? dataValue.toString() : dataValue;
+      });
+    } else {
+      node[key] = value;
+    }
+  });
+  return { position: { x: 0, y: 0 }, ...node, data } as Node;
+};
+
+export const readFlowFromDoc = (doc: Y.Doc): CollabFlow => {
+  const nodes: Node[] = [];
+  getNodesMap(doc).forEach((map, id) => nodes.push(readNode(id, map)));
+  return {
+    tag: (getMetaMap(doc).get('tag') as string | undefined) ?? '',
+    nodes,
+    edges: Array.from(getEdgesMap(doc).values()),
+  };
+};
+
+// Whether the document holds a flowchart yet (a new room is empty until someone seeds it)
+export const isDocEmpty = (doc: Y.Doc) => !getMetaMap(doc).has('tag') && getNodesMap(doc).size === 0;
+
+// Take the nodes read from the document while keeping local-only state (selection, measured
+// size) and the local order, so remote updates don't disturb what this user is doing
+export const mergeRemoteNodes = (current: Node[], remote: Node[]): Node[] => {
+  const currentById = new Map(current.map(node => [node.id, node]));
+  const remoteById = new Map(remote.map(node => [node.id, node]));
+  const kept = current
+    .filter(node => remoteById.has(node.id))
+    .map(node => {
+      const next = remoteById.get(node.id)!;
+      const unchanged = isSameValue(toStoredNode(node), toStoredNode(next));
+      return unchanged ? node : { ...next, selected: node.selected, width: node.width, height: node.height };
+    });
+  return kept.concat(remote.filter(node => !currentById.has(node.id)));
+};
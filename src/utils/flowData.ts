@@ -0,0 +1,89 @@
+import { Node, Edge, MarkerType, XYPosition } from 'reactflow';
+
+// Shared helpers for turning editor state into plain, storable JSON and checking untrusted input
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Keep only the fields that describe a node, dropping React Flow runtime state
+export const toStoredNode = (node: Node): Node => ({
+  id: node.id,
+  type: node.type,
+  position: { x: node.position.x, y: node.position.y },
+  data: node.data,
+  ...(typeof node.parentNode === 'string' ? { parentNode: node.parentNode } : {}),
+  ...(node.style ? { style: node.style } : {}),
+  ...(node.draggable !== undefined ? { draggable: node.draggable } : {}),
+  ...(node.selectable !== undefined ? { selectable: node.selectable } : {}),
+  ...(node.connectable !== undefined ? { connectable: node.connectable } : {}),
+  ...(node.deletable !== undefined ? { deletable: node.deletable } : {}),
+});
+
+export const toStoredEdge = (edge: Edge): Edge => ({
+  id: edge.id,
+  source: edge.source,
+  target: edge.target,
+  sourceHandle: edge.sourceHandle ?? null,
+  targetHandle: edge.targetHandle ?? null,
+  ...(edge.markerEnd ? { markerEnd: edge.markerEnd } : {}),
+  ...(edge.style ? { style: edge.style } : {}),
+});
+
+// Same id scheme as React Flow's addEdge
+export const getEdgeId = (edge: Pick<Edge, 'source' | 'target' | 'sourceHandle' | 'targetHandle'>) =>
+  `reactflow__edge-${edge.source}${edge.sourceHandle || ''}-${edge.target}${edge.targetHandle || ''}`;
+
+// Arrowhead and stroke given to every dependency edge the user draws
+export const DEFAULT_EDGE_COLOR = '#B1B1B7';
+export const TASK_EDGE_STYLE: Pick<Edge, 'markerEnd' | 'style'> = {
+  markerEnd: {
+    type: MarkerType.ArrowClosed,
+    width: 20,
+    height: 20,
+    color: DEFAULT_EDGE_COLOR,
+  },
+  style: {
+    strokeWidth: 2,
+    stroke: DEFAULT_EDGE_COLOR,
+  },
+};
+
+// Dependency edge styled like one drawn on the canvas
+export const createTaskEdge = (
+  source: string,
+  target: string,
+  handles: Pick<Edge, 'sourceHandle' | 'targetHandle'> = {}
+): Edge => ({
+  id: getEdgeId({ source, target, ...handles }),
+  source,
+  target,
+  sourceHandle: handles.sourceHandle ?? null,
+  targetHandle: handles.targetHandle ?? null,
+  ...TASK_EDGE_STYLE,
+});
+
+// Text shown for a task: the text of a text node, otherwise the node label
+export const getDisplayContent = (node: Node): string => (
+  node.type === 'text' && node.data?.text
+    ? node.data.text
+    : node.data?.label || `Node ${node.id}`
+);
+
+// Where to put nodes added in bulk so they don't overlap the existing ones: right of them, top-aligned
+export const getFreeAreaOrigin = (nodes: Node[], gap = 100): XYPosition => {
+  if (nodes.length === 0) return { x: 0, y: 0 };
+  return {
+    x: Math.max(...nodes.map(node => node.position.x + (node.width ?? 200))) + gap,
+    y: Math.min(...nodes.map(node => node.position.y)),
+  };
+};
+
+// Whether two versions of a flowchart have the same tag, nodes and edges, ignoring runtime state
+export const isSameFlowContent = (
+  a: { tag: string; nodes: Node[]; edges: Edge[] },
+  b: { tag: string; nodes: Node[]; edges: Edge[] }
+) => a.tag === b.tag
+  && JSON.stringify(a.nodes.map(toStoredNode)) === JSON.stringify(b.nodes.map(toStoredNode))
+  && JSON.stringify(a.edges.map(toStoredEdge)) === JSON.stringify(b.edges.map(toStoredEdge));
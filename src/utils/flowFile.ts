@@ -0,0 +1,246 @@
+import { Node, Edge } from 'reactflow';
+import { isRecord, isFiniteNumber, toStoredNode, toStoredEdge, getEdgeId, getFreeAreaOrigin } from '@/utils/flowData';
+import { normalizeParentNodes } from '@/utils/taskGroups';
+
+// Exported flowcharts are `.todoflow.json` files tagged with this format and a schema version
+export const FLOW_FILE_FORMAT = 'visual-todoflow';
+export const FLOW_FILE_VERSION = 1;
+export const FLOW_FILE_EXTENSION = '.todoflow.json';
+
+export interface FlowFile {
+  format: typeof FLOW_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  tag: string;
+  uuid: string | null;
+  nodes: Node[];
+  edges: Edge[];
+}
+
+export type ParseFlowFileResult =
+  | { ok: true; file: FlowFile; fixes: string[] }
+  | { ok: false; error: string };
+
+// Upgrade steps keyed by the version they upgrade from; applied in order up to FLOW_FILE_VERSION
+const MIGRATIONS: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 0: the bare { nodes, edges, tag } shape kept in localStorage and sent to the Notion API
+  0: (doc) => ({ ...doc, format: FLOW_FILE_FORMAT, version: 1, exportedAt: new Date().toISOString() }),
+};
+
+export const createFlowFile = (data: { nodes: Node[]; edges: Edge[]; tag: string; uuid: string }): FlowFile => ({
+  format: FLOW_FILE_FORMAT,
+  version: FLOW_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  tag: data.tag,
+  uuid: data.uuid,
+  nodes: data.nodes.map(toStoredNode),
+  edges: data.edges.map(toStoredEdge),
+});
+
+// File name safe on every OS, e.g. "项目 A/B" -> "项目_A_B.todoflow.json"
+export const getFlowFileName = (tag: string, extension = FLOW_FILE_EXTENSION) =>
+  `${(tag || '未命名').replace(/[\\/:*?"<>|\s]+/g, '_')}${extension}`;
+
+// Trigger a browser download of a blob: or data: URL
+export const downloadUrl = (fileName: string, url: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+};
+
+// Trigger a browser download of a text file
+export const downloadTextFile = (fileName: string, content: string, mimeType = 'application/json') => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  downloadUrl(fileName, url);
+  URL.revokeObjectURL(url);
+};
+
+// Validate a flow file against the schema, upgrading older versions and repairing what can be
+// repaired. Everything that was changed is listed in `fixes` so the user can review it.
+export const parseFlowFile = (text: string, allowedNodeTypes: string[]): ParseFlowFileResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: '文件不是有效的 JSON' };
+  }
+  if (!isRecord(raw)) {
+    return { ok: false, error: '文件内容不是流程图' };
+  }
+
+  const fixes: string[] = [];
+  let doc: Record<string, unknown> = raw;
+
+  if (doc.format === undefined && Array.isArray(doc.nodes)) {
+    doc = { ...doc, format: FLOW_FILE_FORMAT, version: 0 };
+  }
+  if (doc.format !== FLOW_FILE_FORMAT) {
+    return { ok: false, error: '文件不是 Visual TodoFlow 流程图' };
+  }
+  if (!isFiniteNumber(doc.version) || !Number.isInteger(doc.version) || doc.version < 0) {
+    return { ok: false, error: '文件版本号无效' };
+  }
+  if (doc.version > FLOW_FILE_VERSION) {
+    return { ok: false, error: `文件版本 ${doc.version} 比当前应用支持的版本 ${FLOW_FILE_VERSION} 新，请先更新应用` };
+  }
+  while ((doc.version as number) < FLOW_FILE_VERSION) {
+    const fromVersion = doc.version as number;
+    doc = MIGRATIONS[fromVersion](doc);
+    fixes.push(`已从版本 ${fromVersion} 升级到版本 ${doc.version}`);
+  }
+
+  if (!Array.isArray(doc.nodes)) {
+    return { ok: false, error: '文件缺少节点列表' };
+  }
+
+  // Nodes
+  const nodes: Node[] = [];
+  const nodeIds = new Set<string>();
+  let generatedId = 0;
+  const nextFreeId = () => {
+    let candidate: string;
+    do {
+      candidate = `imported-${++generatedId}`;
+    } while (nodeIds.has(candidate));
+    return candidate;
+  };
+
+  doc.nodes.forEach((item: unknown, index: number) => {
+    if (!isRecord(item)) {
+      fixes.push(`跳过了第 ${index + 1} 个无效节点`);
+      return;
+    }
+
+    const rawId = typeof item.id === 'number' ? String(item.id) : item.id;
+    let id: string;
+    if (typeof rawId !== 'string' || rawId === '') {
+      id = nextFreeId();
+      fixes.push(`第 ${index + 1} 个节点缺少 ID，已分配 ${id}`);
+    } else if (nodeIds.has(rawId)) {
+      id = nextFreeId();
+      fixes.push(`节点 ID ${rawId} 重复，已改为 ${id}`);
+    } else {
+      id = rawId;
+    }
+
+    let type = 'text';
+    if (typeof item.type === 'string' && allowedNodeTypes.includes(item.type)) {
+      type = item.type;
+    } else {
+      fixes.push(`节点 ${id} 的类型 ${String(item.type)} 不受支持，已转换为文本节点`);
+    }
+
+    let position = item.position;
+    if (!isRecord(position) || !isFiniteNumber(position.x) || !isFiniteNumber(position.y)) {
+      position = { x: 0, y: index * 100 };
+      fixes.push(`节点 ${id} 的位置无效，已重新放置`);
+    }
+
+    let data = item.data;
+    if (!isRecord(data)) {
+      data = { label: 'Text Input', text: '' };
+      fixes.push(`节点 ${id} 缺少数据，已重置为空文本`);
+    }
+
+    nodeIds.add(id);
+    nodes.push(toStoredNode({ ...(item as unknown as Node), id, type, position: position as Node['position'], data }));
+  });
+
+  // Subtasks whose group is missing become top-level nodes
+  const { nodes: groupedNodes, detachedIds } = normalizeParentNodes(nodes);
+  detachedIds.forEach(id => fixes.push(`节点 ${id} 所在的分组无效，已移出分组`));
+
+  // Edges
+  const edges: Edge[] = [];
+  const edgeIds = new Set<string>();
+  const rawEdges = Array.isArray(doc.edges) ? doc.edges : [];
+  if (!Array.isArray(doc.edges)) {
+    fixes.push('文件缺少连线列表，已视为没有连线');
+  }
+  rawEdges.forEach((item: unknown, index: number) => {
+    if (!isRecord(item) || typeof item.source !== 'string' || typeof item.target !== 'string') {
+      fixes.push(`跳过了第 ${index + 1} 条无效连线`);
+      return;
+    }
+    if (!nodeIds.has(item.source) || !nodeIds.has(item.target)) {
+      fixes.push(`连线 ${item.source} → ${item.target} 指向不存在的节点，已删除`);
+      return;
+    }
+    let edge = item as unknown as Edge;
+    if (typeof item.id !== 'string' || item.id === '' || edgeIds.has(item.id)) {
+      let newId = getEdgeId(edge);
+      let suffix = 1;
+      while (edgeIds.has(newId)) newId = `${getEdgeId(edge)}-${suffix++}`;
+      fixes.push(`连线 ${item.source} → ${item.target} 的 ID 缺失或重复，已重新生成`);
+      edge = { ...edge, id: newId };
+    }
+    edgeIds.add(edge.id);
+    edges.push(toStoredEdge(edge));
+  });
+
+  let tag = doc.tag;
+  if (typeof tag !== 'string' || tag.trim() === '') {
+    tag = '未命名';
+    fixes.push('文件缺少标签名，已使用“未命名”');
+  }
+
+  return {
+    ok: true,
+    fixes,
+    file: {
+      format: FLOW_FILE_FORMAT,
+      version: FLOW_FILE_VERSION,
+      exportedAt: typeof doc.exportedAt === 'string' ? doc.exportedAt : new Date().toISOString(),
+      tag: tag as string,
+      uuid: typeof doc.uuid === 'string' && doc.uuid !== '' ? doc.uuid : null,
+      nodes: groupedNodes,
+      edges,
+    },
+  };
+};
+
+// Prepare imported nodes for merging into the current canvas: ids already in use get fresh ones
+// from `getId`, and the imported group is moved to the right of the existing nodes.
+export const remapForMerge = (
+  file: FlowFile,
+  existingNodes: Node[],
+  getId: () => string
+): { nodes: Node[]; edges: Edge[]; fixes: string[] } => {
+  const existingIds = new Set(existingNodes.map(node => node.id));
+  const fixes: string[] = [];
+  const idMap = new Map<string, string>();
+
+  file.nodes.forEach(node => {
+    if (existingIds.has(node.id)) {
+      let newId = getId();
+      while (existingIds.has(newId)) newId = getId();
+      idMap.set(node.id, newId);
+      existingIds.add(newId);
+      fixes.push(`节点 ID ${node.id} 与当前画布冲突，已改为 ${newId}`);
+    } else {
+      idMap.set(node.id, node.id);
+      existingIds.add(node.id);
+    }
+  });
+
+  // Subtasks are placed relative to their group, so only top-level nodes move
+  const topLevelNodes = file.nodes.filter(node => !node.parentNode);
+  const offsetX = existingNodes.length > 0 && topLevelNodes.length > 0
+    ? getFreeAreaOrigin(existingNodes).x - Math.min(...topLevelNodes.map(node => node.position.x))
+    : 0;
+
+  const nodes = file.nodes.map(node => node.parentNode
+    ? { ...node, id: idMap.get(node.id)!, parentNode: idMap.get(node.parentNode) }
+    : { ...node, id: idMap.get(node.id)!, position: { x: node.position.x + offsetX, y: node.position.y } });
+  const edges = file.edges.map(edge => {
+    const source = idMap.get(edge.source)!;
+    const target = idMap.get(edge.target)!;
+    return { ...edge, id: getEdgeId({ ...edge, source, target }), source, target };
+  });
+
+  return { nodes, edges, fixes };
+};
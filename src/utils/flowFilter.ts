@@ -0,0 +1,80 @@
+import { Node, Edge } from 'reactflow';
+import { getSearchEntries, getSearchTerms, matchSearchEntry } from '@/utils/flowSearch';
+
+export type CompletionFilter = 'all' | 'open' | 'done';
+export type ScopeDirection = 'upstream' | 'downstream' | 'both';
+
+// Narrows the canvas and the task list; the query only dims, the rest hides
+export interface FlowFilter {
+  query: string;
+  // Empty means every node type
+  types: string[];
+  completion: CompletionFilter;
+  // Only the tasks this node depends on and/or the ones depending on it
+  scope: { nodeId: string; direction: ScopeDirection } | null;
+}
+
+export const EMPTY_FLOW_FILTER: FlowFilter = { query: '', types: [], completion: 'all', scope: null };
+
+export const SCOPE_DIRECTION_LABELS: Record<ScopeDirection, string> = {
+  upstream: '上游',
+  downstream: '下游',
+  both: '上下游',
+};
+
+// Whether anything besides the query is filtering nodes out
+export const isFilterActive = (filter: FlowFilter) =>
+  filter.types.length > 0 || filter.completion !== 'all' || filter.scope !== null;
+
+// Nodes reachable from nodeId along edges, the node itself included
+export const getConnectedNodeIds = (nodeId: string, edges: Edge[], direction: ScopeDirection): Set<string> => {
+  const targets = new Map<string, string[]>();
+  const sources = new Map<string, string[]>();
+  edges.forEach(edge => {
+    targets.set(edge.source, [...(targets.get(edge.source) ?? []), edge.target]);
+    sources.set(edge.target, [...(sources.get(edge.target) ?? []), edge.source]);
+  });
+
+  // Walk upstream and downstream separately so "both" doesn't pull in siblings
+  const walk = (next: Map<string, string[]>) => {
+    const visited = new Set<string>([nodeId]);
+    const stack = [nodeId];
+    while (stack.length > 0) {
+      (next.get(stack.pop()!) ?? []).forEach(id => {
+        if (visited.has(id)) return;
+        visited.add(id);
+        stack.push(id);
+      });
+    }
+    return visited;
+  };
+  const downstream = walk(targets);
+  const upstream = walk(sources);
+  if (direction === 'downstream') return downstream;
+  if (direction === 'upstream') return upstream;
+  return new Set([...upstream, ...downstream]);
+};
+
+// Nodes left after the type, completion and scope filters, or null when nothing is filtered
+export const getVisibleNodeIds = (nodes: Node[], edges: Edge[], filter: FlowFilter): Set<string> | null => {
+  if (!isFilterActive(filter)) return null;
+  // A scope around a node that has since been deleted is ignored
+  const scope = filter.scope && nodes.some(node => node.id === filter.scope!.nodeId) ? filter.scope : null;
+  const scoped = scope ? getConnectedNodeIds(scope.nodeId, edges, scope.direction) : null;
+  return new Set(nodes
+    .filter(node => filter.types.length === 0 || filter.types.includes(node.type ?? ''))
+    .filter(node => filter.completion === 'all' || !!node.data?.completed === (filter.completion === 'done'))
+    .filter(node => !scoped || scoped.has(node.id))
+    .map(node => node.id));
+};
+
+// Visible nodes whose text or title contains every query term, top to bottom then left to right
+export const getFindMatches = (nodes: Node[], query: string, visibleNodeIds: Set<string> | null): Node[] => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return [];
+  return nodes
+    .filter(node => !visibleNodeIds || visibleNodeIds.has(node.id))
+    .filter(node => getSearchEntries({ tag: '', nodes: [node] }).some(entry => matchSearchEntry(entry, terms)))
+    .sort((a, b) => (a.positionAbsolute ?? a.position).y - (b.positionAbsolute ?? b.position).y
+      || (a.positionAbsolute ?? a.position).x - (b.positionAbsolute ?? b.position).x);
+};
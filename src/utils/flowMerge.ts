@@ -0,0 +1,229 @@
+import { Node, Edge } from 'reactflow';
+import { isRecord, toStoredNode, toStoredEdge } from '@/utils/flowData';
+
+export interface FlowContent {
+  tag: string;
+  nodes: Node[];
+  edges: Edge[];
+}
+
+export type MergeSide = 'mine' | 'theirs';
+
+// A node both sides changed in ways that can't be combined: the same field set to different
+// values, or edited on one side and deleted on the other
+export interface NodeMergeConflict {
+  id: string;
+  // Conflicting fields such as "position" or "data.text"; empty when one side deleted the node
+  fields: string[];
+  base: Node | null;
+  // The merged node when this side wins its conflicts; null when that side deleted the node
+  mine: Node | null;
+  theirs: Node | null;
+}
+
+export interface FlowMergeResult<T extends FlowContent> {
+  // Merged document with every conflict decided in favour of `mine`
+  merged: T;
+  conflicts: NodeMergeConflict[];
+  // Set when both sides renamed the flowchart differently
+  tagConflict: { mine: string; theirs: string } | null;
+  // Merged edges before dropping the ones whose nodes are gone; resolving a conflict can bring
+  // a node back, and its edges with it
+  edgeCandidates: Edge[];
+}
+
+export interface FlowDiff {
+  addedNodes: string[];
+  removedNodes: string[];
+  changedNodes: string[];
+  addedEdges: string[];
+  removedEdges: string[];
+  tagChanged: boolean;
+}
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const isSameNode = (a: Node, b: Node) => isSameValue(toStoredNode(a), toStoredNode(b));
+
+const isSameEdge = (a: Edge, b: Edge) => isSameValue(toStoredEdge(a), toStoredEdge(b));
+
+// Split a node into separately merged fields: every key of `data` plus the other stored fields
+const getNodeFields = (node: Node | undefined): Record<string, unknown> => {
+  const fields: Record<string, unknown> = {};
+  if (!node) return fields;
+  Object.entries(toStoredNode(node)).forEach(([key, value]) => {
+    if (key === 'id') return;
+    if (key === 'data') {
+      if (isRecord(value)) Object.entries(value).forEach(([dataKey, dataValue]) => { fields[`data.${dataKey}`] = dataValue; });
+      return;
+    }
+    fields[key] = value;
+  });
+  return fields;
+};
+
+const fromNodeFields = (id: string, fields: Record<string, unknown>): Node => {
+  const node: Record<string, unknown> = { id };
+  const data: Record<string, unknown> = {};
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value === undefined) return;
+    if (key.startsWith('data.')) {
+      data[key.slice('data.'.length)] = value;
+    } else {
+      node[key] = value;
+    }
+  });
+  return { ...node, data } as Node;
+};
+
+// Three-way merge of one value: a side that left the base value alone takes the other side's
+// change. Without a base the two sides have to agree.
+const mergeValue = <V>(base: V, mine: V, theirs: V, hasBase: boolean): { value: V; conflict: boolean } => {
+  if (isSameValue(mine, theirs)) return { value: mine, conflict: false };
+  if (hasBase && isSameValue(base, mine)) return { value: theirs, conflict: false };
+  if (hasBase && isSameValue(base, theirs)) return { value: mine, conflict: false };
+  return { value: mine, conflict: true };
+};
+
+// Merge one node present on both sides field by field
+const mergeNodeFields = (id: string, base: Node | undefined, mine: Node, theirs: Node) => {
+  const baseFields = getNodeFields(base);
+  const mineFields = getNodeFields(mine);
+  const theirsFields = getNodeFields(theirs);
+  const keys = new Set([...Object.keys(mineFields), ...Object.keys(theirsFields)]);
+
+  const mineWins: Record<string, unknown> = {};
+  const theirsWins: Record<string, unknown> = {};
+  const conflictFields: string[] = [];
+  keys.forEach(key => {
+    const { value, conflict } = mergeValue(baseFields[key], mineFields[key], theirsFields[key], !!base);
+    mineWins[key] = value;
+    theirsWins[key] = conflict ? theirsFields[key] : value;
+    if (conflict) conflictFields.push(key);
+  });
+  return {
+    node: fromNodeFields(id, mineWins),
+    conflict: conflictFields.length > 0
+      ? { id, fields: conflictFields, base: base ?? null, mine: fromNodeFields(id, mineWins), theirs: fromNodeFields(id, theirsWins) }
+      : null,
+  };
+};
+
+// Three-way merge of two versions that diverged from `base`, the last version both had in
+// common. Nodes are matched by id and merged field by field (each `data` key, position, type,
+// style), so one side's text edit and the other's completion combine. Edges merge as sets.
+// Without a base nothing is known about deletions: nodes and edges from either side are kept
+// and every field the sides disagree on is a conflict.
+export const mergeFlowVersions = <T extends FlowContent>(
+  base: FlowContent | null,
+  mine: T,
+  theirs: FlowContent
+): FlowMergeResult<T> => {
+  const hasBase = base !== null;
+  const baseNodes = new Map((base?.nodes ?? []).map(node => [node.id, node]));
+  const mineNodes = new Map(mine.nodes.map(node => [node.id, node]));
+  const theirsNodes = new Map(theirs.nodes.map(node => [node.id, node]));
+  const nodeIds = [...new Set([...mineNodes.keys(), ...theirsNodes.keys()])];
+
+  const nodes: Node[] = [];
+  const conflicts: NodeMergeConflict[] = [];
+  nodeIds.forEach(id => {
+    const baseNode = baseNodes.get(id);
+    const mineNode = mineNodes.get(id);
+    const theirsNode = theirsNodes.get(id);
+
+    if (mineNode && theirsNode) {
+      const { node, conflict } = mergeNodeFields(id, baseNode, mineNode, theirsNode);
+      nodes.push(node);
+      if (conflict) conflicts.push(conflict);
+      return;
+    }
+
+    // Present on one side only: added there, or deleted on the other side
+    const kept = (mineNode ?? theirsNode)!;
+    if (!baseNode) {
+      nodes.push(kept);
+    } else if (!isSameNode(baseNode, kept)) {
+      // Edited on one side, deleted on the other
+      if (mineNode) nodes.push(mineNode);
+      conflicts.push({ id, fields: [], base: baseNode, mine: mineNode ?? null, theirs: theirsNode ?? null });
+    }
+  });
+
+  const baseEdges = new Map((base?.edges ?? []).map(edge => [edge.id, edge]));
+  const mineEdges = new Map(mine.edges.map(edge => [edge.id, edge]));
+  const theirsEdges = new Map(theirs.edges.map(edge => [edge.id, edge]));
+  const edgeCandidates: Edge[] = [];
+  new Set([...mineEdges.keys(), ...theirsEdges.keys()]).forEach(id => {
+    const baseEdge = baseEdges.get(id);
+    const mineEdge = mineEdges.get(id);
+    const theirsEdge = theirsEdges.get(id);
+    if (mineEdge && theirsEdge) {
+      // Only style can differ; take theirs only if mine kept the base style
+      edgeCandidates.push(baseEdge && isSameEdge(baseEdge, mineEdge) ? theirsEdge : mineEdge);
+      return;
+    }
+    const kept = (mineEdge ?? theirsEdge)!;
+    // Dropped if the other side removed it; kept if it is new
+    if (!hasBase || !baseEdge || !isSameEdge(baseEdge, kept)) edgeCandidates.push(kept);
+  });
+
+  const tag = mergeValue(base?.tag, mine.tag, theirs.tag, hasBase);
+  const nodeIdSet = new Set(nodes.map(node => node.id));
+  return {
+    merged: {
+      ...mine,
+      tag: tag.value,
+      nodes,
+      edges: edgeCandidates.filter(edge => nodeIdSet.has(edge.source) && nodeIdSet.has(edge.target)),
+    },
+    conflicts,
+    tagConflict: tag.conflict ? { mine: mine.tag, theirs: theirs.tag } : null,
+    edgeCandidates,
+  };
+};
+
+// Apply the user's choice for each conflicting node (missing choices keep `mine`) and for the tag
+export const resolveFlowMerge = <T extends FlowContent>(
+  result: FlowMergeResult<T>,
+  choices: Record<string, MergeSide>,
+  tagChoice: MergeSide = 'mine'
+): T => {
+  let nodes = result.merged.nodes;
+  result.conflicts.forEach(conflict => {
+    if (choices[conflict.id] !== 'theirs') return;
+    const chosen = conflict.theirs;
+    if (!chosen) {
+      nodes = nodes.filter(node => node.id !== conflict.id);
+    } else if (nodes.some(node => node.id === conflict.id)) {
+      nodes = nodes.map(node => (node.id === conflict.id ? chosen : node));
+    } else {
+      nodes = nodes.concat(chosen);
+    }
+  });
+  const nodeIds = new Set(nodes.map(node => node.id));
+  return {
+    ...result.merged,
+    tag: result.tagConflict && tagChoice === 'theirs' ? result.tagConflict.theirs : result.merged.tag,
+    nodes,
+    edges: result.edgeCandidates.filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target)),
+  };
+};
+
+// What changed from `base` to `version`, by node and edge id
+export const diffFlowContent = (base: FlowContent | null, version: FlowContent): FlowDiff => {
+  const baseNodes = new Map((base?.nodes ?? []).map(node => [node.id, node]));
+  const versionNodeIds = new Set(version.nodes.map(node => node.id));
+  const baseEdgeIds = new Set((base?.edges ?? []).map(edge => edge.id));
+  const versionEdgeIds = new Set(version.edges.map(edge => edge.id));
+  return {
+    addedNodes: version.nodes.filter(node => !baseNodes.has(node.id)).map(node => node.id),
+    removedNodes: [...baseNodes.keys()].filter(id => !versionNodeIds.has(id)),
+    changedNodes: version.nodes
+      .filter(node => baseNodes.has(node.id) && !isSameNode(baseNodes.get(node.id)!, node))
+      .map(node => node.id),
+    addedEdges: [...versionEdgeIds].filter(id => !baseEdgeIds.has(id)),
+    removedEdges: [...baseEdgeIds].filter(id => !versionEdgeIds.has(id)),
+    tagChanged: !!base && base.tag !== version.tag,
+  };
+};
@@ -0,0 +1,70 @@
+import { Node } from 'reactflow';
+
+// Parts of a flowchart that full-text search looks at
+export type SearchField = 'tag' | 'text' | 'label' | 'fileName' | 'url' | 'notes';
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  tag: '名称',
+  text: '正文',
+  label: '标题',
+  fileName: '附件',
+  url: '链接',
+  notes: '备注',
+};
+
+// One searchable string; nodeId is null for the flowchart name
+export interface SearchEntry {
+  nodeId: string | null;
+  field: SearchField;
+  text: string;
+}
+
+export interface SearchHit extends SearchEntry {
+  uuid: string;
+  tag: string;
+  // Position of the first query term in text, for highlighting
+  matchStart: number;
+  matchLength: number;
+}
+
+// Labels addNode gives new nodes; they say nothing about the content
+const PLACEHOLDER_LABELS = new Set(['Text Input', 'Image Upload', 'File Attachment', 'Social Post Link', '关联任务']);
+
+const NODE_FIELDS: Exclude<SearchField, 'tag'>[] = ['text', 'label', 'fileName', 'url', 'notes'];
+
+export const getSearchEntries = (flowchart: { tag: string; nodes: Node[] }): SearchEntry[] => {
+  const entries: SearchEntry[] = [];
+  if (flowchart.tag) entries.push({ nodeId: null, field: 'tag', text: flowchart.tag });
+  flowchart.nodes.forEach(node => {
+    NODE_FIELDS.forEach(field => {
+      const value = node.data?.[field];
+      if (typeof value !== 'string' || !value.trim()) return;
+      if (field === 'label' && (PLACEHOLDER_LABELS.has(value) || value === node.data?.text)) return;
+      entries.push({ nodeId: node.id, field, text: value });
+    });
+  });
+  return entries;
+};
+
+// Lower-cased terms of a query; every term has to occur in an entry for it to match
+export const getSearchTerms = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+// Where the first term occurs in the entry, or null unless all terms do
+export const matchSearchEntry = (entry: SearchEntry, terms: string[]) => {
+  if (terms.length === 0) return null;
+  const text = entry.text.toLowerCase();
+  if (!terms.every(term => text.includes(term))) return null;
+  return { matchStart: text.indexOf(terms[0]), matchLength: terms[0].length };
+};
+
+// Part of a long text around the match, with the match split out for highlighting
+export const getSearchSnippet = (hit: Pick<SearchHit, 'text' | 'matchStart' | 'matchLength'>, context = 30) => {
+  const start = Math.max(0, hit.matchStart - context);
+  const end = Math.min(hit.text.length, hit.matchStart + hit.matchLength + context);
+  const flatten = (value: string) => value.replace(/\s+/g, ' ');
+  return {
+    before: (start > 0 ? '…' : '') + flatten(hit.text.slice(start, hit.matchStart)),
+    match: flatten(hit.text.slice(hit.matchStart, hit.matchStart + hit.matchLength)),
+    after: flatten(hit.text.slice(hit.matchStart + hit.matchLength, end)) + (end < hit.text.length ? '…' : ''),
+  };
+};
@@ -0,0 +1,35 @@
+import { Node, Edge } from 'reactflow';
+import { getTaskStatuses } from '@/utils/taskStatus';
+import { computeSchedule } from '@/utils/schedule';
+import { isGroupNode } from '@/utils/taskGroups';
+
+// Progress of one flowchart, as listed on the dashboard
+export interface FlowchartStats {
+  total: number;
+  completed: number;
+  blocked: number;
+  overdue: number;
+  percent: number;
+}
+
+// Expects group states applied (applyGroupStates); groups are containers and aren't counted as tasks
+export const getFlowchartStats = (nodes: Node[], edges: Edge[], today: Date = new Date()): FlowchartStats => {
+  let completed = 0;
+  let blocked = 0;
+  const statuses = getTaskStatuses(nodes, edges);
+  const tasks = nodes.filter(node => !isGroupNode(node));
+  tasks.forEach(node => {
+    const status = statuses.get(node.id);
+    if (status === 'done') completed++;
+    else if (status === 'blocked') blocked++;
+  });
+  // Overdue like in the task list: the schedule can't finish the task by its due date
+  const overdue = Array.from(computeSchedule(nodes, edges, today).tasks.values()).filter(task => task.overdue).length;
+  return {
+    total: tasks.length,
+    completed,
+    blocked,
+    overdue,
+    percent: tasks.length > 0 ? Math.round((completed / tasks.length) * 100) : 0,
+  };
+};
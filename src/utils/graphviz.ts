@@ -0,0 +1,37 @@
+import { Node, Edge } from 'reactflow';
+import { LayoutDirection } from '@/utils/autoLayout';
+import { DEFAULT_EDGE_COLOR, getDisplayContent } from '@/utils/flowData';
+
+export const DOT_FILE_EXTENSION = '.dot';
+
+const quoteDot = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+
+// Graphviz DOT digraph; completed tasks are greyed out and filled green like on the canvas
+export const createDotGraph = (
+  nodes: Node[],
+  edges: Edge[],
+  options: { name?: string; direction?: LayoutDirection } = {}
+): string => {
+  const { name = 'todoflow', direction = 'TB' } = options;
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const lines = [
+    `digraph ${quoteDot(name)} {`,
+    `  rankdir=${direction};`,
+    '  node [shape=box, style="rounded", fontname="sans-serif"];',
+    `  edge [color="${DEFAULT_EDGE_COLOR}"];`,
+  ];
+  nodes.forEach(node => {
+    const attributes = [`label=${quoteDot(getDisplayContent(node))}`];
+    if (node.data?.completed) {
+      attributes.push('style="rounded,filled"', 'fillcolor="#f6ffed"', 'color="#52c41a"', 'fontcolor="#8c8c8c"');
+    }
+    lines.push(`  ${quoteDot(node.id)} [${attributes.join(', ')}];`);
+  });
+  edges.forEach(edge => {
+    if (nodeIds.has(edge.source) && nodeIds.has(edge.target)) {
+      lines.push(`  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)};`);
+    }
+  });
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,81 @@
+import { Node, Edge, getNodesBounds } from 'reactflow';
+import { toPng, toSvg } from 'html-to-image';
+
+export type ImageFormat = 'png' | 'svg';
+export type ImageExportScope = 'all' | 'selection';
+
+export interface ImageExportOptions {
+  format: ImageFormat;
+  scope: ImageExportScope;
+  padding: number; // Space around the graph, in flow units
+  scale: number; // Output pixels per flow unit
+}
+
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: Omit<ImageExportOptions, 'format'> = {
+  scope: 'all',
+  padding: 40,
+  scale: 2,
+};
+
+export type ImageExportResult =
+  | { ok: true; dataUrl: string }
+  | { ok: false; error: string };
+
+// Drawn in place of images that can't be embedded (e.g. blocked by CORS) so the export still succeeds
+const IMAGE_PLACEHOLDER = 'data:image/gif;base64,R0lGODlhAQABAIAAAMzMzAAAACwAAAAAAQABAAACAkQBADs=';
+
+// Render the React Flow viewport element to an image. Only the chosen nodes and the edges between
+// them are drawn; the result is cropped to their bounds, so the current pan/zoom doesn't matter.
+// Node content and status classes are part of the DOM, so they are captured as shown on the canvas.
+export const exportFlowImage = async (
+  viewport: HTMLElement,
+  nodes: Node[],
+  edges: Edge[],
+  options: ImageExportOptions
+): Promise<ImageExportResult> => {
+  const { format, scope, padding, scale } = options;
+  const exportedNodes = scope === 'selection' ? nodes.filter(node => node.selected) : nodes;
+  if (exportedNodes.length === 0) {
+    return { ok: false, error: scope === 'selection' ? '请先选择要导出的节点' : '画布上没有节点' };
+  }
+
+  const nodeIds = new Set(exportedNodes.map(node => node.id));
+  const edgeTestIds = new Set(edges
+    .filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+    .map(edge => `rf__edge-${edge.id}`));
+
+  const filter = (element: HTMLElement) => {
+    const classList = element.classList;
+    if (!classList) return true;
+    if (classList.contains('react-flow__node')) return nodeIds.has(element.getAttribute('data-id') || '');
+    if (classList.contains('react-flow__edge')) return edgeTestIds.has(element.getAttribute('data-testid') || '');
+    // Connection handles are editing affordances, not content
+    return !classList.contains('react-flow__handle');
+  };
+
+  const bounds = getNodesBounds(exportedNodes);
+  const width = Math.ceil((bounds.width + padding * 2) * scale);
+  const height = Math.ceil((bounds.height + padding * 2) * scale);
+  const renderOptions = {
+    width,
+    height,
+    backgroundColor: '#ffffff',
+    pixelRatio: 1,
+    cacheBust: true,
+    imagePlaceholder: IMAGE_PLACEHOLDER,
+    filter,
+    style: {
+      width: `${width}px`,
+      height: `${height}px`,
+      transform: `translate(${(padding - bounds.x) * scale}px, ${(padding - bounds.y) * scale}px) scale(${scale})`,
+    },
+  };
+
+  try {
+    const dataUrl = format === 'png' ? await toPng(viewport, renderOptions) : await toSvg(viewport, renderOptions);
+    return { ok: true, dataUrl };
+  } catch (error) {
+    console.error('Failed to render image:', error);
+    return { ok: false, error: '生成图片失败' };
+  }
+};
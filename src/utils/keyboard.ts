@@ -0,0 +1,8 @@
+// Ignore editor shortcuts while the user is typing in an input (e.g. TextNode's TextArea)
+export const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+// Cmd takes the place of Ctrl in shortcuts shown on macOS
+export const isMacPlatform = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
@@ -0,0 +1,94 @@
+// Editor actions that can be bound to keys
+export type KeymapAction =
+  | 'commandPalette'
+  | 'find'
+  | 'nudgeUp'
+  | 'nudgeDown'
+  | 'nudgeLeft'
+  | 'nudgeRight'
+  | 'nextConnected'
+  | 'previousConnected'
+  | 'editNode'
+  | 'deleteSelection';
+
+// Shortcuts are written like "Mod+K" or "Shift+Tab"; Mod is Ctrl, or Cmd on macOS
+export type Keymap = Record<KeymapAction, string[]>;
+
+export const KEYMAP_ACTION_LABELS: Record<KeymapAction, string> = {
+  commandPalette: '打开命令面板',
+  find: '查找节点',
+  nudgeUp: '上移选中的节点',
+  nudgeDown: '下移选中的节点',
+  nudgeLeft: '左移选中的节点',
+  nudgeRight: '右移选中的节点',
+  nextConnected: '选择下一个相连的任务',
+  previousConnected: '选择上一个相连的任务',
+  editNode: '编辑选中的文本节点',
+  deleteSelection: '删除选中的节点和连线',
+};
+
+export const DEFAULT_KEYMAP: Keymap = {
+  commandPalette: ['Mod+K'],
+  find: ['Mod+F'],
+  nudgeUp: ['ArrowUp'],
+  nudgeDown: ['ArrowDown'],
+  nudgeLeft: ['ArrowLeft'],
+  nudgeRight: ['ArrowRight'],
+  nextConnected: ['Tab'],
+  previousConnected: ['Shift+Tab'],
+  editNode: ['Enter'],
+  deleteSelection: ['Delete', 'Backspace'],
+};
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift']);
+
+// Shortcut pressed in a keyboard event, or null while only modifiers are held
+export const getEventShortcut = (event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>) => {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+  const key = event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toUpperCase() : event.key;
+  return [
+    (event.ctrlKey || event.metaKey) && 'Mod',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+    key,
+  ].filter(Boolean).join('+');
+};
+
+// Shortcuts with Ctrl/Cmd also work while typing; plain keys would get in the way there
+export const isModShortcut = (shortcut: string) => shortcut.startsWith('Mod+');
+
+export const getShortcutAction = (keymap: Keymap, shortcut: string): KeymapAction | null =>
+  (Object.keys(keymap) as KeymapAction[]).find(action => keymap[action].includes(shortcut)) ?? null;
+
+export const formatShortcut = (shortcut: string, isMac = false) =>
+  shortcut.replace(/^Mod\+/, isMac ? '⌘+' : 'Ctrl+').replace(/Arrow(Up|Down|Left|Right)/, (_, direction: string) => ({
+    Up: '↑', Down: '↓', Left: '←', Right: '→',
+  })[direction] ?? direction);
+
+// Bind a shortcut to an action, taking it away from whichever action had it before
+export const assignShortcut = (keymap: Keymap, action: KeymapAction, shortcut: string): Keymap => {
+  const next = {} as Keymap;
+  (Object.keys(keymap) as KeymapAction[]).forEach(other => {
+    next[other] = keymap[other].filter(existing => existing !== shortcut);
+  });
+  next[action] = [...next[action], shortcut];
+  return next;
+};
+
+export const removeShortcut = (keymap: Keymap, action: KeymapAction, shortcut: string): Keymap => ({
+  ...keymap,
+  [action]: keymap[action].filter(existing => existing !== shortcut),
+});
+
+// Stored keymap on top of the defaults, so actions added later get their default keys
+export const normalizeKeymap = (stored: unknown): Keymap => {
+  const keymap = { ...DEFAULT_KEYMAP };
+  if (!stored || typeof stored !== 'object') return keymap;
+  (Object.keys(DEFAULT_KEYMAP) as KeymapAction[]).forEach(action => {
+    const shortcuts = (stored as Record<string, unknown>)[action];
+    if (Array.isArray(shortcuts) && shortcuts.every(shortcut => typeof shortcut === 'string')) {
+      keymap[action] = shortcuts;
+    }
+  });
+  return keymap;
+};
@@ -0,0 +1,96 @@
+import { Node, Edge } from 'reactflow';
+import { getTaskStatuses, TaskStatus } from '@/utils/taskStatus';
+import { getDisplayContent } from '@/utils/flowData';
+import { applyGroupStates } from '@/utils/taskGroups';
+
+// Node type standing in for a task of another saved flowchart
+export const LINKED_TASK_NODE_TYPE = 'linked';
+
+// Node data of a linked task. The tag and label are copies taken when the link was made, shown
+// until the other flowchart has been loaded.
+export interface LinkedTaskData {
+  label?: string;
+  flowchartUuid?: string;
+  flowchartTag?: string;
+  nodeId?: string;
+  completed?: boolean;
+}
+
+export interface LinkedTaskRef {
+  flowchartUuid: string;
+  nodeId: string;
+}
+
+// What a linked task currently looks like in its own flowchart
+export type LinkedTaskState =
+  | { status: 'loading' }
+  | { status: 'found'; tag: string; text: string; taskStatus: TaskStatus }
+  | { status: 'missing' } // The flowchart no longer has this task
+  | { status: 'error'; error: string };
+
+// A flowchart that linked tasks point into, as far as it is known
+export type LinkedFlowchart =
+  | { status: 'loading' }
+  | { status: 'loaded'; tasks: Map<string, LinkedTaskState> }
+  | { status: 'error'; error: string };
+
+export const getLinkedTaskRef = (node: Node): LinkedTaskRef | null => {
+  if (node.type !== LINKED_TASK_NODE_TYPE) return null;
+  const { flowchartUuid, nodeId } = (node.data ?? {}) as LinkedTaskData;
+  return flowchartUuid && nodeId ? { flowchartUuid, nodeId } : null;
+};
+
+export const getLinkedTaskKey = (ref: LinkedTaskRef) => `${ref.flowchartUuid}:${ref.nodeId}`;
+
+// Flowcharts the given nodes link into
+export const getLinkedFlowchartUuids = (nodes: Node[]): string[] =>
+  Array.from(new Set(nodes.map(getLinkedTaskRef).filter((ref): ref is LinkedTaskRef => !!ref).map(ref => ref.flowchartUuid)));
+
+// Every task of a loaded flowchart as a link target; a group is done once all of its tasks are
+export const getLinkTargets = (flowchart: { tag: string; nodes: Node[]; edges: Edge[] }): LinkedFlowchart => {
+  const nodes = applyGroupStates(flowchart.nodes);
+  const statuses = getTaskStatuses(nodes, flowchart.edges);
+  return {
+    status: 'loaded',
+    tasks: new Map(nodes.map(node => [node.id, {
+      status: 'found',
+      tag: flowchart.tag,
+      text: getDisplayContent(node),
+      taskStatus: statuses.get(node.id) ?? 'ready',
+    }])),
+  };
+};
+
+// State of every linked task among the nodes, keyed by getLinkedTaskKey
+export const getLinkedTaskStates = (nodes: Node[], flowcharts: Map<string, LinkedFlowchart>): Map<string, LinkedTaskState> => {
+  const states = new Map<string, LinkedTaskState>();
+  nodes.forEach(node => {
+    const ref = getLinkedTaskRef(node);
+    if (!ref) return;
+    const flowchart = flowcharts.get(ref.flowchartUuid);
+    let state: LinkedTaskState;
+    if (!flowchart || flowchart.status === 'loading') {
+      state = { status: 'loading' };
+    } else if (flowchart.status === 'error') {
+      state = { status: 'error', error: flowchart.error };
+    } else {
+      state = flowchart.tasks.get(ref.nodeId) ?? { status: 'missing' };
+    }
+    states.set(getLinkedTaskKey(ref), state);
+  });
+  return states;
+};
+
+// Linked tasks take completion and text from the task they point at, so dependencies on them
+// block and unblock like on local tasks
+export const applyLinkedTaskStates = (nodes: Node[], states: Map<string, LinkedTaskState>): Node[] =>
+  nodes.map(node => {
+    const ref = getLinkedTaskRef(node);
+    const state = ref ? states.get(getLinkedTaskKey(ref)) : undefined;
+    if (!state || state.status === 'loading') return node;
+    const completed = state.status === 'found' && state.taskStatus === 'done';
+    const label = state.status === 'found' ? state.text : node.data.label;
+    const flowchartTag = state.status === 'found' ? state.tag : node.data.flowchartTag;
+    if (!!node.data.completed === completed && node.data.label === label && node.data.flowchartTag === flowchartTag) return node;
+    return { ...node, data: { ...node.data, completed, label, flowchartTag } };
+  });
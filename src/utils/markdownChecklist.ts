@@ -0,0 +1,164 @@
+import { Node, Edge } from 'reactflow';
+import { getOrderedTasks, findCycles } from '@/utils/taskGraph';
+import { getDisplayContent } from '@/utils/flowData';
+import { ImportedTask, ImportedTaskGraph } from '@/utils/taskImport';
+
+export const MARKDOWN_FILE_EXTENSION = '.md';
+// Section headings written on export; tasks under the unsorted one are imported without edges
+const ORDERED_HEADING = '任务顺序';
+const UNSORTED_HEADING = '未排序';
+
+export type ParseChecklistResult =
+  | { ok: true; checklist: ImportedTaskGraph }
+  | { ok: false; error: string };
+
+// Keep each task on one line so it stays a single list item
+const toItemText = (node: Node) => getDisplayContent(node).replace(/\s*\n\s*/g, ' ').trim() || `Node ${node.id}`;
+
+const toChecklistLine = (node: Node, depth: number) =>
+  `${'  '.repeat(depth)}- [${node.data?.completed ? 'x' : ' '}] ${toItemText(node)}`;
+
+// Export tasks as a tree: each task is nested under one of its direct predecessors, so chains
+// become nested lists and parallel branches siblings. A task is only placed once all of its
+// predecessors are, under the last of them, so reading the list top to bottom still follows the
+// dependencies. A list can only show one parent per task, so extra dependencies of merge points
+// are not kept, and neither are the edges of dependency loops.
+export const createMarkdownChecklist = (data: { nodes: Node[]; edges: Edge[]; tag: string }): string => {
+  const { nodes, edges, tag } = data;
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const validEdges = edges.filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target));
+  const connectedIds = new Set(validEdges.flatMap(edge => [edge.source, edge.target]));
+
+  const ordered = getOrderedTasks(nodes.filter(node => connectedIds.has(node.id)), validEdges);
+  const unsorted = nodes.filter(node => !connectedIds.has(node.id));
+
+  // Edges of dependency loops are left out, like getOrderedTasks does, so tasks in and after a
+  // loop are still placed
+  const cyclicEdgeIds = new Set(findCycles(nodes, validEdges).flatMap(cycle => cycle.edgeIds));
+  const orderedIds = new Set(ordered.map(node => node.id));
+  const predecessors = new Map<string, Set<string>>();
+  const successors = new Map<string, Node[]>();
+  validEdges.forEach(edge => {
+    if (cyclicEdgeIds.has(edge.id) || !orderedIds.has(edge.source) || !orderedIds.has(edge.target)) return;
+    if (!predecessors.has(edge.target)) predecessors.set(edge.target, new Set());
+    predecessors.get(edge.target)!.add(edge.source);
+  });
+  // Successors in TodoList order, so siblings are listed the way the todo list shows them
+  ordered.forEach(node => {
+    predecessors.get(node.id)?.forEach(source => {
+      if (!successors.has(source)) successors.set(source, []);
+      successors.get(source)!.push(node);
+    });
+  });
+
+  const lines = [`# ${tag || '未命名'}`];
+  if (ordered.length > 0) {
+    lines.push('', `## ${ORDERED_HEADING}`, '');
+    const placed = new Set<string>();
+    const isReady = (node: Node) => Array.from(predecessors.get(node.id) ?? []).every(id => placed.has(id));
+    // Depth-first with an explicit stack so long chains can't overflow the call stack. A task
+    // pushed by an earlier predecessor is skipped until the last one pushes it again. Each
+    // unplaced task in list order starts a new top-level item; in a sorted list those are the
+    // roots, and anything else still left over is listed rather than lost.
+    ordered.forEach(start => {
+      if (placed.has(start.id)) return;
+      placed.add(start.id);
+      lines.push(toChecklistLine(start, 0));
+      const stack = (successors.get(start.id) ?? []).slice().reverse().map(node => ({ node, depth: 1 }));
+      while (stack.length > 0) {
+        const { node, depth } = stack.pop()!;
+        if (placed.has(node.id) || !isReady(node)) continue;
+        placed.add(node.id);
+        lines.push(toChecklistLine(node, depth));
+        (successors.get(node.id) ?? [])
+          .filter(successor => !placed.has(successor.id))
+          .reverse()
+          .forEach(successor => stack.push({ node: successor, depth: depth + 1 }));
+      }
+    });
+  }
+  if (unsorted.length > 0) {
+    lines.push('', `## ${UNSORTED_HEADING}`, '');
+    unsorted.forEach(node => lines.push(toChecklistLine(node, 0)));
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s*)?(.*)$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+// Tabs count as four columns, like CommonMark
+const getIndent = (whitespace: string) => whitespace.replace(/\t/g, '    ').length;
+
+// Parse a Markdown checklist. Nested items depend on their parent item; a list without any
+// nesting is read as a sequence, each item depending on the one before it. Items under an
+// "未排序" heading get no dependencies. Plain list items without a checkbox count as open tasks.
+export const parseMarkdownChecklist = (text: string): ParseChecklistResult => {
+  const tasks: ImportedTask[] = [];
+  const links: Array<[number, number]> = [];
+
+  // Items of the list block being read
+  let block: Array<{ index: number; indent: number; parent: number | null }> = [];
+  let inUnsortedSection = false;
+  let inFence = false;
+
+  const closeBlock = () => {
+    if (!inUnsortedSection) {
+      if (block.some(item => item.parent !== null)) {
+        block.forEach(item => {
+          if (item.parent !== null) links.push([item.parent, item.index]);
+        });
+      } else {
+        block.slice(1).forEach((item, i) => links.push([block[i].index, item.index]));
+      }
+    }
+    block = [];
+  };
+
+  text.split(/\r?\n/).forEach(line => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      closeBlock();
+      inUnsortedSection = heading[1] === UNSORTED_HEADING;
+      return;
+    }
+
+    const item = line.match(LIST_ITEM_PATTERN);
+    if (item) {
+      const indent = getIndent(item[1]);
+      // The parent is the closest earlier item indented less than this one
+      let parent: number | null = null;
+      for (let i = block.length - 1; i >= 0; i--) {
+        if (block[i].indent < indent) {
+          parent = block[i].index;
+          break;
+        }
+      }
+      tasks.push({ text: item[3].trim(), completed: item[2] === 'x' || item[2] === 'X' });
+      block.push({ index: tasks.length - 1, indent, parent });
+      return;
+    }
+
+    if (line.trim() === '') return; // Blank lines don't end a list
+    if (block.length > 0 && /^\s/.test(line)) {
+      // Indented continuation of the previous item
+      const last = tasks[tasks.length - 1];
+      last.text = last.text ? `${last.text}\n${line.trim()}` : line.trim();
+      return;
+    }
+    closeBlock(); // A paragraph ends the list
+  });
+  closeBlock();
+
+  if (tasks.length === 0) {
+    return { ok: false, error: '没有找到任务，请使用 "- [ ] 任务" 格式的列表' };
+  }
+  return { ok: true, checklist: { tasks, links } };
+};
@@ -0,0 +1,272 @@
+import { Node, Edge } from 'reactflow';
+import { LayoutDirection } from '@/utils/autoLayout';
+import { getDisplayContent } from '@/utils/flowData';
+import { ImportedTask, ImportedTaskGraph } from '@/utils/taskImport';
+
+export const MERMAID_FILE_EXTENSION = '.mmd';
+// Class given to completed tasks on export and recognised on import
+const DONE_CLASS = 'done';
+const DONE_CLASS_DEF = `classDef ${DONE_CLASS} fill:#f6ffed,stroke:#52c41a,color:#8c8c8c,text-decoration:line-through`;
+
+// Mermaid ids must be plain words; "end" and friends are keywords
+const MERMAID_KEYWORDS = new Set(['end', 'graph', 'flowchart', 'subgraph', 'class', 'classDef', 'style', 'click', 'direction']);
+
+// Stable, unique Mermaid-safe ids for every node
+export const getDiagramIds = (nodes: Node[], prefix = 'task_'): Map<string, string> => {
+  const used = new Set<string>();
+  const ids = new Map<string, string>();
+  nodes.forEach(node => {
+    const base = `${prefix}${node.id.replace(/[^A-Za-z0-9_]/g, '_')}`;
+    let id = base;
+    for (let suffix = 2; used.has(id); suffix++) id = `${base}_${suffix}`;
+    used.add(id);
+    ids.set(node.id, id);
+  });
+  return ids;
+};
+
+const escapeMermaidLabel = (text: string) => text
+  .replace(/#/g, '#35;')
+  .replace(/"/g, '#quot;')
+  .replace(/</g, '#lt;')
+  .replace(/>/g, '#gt;')
+  .replace(/\r?\n/g, '<br/>');
+
+export const createMermaidFlowchart = (nodes: Node[], edges: Edge[], direction: LayoutDirection = 'TB'): string => {
+  const ids = getDiagramIds(nodes);
+  const lines = [`flowchart ${direction === 'LR' ? 'LR' : 'TD'}`];
+  nodes.forEach(node => lines.push(`  ${ids.get(node.id)}["${escapeMermaidLabel(getDisplayContent(node))}"]`));
+  edges.forEach(edge => {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (source && target) lines.push(`  ${source} --> ${target}`);
+  });
+
+  const doneIds = nodes.filter(node => node.data?.completed).map(node => ids.get(node.id));
+  if (doneIds.length > 0) {
+    lines.push(`  ${DONE_CLASS_DEF}`, `  class ${doneIds.join(',')} ${DONE_CLASS}`);
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+export type ParseMermaidResult =
+  | { ok: true; graph: ImportedTaskGraph; direction: LayoutDirection; warnings: string[] }
+  | { ok: false; error: string };
+
+// Node shapes, longest opener first so "([" wins over "("; every shape becomes a text node
+const NODE_SHAPES: Array<[string, string]> = [
+  ['(((', ')))'], ['([', '])'], ['[[', ']]'], ['[(', ')]'], ['((', '))'], ['{{', '}}'],
+  ['[/', '/]'], ['[\\', '\\]'], ['[', ']'], ['(', ')'], ['{', '}'], ['>', ']'],
+];
+const NODE_ID_PATTERN = /^[\p{L}\p{N}_]+/u;
+const LINK_PATTERN = /^(<)?(-{2,}>|-{3,}|={2,}>|={3,}|-\.+->|-\.+-)/;
+const LINK_WITH_TEXT_PATTERN = /^(<)?(--|==|-\.)\s+(.+?)\s+(-{2,}>|-{3,}|={2,}>|={3,}|\.-+>|\.-+)/;
+const HEADER_PATTERN = /^(?:flowchart|graph)(?:\s+(TB|TD|BT|LR|RL))?$/;
+const IGNORED_STATEMENTS = new Set(['classDef', 'style', 'linkStyle', 'click', 'direction', 'accTitle', 'accDescr']);
+
+const decodeMermaidLabel = (text: string) => text
+  .replace(/<br\s*\/?>/gi, '\n')
+  .replace(/#quot;/g, '"')
+  .replace(/#lt;/g, '<')
+  .replace(/#gt;/g, '>')
+  .replace(/#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+  .replace(/^`([\s\S]*)`$/, '$1')
+  .trim();
+
+class MermaidSyntaxError extends Error {}
+
+// Split a line on ";" outside of quoted labels
+const splitStatements = (line: string) => {
+  const statements: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ';' && !inQuotes) {
+      statements.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  statements.push(current);
+  return statements.map(statement => statement.trim()).filter(Boolean);
+};
+
+// Parse the subset of Mermaid flowchart syntax that maps onto tasks: node declarations in any
+// shape, chained links ("A --> B --> C"), "&" groups, link text (dropped), "class"/":::" for
+// completion and flattened subgraphs. Anything else is reported with its line number.
+export const parseMermaidFlowchart = (text: string): ParseMermaidResult => {
+  const tasks: ImportedTask[] = [];
+  const taskIndex = new Map<string, number>();
+  const labelled = new Set<string>();
+  const links: Array<[number, number]> = [];
+  const linkKeys = new Set<string>();
+  const warnings: string[] = [];
+  let direction: LayoutDirection | null = null;
+  let subgraphDepth = 0;
+
+  const getTask = (id: string) => {
+    if (!taskIndex.has(id)) {
+      taskIndex.set(id, tasks.length);
+      tasks.push({ text: id, completed: false });
+    }
+    return taskIndex.get(id)!;
+  };
+
+  // Read one node reference starting at `pos`; returns its id and the position after it
+  const readNode = (statement: string, pos: number): { id: string; end: number } => {
+    const rest = statement.slice(pos);
+    const idMatch = rest.match(NODE_ID_PATTERN);
+    if (!idMatch) {
+      throw new MermaidSyntaxError(`无法识别 "${rest.slice(0, 20)}"，需要节点 ID`);
+    }
+    const id = idMatch[0];
+    if (MERMAID_KEYWORDS.has(id)) {
+      throw new MermaidSyntaxError(`"${id}" 是 Mermaid 关键字，不能用作节点 ID`);
+    }
+    let end = pos + id.length;
+    const index = getTask(id);
+
+    const shape = NODE_SHAPES.find(([open]) => statement.startsWith(open, end));
+    if (shape) {
+      const [open, close] = shape;
+      let labelStart = end + open.length;
+      let label: string;
+      if (statement[labelStart] === '"') {
+        const quoteEnd = statement.indexOf('"', labelStart + 1);
+        if (quoteEnd === -1) throw new MermaidSyntaxError(`节点 ${id} 的文字缺少结束引号`);
+        label = statement.slice(labelStart + 1, quoteEnd);
+        labelStart = quoteEnd + 1;
+        if (!statement.startsWith(close, labelStart)) {
+          throw new MermaidSyntaxError(`节点 ${id} 缺少结束符号 "${close}"`);
+        }
+        end = labelStart + close.length;
+      } else {
+        const closeAt = statement.indexOf(close, labelStart);
+        if (closeAt === -1) throw new MermaidSyntaxError(`节点 ${id} 缺少结束符号 "${close}"`);
+        label = statement.slice(labelStart, closeAt);
+        end = closeAt + close.length;
+      }
+      if (!labelled.has(id)) {
+        tasks[index].text = decodeMermaidLabel(label) || id;
+        labelled.add(id);
+      }
+    }
+
+    const classMatch = statement.slice(end).match(/^:::([\w-]+)/);
+    if (classMatch) {
+      if (classMatch[1] === DONE_CLASS) tasks[index].completed = true;
+      end += classMatch[0].length;
+    }
+    return { id, end };
+  };
+
+  // Read "A & B" starting at `pos`
+  const readNodeGroup = (statement: string, pos: number) => {
+    const ids: string[] = [];
+    let end = pos;
+    for (;;) {
+      const node = readNode(statement, end);
+      ids.push(node.id);
+      end = node.end;
+      const amp = statement.slice(end).match(/^\s*&\s*/);
+      if (!amp) break;
+      end += amp[0].length;
+    }
+    return { ids, end };
+  };
+
+  const parseStatement = (statement: string) => {
+    const keyword = statement.split(/\s+/)[0];
+    if (keyword === 'subgraph') {
+      subgraphDepth++;
+      warnings.push(`子图 "${statement.slice('subgraph'.length).trim()}" 已展开为普通任务`);
+      return;
+    }
+    if (keyword === 'end') {
+      if (subgraphDepth === 0) throw new MermaidSyntaxError('多余的 "end"');
+      subgraphDepth--;
+      return;
+    }
+    if (keyword === 'class') {
+      const match = statement.match(/^class\s+([\p{L}\p{N}_,\s]+?)\s+([\w-]+)$/u);
+      if (!match) throw new MermaidSyntaxError('class 语句格式应为 "class A,B 类名"');
+      if (match[2] === DONE_CLASS) {
+        match[1].split(',').map(id => id.trim()).filter(Boolean).forEach(id => {
+          tasks[getTask(id)].completed = true;
+        });
+      }
+      return;
+    }
+    if (IGNORED_STATEMENTS.has(keyword)) {
+      if (keyword !== 'classDef' && keyword !== 'direction') warnings.push(`已忽略 ${keyword} 语句`);
+      return;
+    }
+
+    let group = readNodeGroup(statement, 0);
+    for (;;) {
+      const rest = statement.slice(group.end);
+      if (rest.trim() === '') return;
+      const spaced = rest.match(/^\s*/)![0].length;
+      const linkText = rest.slice(spaced);
+      const link = linkText.match(LINK_WITH_TEXT_PATTERN) || linkText.match(LINK_PATTERN);
+      if (!link) {
+        throw new MermaidSyntaxError(`无法识别 "${linkText.slice(0, 20)}"，需要连线（如 -->）`);
+      }
+      if (link[1]) throw new MermaidSyntaxError('不支持反向或双向连线（<-- / <-->），请改为单向的 -->');
+      let end = group.end + spaced + link[0].length;
+      const pipeText = statement.slice(end).match(/^\s*\|([^|]*)\|/);
+      if (pipeText) end += pipeText[0].length;
+      const label = link[0].match(LINK_WITH_TEXT_PATTERN) ? link[3] : pipeText?.[1];
+      if (label?.trim()) warnings.push(`连线文字 "${label.trim()}" 已忽略`);
+
+      const targetStart = end + statement.slice(end).match(/^\s*/)![0].length;
+      if (targetStart >= statement.length) throw new MermaidSyntaxError('连线缺少目标节点');
+      const next = readNodeGroup(statement, targetStart);
+      group.ids.forEach(source => next.ids.forEach(target => {
+        const key = `${source}->${target}`;
+        if (linkKeys.has(key)) return;
+        linkKeys.add(key);
+        links.push([getTask(source), getTask(target)]);
+      }));
+      group = next;
+    }
+  };
+
+  const lines = text.split(/\r?\n/);
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex].replace(/%%.*$/, '').trim();
+    if (line === '') continue;
+    try {
+      // Statements can share a line, header included ("graph LR;A-->B;B-->C")
+      for (const statement of splitStatements(line)) {
+        if (direction === null) {
+          const header = statement.match(HEADER_PATTERN);
+          if (!header) {
+            return { ok: false, error: `第 ${lineIndex + 1} 行: 只支持 flowchart / graph 流程图，请以 "flowchart TD" 开头` };
+          }
+          direction = header[1] === 'LR' || header[1] === 'RL' ? 'LR' : 'TB';
+          continue;
+        }
+        parseStatement(statement);
+      }
+    } catch (error) {
+      if (error instanceof MermaidSyntaxError) {
+        return { ok: false, error: `第 ${lineIndex + 1} 行: ${error.message}` };
+      }
+      throw error;
+    }
+  }
+
+  if (direction === null) {
+    return { ok: false, error: '内容为空，请粘贴以 "flowchart TD" 开头的 Mermaid 代码' };
+  }
+  if (subgraphDepth > 0) {
+    return { ok: false, error: 'subgraph 缺少对应的 "end"' };
+  }
+  if (tasks.length === 0) {
+    return { ok: false, error: '流程图中没有节点' };
+  }
+  return { ok: true, graph: { tasks, links }, direction, warnings };
+};
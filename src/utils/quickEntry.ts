@@ -0,0 +1,57 @@
+import { Node, Edge } from 'reactflow';
+import { getOrderedTasks } from '@/utils/taskGraph';
+import type { ImportedTaskGraph } from '@/utils/taskImport';
+
+// "A -> B -> C"; the arrow character works too
+const ARROW = /\s*(?:->|→)\s*/;
+// List markers people paste along with their tasks
+const LIST_MARKER = /^(?:[-*+]|\d+[.)])\s+/;
+
+// Tasks typed into the quick-add box. Lines without arrows form one sequence; as soon as a
+// line has an arrow every line is its own chain, and a name used twice is the same task,
+// so "A -> B" and "A -> C" on two lines branch from A.
+export const parseQuickEntry = (input: string): ImportedTaskGraph => {
+  const lines = input.split('\n').map(line => line.trim().replace(LIST_MARKER, '')).filter(Boolean);
+  const tasks: ImportedTaskGraph['tasks'] = [];
+  const links: ImportedTaskGraph['links'] = [];
+  const addLink = (from: number, to: number) => {
+    if (from !== to && !links.some(([a, b]) => a === from && b === to)) links.push([from, to]);
+  };
+
+  if (!lines.some(line => ARROW.test(line))) {
+    lines.forEach((text, index) => {
+      tasks.push({ text, completed: false });
+      if (index > 0) addLink(index - 1, index);
+    });
+    return { tasks, links };
+  }
+
+  const indexByText = new Map<string, number>();
+  const getTask = (text: string) => {
+    if (!indexByText.has(text)) {
+      indexByText.set(text, tasks.length);
+      tasks.push({ text, completed: false });
+    }
+    return indexByText.get(text)!;
+  };
+  lines.forEach(line => {
+    const steps = line.split(ARROW).filter(Boolean).map(getTask);
+    steps.slice(1).forEach((step, index) => addLink(steps[index], step));
+  });
+  return { tasks, links };
+};
+
+// Node new tasks continue from: the last selected task, otherwise the end of the sorted chain
+export const getQuickEntryAnchor = (nodes: Node[], edges: Edge[]): Node | null => {
+  const selected = nodes.filter(node => node.selected);
+  if (selected.length > 0) {
+    const ordered = getOrderedTasks(selected, edges);
+    return ordered[ordered.length - 1] ?? selected[selected.length - 1];
+  }
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const connectedIds = new Set(edges
+    .filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+    .flatMap(edge => [edge.source, edge.target]));
+  const ordered = getOrderedTasks(nodes.filter(node => connectedIds.has(node.id)), edges);
+  return ordered[ordered.length - 1] ?? null;
+};
@@ -0,0 +1,150 @@
+import { Node, Edge } from 'reactflow';
+import { getOrderedTasks, findCycles } from '@/utils/taskGraph';
+import { isGroupNode } from '@/utils/taskGroups';
+
+// Time fields stored on node data; dates are local 'YYYY-MM-DD' strings
+export interface TaskScheduleData {
+  duration?: number; // Estimated duration in days
+  startDate?: string; // Task can't start before this date
+  dueDate?: string; // Task should be finished by the end of this date
+}
+
+// Computed timing for one task, in days relative to the project start
+export interface TaskSchedule {
+  duration: number;
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  slack: number;
+  critical: boolean;
+  overdue: boolean;
+}
+
+export interface ProjectSchedule {
+  projectStart: Date;
+  projectFinish: Date;
+  tasks: Map<string, TaskSchedule>;
+  criticalNodeIds: Set<string>;
+  criticalEdgeIds: Set<string>;
+}
+
+// Tasks without an estimate count as one day of work
+export const DEFAULT_TASK_DURATION = 1;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const EPSILON = 1e-6;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const parseDate = (value?: string): Date | null => {
+  if (!value) return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+};
+
+export const formatDate = (date: Date): string => {
+  const pad = (n: number) => `${n}`.padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const daysBetween = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+
+// Remaining work for a task; completed tasks no longer take time, and a group is only a container
+const getRemainingDuration = (node: Node) => {
+  if (node.data?.completed || isGroupNode(node)) return 0;
+  const duration = Number(node.data?.duration);
+  return Number.isFinite(duration) && duration >= 0 ? duration : DEFAULT_TASK_DURATION;
+};
+
+// Critical path method over the task graph: forward pass for earliest times, backward pass for
+// latest times. Edges inside dependency loops are ignored, like in getOrderedTasks.
+export const computeSchedule = (nodes: Node[], edges: Edge[], today: Date = new Date()): ProjectSchedule => {
+  const projectStart = startOfDay(today);
+  const ordered = getOrderedTasks(nodes, edges);
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const cyclicEdgeIds = new Set(findCycles(nodes, edges).flatMap(cycle => cycle.edgeIds));
+  const scheduleEdges = edges.filter(edge =>
+    nodeIds.has(edge.source) && nodeIds.has(edge.target) && !cyclicEdgeIds.has(edge.id)
+  );
+
+  const predecessors = new Map<string, string[]>();
+  const successors = new Map<string, string[]>();
+  nodes.forEach(node => {
+    predecessors.set(node.id, []);
+    successors.set(node.id, []);
+  });
+  scheduleEdges.forEach(edge => {
+    predecessors.get(edge.target)!.push(edge.source);
+    successors.get(edge.source)!.push(edge.target);
+  });
+
+  const tasks = new Map<string, TaskSchedule>();
+
+  // Forward pass
+  ordered.forEach(node => {
+    const duration = getRemainingDuration(node);
+    const startDate = parseDate(node.data?.startDate);
+    let earliestStart = startDate ? Math.max(0, daysBetween(projectStart, startDate)) : 0;
+    predecessors.get(node.id)!.forEach(id => {
+      earliestStart = Math.max(earliestStart, tasks.get(id)!.earliestFinish);
+    });
+    tasks.set(node.id, {
+      duration,
+      earliestStart,
+      earliestFinish: earliestStart + duration,
+      latestStart: 0,
+      latestFinish: 0,
+      slack: 0,
+      critical: false,
+      overdue: false,
+    });
+  });
+
+  const projectLength = Math.max(0, ...Array.from(tasks.values()).map(task => task.earliestFinish));
+
+  // Backward pass
+  [...ordered].reverse().forEach(node => {
+    const task = tasks.get(node.id)!;
+    let latestFinish = projectLength;
+    successors.get(node.id)!.forEach(id => {
+      latestFinish = Math.min(latestFinish, tasks.get(id)!.latestStart);
+    });
+    const dueDate = parseDate(node.data?.dueDate);
+    if (dueDate) {
+      // A due date means finished by the end of that day
+      latestFinish = Math.min(latestFinish, daysBetween(projectStart, dueDate) + 1);
+    }
+    task.latestFinish = latestFinish;
+    task.latestStart = latestFinish - task.duration;
+    task.slack = task.latestStart - task.earliestStart;
+    task.critical = !node.data?.completed && task.slack <= EPSILON;
+    task.overdue = !!dueDate && !node.data?.completed && task.earliestFinish > daysBetween(projectStart, dueDate) + 1 + EPSILON;
+  });
+
+  const criticalNodeIds = new Set(
+    Array.from(tasks.entries()).filter(([, task]) => task.critical).map(([id]) => id)
+  );
+  // An edge is critical when it links two critical tasks back to back
+  const criticalEdgeIds = new Set(
+    scheduleEdges
+      .filter(edge => {
+        const source = tasks.get(edge.source)!;
+        const target = tasks.get(edge.target)!;
+        return source.critical && target.critical && Math.abs(source.earliestFinish - target.earliestStart) <= EPSILON;
+      })
+      .map(edge => edge.id)
+  );
+
+  return {
+    projectStart,
+    // Work on day 0 finishes the same day, so the last day of work is ceil(length) - 1
+    projectFinish: addDays(projectStart, Math.max(0, Math.ceil(projectLength - EPSILON) - 1)),
+    tasks,
+    criticalNodeIds,
+    criticalEdgeIds,
+  };
+};
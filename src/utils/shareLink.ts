@@ -0,0 +1,74 @@
+import { Node, Edge } from 'reactflow';
+import { createFlowFile, parseFlowFile, FlowFile } from '@/utils/flowFile';
+
+// Read-only viewer route and the parameters it understands
+export const VIEWER_PATH = '/view';
+export const SHARE_TOKEN_PARAM = 'share';
+export const EMBED_PARAM = 'embed';
+// Hash key for a snapshot; the hash never reaches a server, so the flowchart stays in the link
+export const SNAPSHOT_HASH_KEY = 'snapshot';
+// Snapshot links longer than this may be cut off by chat tools and wikis
+export const LONG_SNAPSHOT_LINK_LENGTH = 8000;
+
+export type DecodeSnapshotResult =
+  | { ok: true; file: FlowFile }
+  | { ok: false; error: string };
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+// A flowchart as a compact URL-safe string: the .todoflow.json document, deflated and base64url-encoded
+export const encodeFlowSnapshot = async (data: { nodes: Node[]; edges: Edge[]; tag: string; uuid: string }) => {
+  const json = JSON.stringify(createFlowFile(data));
+  return toBase64Url(await pipeThrough(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+};
+
+// Decode a snapshot and validate it like an imported file
+export const decodeFlowSnapshot = async (encoded: string, allowedNodeTypes: string[]): Promise<DecodeSnapshotResult> => {
+  let text: string;
+  try {
+    text = new TextDecoder().decode(await pipeThrough(fromBase64Url(encoded), new DecompressionStream('deflate-raw')));
+  } catch {
+    return { ok: false, error: '链接中的流程图数据已损坏，可能复制时被截断了' };
+  }
+  const result = parseFlowFile(text, allowedNodeTypes);
+  return result.ok ? { ok: true, file: result.file } : { ok: false, error: result.error };
+};
+
+const getViewerUrl = (origin: string, query: URLSearchParams, hash = '') => {
+  const search = query.toString();
+  return `${origin}${VIEWER_PATH}${search ? `?${search}` : ''}${hash}`;
+};
+
+// Viewer link for a share token issued by the storage backend
+export const getShareTokenUrl = (origin: string, token: string, embed = false) => {
+  const query = new URLSearchParams({ [SHARE_TOKEN_PARAM]: token });
+  if (embed) query.set(EMBED_PARAM, '1');
+  return getViewerUrl(origin, query);
+};
+
+// Viewer link carrying the whole flowchart in its hash
+export const getSnapshotUrl = (origin: string, snapshot: string, embed = false) => {
+  const query = new URLSearchParams();
+  if (embed) query.set(EMBED_PARAM, '1');
+  return getViewerUrl(origin, query, `#${SNAPSHOT_HASH_KEY}=${snapshot}`);
+};
+
+// Snapshot in a viewer URL hash ("#snapshot=..."), if any
+export const getSnapshotFromHash = (hash: string) =>
+  new URLSearchParams(hash.replace(/^#/, '')).get(SNAPSHOT_HASH_KEY);
+
+export const getEmbedCode = (url: string, title: string) =>
+  `<iframe src="${url.replace(/"/g, '&quot;')}" title="${title.replace(/"/g, '&quot;')}" width="100%" height="480" style="border: 1px solid #d9d9d9; border-radius: 6px;" loading="lazy"></iframe>`;
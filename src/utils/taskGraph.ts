@@ -0,0 +1,160 @@
+import { Node, Edge } from 'reactflow';
+
+// A dependency loop: the nodes of one strongly connected component and the edges between them
+export interface TaskCycle {
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+// Only edges whose endpoints both exist take part in ordering
+const getValidEdges = (nodes: Node[], edges: Edge[]) => {
+  const nodeIds = new Set(nodes.map(node => node.id));
+  return edges.filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target));
+};
+
+// Find every dependency loop with Tarjan's strongly connected components algorithm
+export const findCycles = (nodes: Node[], edges: Edge[]): TaskCycle[] => {
+  const validEdges = getValidEdges(nodes, edges);
+  const adj = new Map<string, string[]>();
+  nodes.forEach(node => adj.set(node.id, []));
+  validEdges.forEach(edge => adj.get(edge.source)?.push(edge.target));
+
+  const indexOf = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let index = 0;
+
+  // Iterative DFS so long chains can't overflow the call stack
+  nodes.forEach(root => {
+    if (indexOf.has(root.id)) return;
+    const work: Array<{ id: string; next: number }> = [{ id: root.id, next: 0 }];
+    indexOf.set(root.id, index);
+    lowLink.set(root.id, index);
+    index++;
+    stack.push(root.id);
+    onStack.add(root.id);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const neighbours = adj.get(frame.id) || [];
+
+      if (frame.next < neighbours.length) {
+        const v = neighbours[frame.next++];
+        if (!indexOf.has(v)) {
+          indexOf.set(v, index);
+          lowLink.set(v, index);
+          index++;
+          stack.push(v);
+          onStack.add(v);
+          work.push({ id: v, next: 0 });
+        } else if (onStack.has(v)) {
+          lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, indexOf.get(v)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      const parent = work[work.length - 1];
+      if (parent) {
+        lowLink.set(parent.id, Math.min(lowLink.get(parent.id)!, lowLink.get(frame.id)!));
+      }
+      if (lowLink.get(frame.id) === indexOf.get(frame.id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.id);
+        components.push(component);
+      }
+    }
+  });
+
+  return components
+    .map(component => {
+      const members = new Set(component);
+      const cycleEdges = validEdges.filter(edge => members.has(edge.source) && members.has(edge.target));
+      return {
+        // Keep canvas order so the list is stable between renders
+        nodeIds: nodes.filter(node => members.has(node.id)).map(node => node.id),
+        edgeIds: cycleEdges.map(edge => edge.id),
+      };
+    })
+    // A single node is only a loop if it points at itself
+    .filter(cycle => cycle.nodeIds.length > 1 || cycle.edgeIds.length > 0);
+};
+
+// Whether adding source -> target would close a loop, i.e. target already reaches source
+export const wouldCreateCycle = (source: string, target: string, nodes: Node[], edges: Edge[]): boolean => {
+  if (source === target) return true;
+  const adj = new Map<string, string[]>();
+  getValidEdges(nodes, edges).forEach(edge => {
+    if (!adj.has(edge.source)) adj.set(edge.source, []);
+    adj.get(edge.source)!.push(edge.target);
+  });
+
+  const visited = new Set<string>();
+  const stack = [target];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === source) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(adj.get(current) || []));
+  }
+  return false;
+};
+
+// Helper function for topological sort.
+// Edges inside a loop are ignored so every other task still gets a valid position;
+// the looped tasks themselves are reported by findCycles.
+// With compare, whenever several tasks are free to go next the smallest comes first,
+// so the list is sorted as far as the dependencies allow.
+export const getOrderedTasks = (nodes: Node[], edges: Edge[], compare?: (a: Node, b: Node) => number): Node[] => {
+    const sortedList: Node[] = [];
+    const nodeMap = new Map(nodes.map(node => [node.id, node]));
+    const inDegree = new Map<string, number>();
+    const adj = new Map<string, string[]>();
+    const cyclicEdgeIds = new Set(findCycles(nodes, edges).flatMap(cycle => cycle.edgeIds));
+
+    nodes.forEach(node => {
+        inDegree.set(node.id, 0);
+        adj.set(node.id, []);
+    });
+
+    edges.forEach(edge => {
+        if (nodeMap.has(edge.source) && nodeMap.has(edge.target) && !cyclicEdgeIds.has(edge.id)) {
+            adj.get(edge.source)?.push(edge.target);
+            inDegree.set(edge.target, (inDegree.get(edge.target) || 0) + 1);
+        }
+    });
+
+    const queue: string[] = [];
+    nodes.forEach(node => {
+        if (inDegree.get(node.id) === 0) {
+            queue.push(node.id);
+        }
+    });
+
+    while (queue.length > 0) {
+        if (compare) queue.sort((a, b) => compare(nodeMap.get(a)!, nodeMap.get(b)!));
+        const u = queue.shift()!;
+        const node = nodeMap.get(u);
+        if (node) {
+            sortedList.push(node);
+        }
+
+        adj.get(u)?.forEach(v => {
+            const currentInDegree = (inDegree.get(v) || 0) - 1;
+            inDegree.set(v, currentInDegree);
+            if (currentInDegree === 0) {
+                queue.push(v);
+            }
+        });
+    }
+
+    return sortedList;
+};
@@ -0,0 +1,270 @@
+import { Node, Edge, XYPosition } from 'reactflow';
+
+// Container node holding subtasks; its children point at it through React Flow's parentNode
+export const GROUP_NODE_TYPE = 'taskGroup';
+
+export interface GroupSize {
+  width: number;
+  height: number;
+}
+
+export interface GroupData {
+  label?: string;
+  collapsed?: boolean;
+  // Size to restore when a collapsed group is expanded again
+  expandedSize?: GroupSize;
+  // Derived by applyGroupStates, never stored
+  completed?: boolean;
+  progress?: { done: number; total: number };
+}
+
+export const DEFAULT_GROUP_SIZE: GroupSize = { width: 360, height: 240 };
+export const COLLAPSED_GROUP_SIZE: GroupSize = { width: 220, height: 96 };
+// Room around the members of a new group, with extra space on top for its header
+const GROUP_PADDING = 24;
+const GROUP_HEADER_HEIGHT = 36;
+// Same fallback size the auto layout assumes for nodes not measured yet
+const DEFAULT_NODE_SIZE: GroupSize = { width: 200, height: 80 };
+
+export const isGroupNode = (node: Node) => node.type === GROUP_NODE_TYPE;
+
+export const getNodeSize = (node: Node): GroupSize => ({
+  width: node.width ?? (Number(node.style?.width) || DEFAULT_NODE_SIZE.width),
+  height: node.height ?? (Number(node.style?.height) || DEFAULT_NODE_SIZE.height),
+});
+
+// Position on the canvas; child positions are stored relative to their parent
+export const getAbsolutePosition = (node: Node, nodeMap: Map<string, Node>): XYPosition => {
+  let { x, y } = node.position;
+  let parent = node.parentNode ? nodeMap.get(node.parentNode) : undefined;
+  const seen = new Set([node.id]);
+  while (parent && !seen.has(parent.id)) {
+    seen.add(parent.id);
+    x += parent.position.x;
+    y += parent.position.y;
+    parent = parent.parentNode ? nodeMap.get(parent.parentNode) : undefined;
+  }
+  return { x, y };
+};
+
+// Children, grandchildren etc. of a group
+export const getDescendantIds = (groupId: string, nodes: Node[]): Set<string> => {
+  const descendants = new Set<string>();
+  let frontier = [groupId];
+  while (frontier.length > 0) {
+    const parents = new Set(frontier);
+    frontier = nodes
+      .filter(node => node.parentNode && parents.has(node.parentNode) && !descendants.has(node.id))
+      .map(node => node.id);
+    frontier.forEach(id => descendants.add(id));
+  }
+  return descendants;
+};
+
+// The nodes plus everything inside the groups among them, e.g. for deleting or copying a group
+export const withDescendants = (nodeIds: Set<string>, nodes: Node[]): Set<string> => {
+  const result = new Set(nodeIds);
+  nodeIds.forEach(id => getDescendantIds(id, nodes).forEach(descendant => result.add(descendant)));
+  return result;
+};
+
+// React Flow needs every parent before its children in the nodes array; keeps the order otherwise
+export const orderParentsFirst = (nodes: Node[]): Node[] => {
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  const placed = new Set<string>();
+  const result: Node[] = [];
+  const place = (node: Node, path: Set<string>) => {
+    if (placed.has(node.id)) return;
+    const parent = node.parentNode ? nodeMap.get(node.parentNode) : undefined;
+    if (parent && !path.has(parent.id)) place(parent, new Set(path).add(node.id));
+    placed.add(node.id);
+    result.push(node);
+  };
+  nodes.forEach(node => place(node, new Set()));
+  return result;
+};
+
+// Parent links that can't work (missing or non-group parent, a loop) are dropped, e.g. from an
+// edited file, and those nodes keep their place on the canvas; returns the ids that lost their parent
+export const normalizeParentNodes = (nodes: Node[]): { nodes: Node[]; detachedIds: string[] } => {
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  const isValidParent = (node: Node) => {
+    const seen = new Set([node.id]);
+    let parent = node.parentNode ? nodeMap.get(node.parentNode) : undefined;
+    if (!parent || !isGroupNode(parent)) return false;
+    while (parent) {
+      if (seen.has(parent.id)) return false;
+      seen.add(parent.id);
+      parent = parent.parentNode ? nodeMap.get(parent.parentNode) : undefined;
+    }
+    return true;
+  };
+  const detachedIds = nodes.filter(node => node.parentNode !== undefined && !isValidParent(node)).map(node => node.id);
+  if (detachedIds.length === 0) return { nodes: orderParentsFirst(nodes), detachedIds };
+  const detached = new Set(detachedIds);
+  return {
+    nodes: orderParentsFirst(nodes.map(node => {
+      if (!detached.has(node.id)) return node;
+      const fixed = { ...node, position: getAbsolutePosition(node, nodeMap) };
+      delete fixed.parentNode;
+      return fixed;
+    })),
+    detachedIds,
+  };
+};
+
+// Done and total count of the tasks inside a group, nested groups counting through their own tasks
+export const getGroupProgress = (groupId: string, nodes: Node[]) => {
+  const descendantIds = getDescendantIds(groupId, nodes);
+  const tasks = nodes.filter(node => descendantIds.has(node.id) && !isGroupNode(node));
+  return { done: tasks.filter(node => node.data?.completed).length, total: tasks.length };
+};
+
+// A group is complete once all of its tasks are; its own completed flag is never toggled directly
+export const applyGroupStates = (nodes: Node[]): Node[] =>
+  nodes.map(node => {
+    if (!isGroupNode(node)) return node;
+    const progress = getGroupProgress(node.id, nodes);
+    return { ...node, data: { ...node.data, completed: progress.total > 0 && progress.done === progress.total, progress } };
+  });
+
+// Nodes hidden inside collapsed groups, mapped to the outermost collapsed group that hides them
+export const getCollapsedOwners = (nodes: Node[]): Map<string, string> => {
+  const owners = new Map<string, string>();
+  nodes
+    .filter(node => isGroupNode(node) && node.data?.collapsed)
+    .forEach(group => {
+      getDescendantIds(group.id, nodes).forEach(id => owners.set(id, group.id));
+    });
+  // A collapsed group inside another collapsed group is hidden as well; point at the outer one
+  owners.forEach((owner, id) => {
+    let outer = owner;
+    const seen = new Set<string>();
+    while (owners.has(outer) && !seen.has(outer)) {
+      seen.add(outer);
+      outer = owners.get(outer)!;
+    }
+    owners.set(id, outer);
+  });
+  return owners;
+};
+
+// Edges to tasks inside a collapsed group end at the group instead; edges between two of its
+// own tasks are hidden. Ids stay the same so deleting a re-routed edge deletes the real one.
+export const rerouteCollapsedEdge = (edge: Edge, owners: Map<string, string>): Edge => {
+  const source = owners.get(edge.source) ?? edge.source;
+  const target = owners.get(edge.target) ?? edge.target;
+  if (source === edge.source && target === edge.target) return edge;
+  return { ...edge, source, target, ...(source === target ? { hidden: true } : {}) };
+};
+
+// Collapse a group to a summary card, or expand it back to the size it had
+export const setGroupCollapsed = (node: Node, collapsed: boolean): Node => {
+  if (!!node.data?.collapsed === collapsed) return node;
+  if (collapsed) {
+    return {
+      ...node,
+      style: { ...node.style, ...COLLAPSED_GROUP_SIZE },
+      data: { ...node.data, collapsed: true, expandedSize: getNodeSize(node) },
+    };
+  }
+  const { expandedSize, ...data } = node.data ?? {};
+  return {
+    ...node,
+    style: { ...node.style, ...(expandedSize ?? DEFAULT_GROUP_SIZE) },
+    // React Flow measures the node again at its restored size
+    width: undefined,
+    height: undefined,
+    data: { ...data, collapsed: false },
+  };
+};
+
+// Wrap nodes in the given new group, sized around them. The group takes over their common parent,
+// if they have one; nodes whose ancestor is also being grouped move along with it.
+export const groupNodes = (nodes: Node[], nodeIds: Set<string>, group: Node): Node[] => {
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  const hasGroupedAncestor = (node: Node) => {
+    let parentId = node.parentNode;
+    while (parentId) {
+      if (nodeIds.has(parentId)) return true;
+      parentId = nodeMap.get(parentId)?.parentNode;
+    }
+    return false;
+  };
+  const members = nodes.filter(node => nodeIds.has(node.id) && !hasGroupedAncestor(node));
+  if (members.length === 0) return nodes;
+
+  const boxes = members.map(node => ({ position: getAbsolutePosition(node, nodeMap), size: getNodeSize(node) }));
+  const minX = Math.min(...boxes.map(box => box.position.x)) - GROUP_PADDING;
+  const minY = Math.min(...boxes.map(box => box.position.y)) - GROUP_PADDING - GROUP_HEADER_HEIGHT;
+  const maxX = Math.max(...boxes.map(box => box.position.x + box.size.width)) + GROUP_PADDING;
+  const maxY = Math.max(...boxes.map(box => box.position.y + box.size.height)) + GROUP_PADDING;
+
+  const parentIds = new Set(members.map(node => node.parentNode));
+  const parent = parentIds.size === 1 && members[0].parentNode ? nodeMap.get(members[0].parentNode) : undefined;
+  const parentPosition = parent ? getAbsolutePosition(parent, nodeMap) : { x: 0, y: 0 };
+  const newGroup: Node = {
+    ...group,
+    position: { x: minX - parentPosition.x, y: minY - parentPosition.y },
+    style: { ...group.style, width: maxX - minX, height: maxY - minY },
+    ...(parent ? { parentNode: parent.id } : {}),
+  };
+
+  const memberIds = new Set(members.map(node => node.id));
+  const updated = nodes.map(node => {
+    if (!memberIds.has(node.id)) return node;
+    const position = getAbsolutePosition(node, nodeMap);
+    return { ...node, parentNode: newGroup.id, position: { x: position.x - minX, y: position.y - minY } };
+  });
+  return orderParentsFirst([newGroup, ...updated]);
+};
+
+// Remove a group and hand its children to the group's own parent, keeping them where they are
+export const ungroupNode = (nodes: Node[], groupId: string): Node[] => {
+  const group = nodes.find(node => node.id === groupId);
+  if (!group) return nodes;
+  return nodes
+    .filter(node => node.id !== groupId)
+    .map(node => {
+      if (node.parentNode !== groupId) return node;
+      const child: Node = { ...node, position: { x: node.position.x + group.position.x, y: node.position.y + group.position.y } };
+      delete child.parentNode;
+      return group.parentNode ? { ...child, parentNode: group.parentNode } : child;
+    });
+};
+
+// After a drag, put each moved node into the innermost expanded group under its centre, or take it
+// out of its group when it was dragged outside
+export const reparentNodes = (nodes: Node[], nodeIds: Set<string>): Node[] => {
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  let changed = false;
+  const updated = nodes.map(node => {
+    // Nodes moving along with their dragged parent stay where they are
+    if (!nodeIds.has(node.id) || (node.parentNode && nodeIds.has(node.parentNode))) return node;
+    const position = getAbsolutePosition(node, nodeMap);
+    const size = getNodeSize(node);
+    const centre = { x: position.x + size.width / 2, y: position.y + size.height / 2 };
+    const ownDescendants = getDescendantIds(node.id, nodes);
+
+    let target: { group: Node; position: XYPosition; area: number } | null = null;
+    for (const group of nodes) {
+      if (!isGroupNode(group) || group.data?.collapsed || group.id === node.id || ownDescendants.has(group.id)) continue;
+      const groupPosition = getAbsolutePosition(group, nodeMap);
+      const groupSize = getNodeSize(group);
+      const inside = centre.x >= groupPosition.x && centre.x <= groupPosition.x + groupSize.width
+        && centre.y >= groupPosition.y && centre.y <= groupPosition.y + groupSize.height;
+      const area = groupSize.width * groupSize.height;
+      // The smallest group around the point is the innermost one
+      if (inside && (!target || area < target.area)) target = { group, position: groupPosition, area };
+    }
+
+    if (target?.group.id === node.parentNode) return node;
+    changed = true;
+    const moved: Node = { ...node };
+    delete moved.parentNode;
+    return target
+      ? { ...moved, parentNode: target.group.id, position: { x: position.x - target.position.x, y: position.y - target.position.y } }
+      : { ...moved, position };
+  });
+  return changed ? orderParentsFirst(updated) : nodes;
+};
@@ -0,0 +1,55 @@
+import { Node, Edge, XYPosition } from 'reactflow';
+import { computeLayeredLayout, LayoutDirection } from '@/utils/autoLayout';
+import { createTaskEdge, getEdgeId, getFreeAreaOrigin } from '@/utils/flowData';
+
+// Tasks read from a text format (Markdown checklist, Mermaid, ...) before they become nodes
+export interface ImportedTask {
+  text: string;
+  completed: boolean;
+}
+
+export interface ImportedTaskGraph {
+  tasks: ImportedTask[];
+  // Dependencies as [from, to] indexes into `tasks`
+  links: Array<[number, number]>;
+}
+
+// Lay out new nodes in layers with their top-left corner at origin
+export const placeTaskGraph = (
+  nodes: Node[],
+  edges: Edge[],
+  origin: XYPosition,
+  direction: LayoutDirection = 'TB'
+): { nodes: Node[]; edges: Edge[] } => {
+  const layout = computeLayeredLayout(nodes, edges, { direction });
+  const positions = Array.from(layout.positions.values());
+  const minX = Math.min(...positions.map(position => position.x));
+  const minY = Math.min(...positions.map(position => position.y));
+  return {
+    nodes: nodes.map(node => {
+      const position = layout.positions.get(node.id)!;
+      return { ...node, position: { x: origin.x + position.x - minX, y: origin.y + position.y - minY } };
+    }),
+    // Layout picked the handles, so regenerate ids the way addEdge would
+    edges: layout.edges.map(edge => ({ ...edge, id: getEdgeId(edge) })),
+  };
+};
+
+// Turn imported tasks into text nodes and dependency edges, laid out in layers
+// to the right of the existing nodes
+export const instantiateTaskGraph = (
+  graph: ImportedTaskGraph,
+  existingNodes: Node[],
+  getId: () => string,
+  direction: LayoutDirection = 'TB'
+): { nodes: Node[]; edges: Edge[] } => {
+  const ids = graph.tasks.map(() => getId());
+  const nodes: Node[] = graph.tasks.map((task, index) => ({
+    id: ids[index],
+    type: 'text',
+    position: { x: 0, y: 0 },
+    data: { label: 'Text Input', text: task.text, ...(task.completed ? { completed: true } : {}) },
+  }));
+  const edges = graph.links.map(([from, to]) => createTaskEdge(ids[from], ids[to]));
+  return placeTaskGraph(nodes, edges, getFreeAreaOrigin(existingNodes), direction);
+};
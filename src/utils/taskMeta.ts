@@ -0,0 +1,108 @@
+import { Node } from 'reactflow';
+import { parseDate } from '@/utils/schedule';
+
+export type TaskPriority = 'high' | 'medium' | 'low';
+
+// Planning fields stored on node data next to the schedule fields
+export interface TaskMetaData {
+  priority?: TaskPriority;
+  assignee?: string;
+  tags?: string[];
+  notes?: string;
+}
+
+export const TASK_PRIORITY_META: Record<TaskPriority, { label: string; color: string }> = {
+  high: { label: '高', color: 'red' },
+  medium: { label: '中', color: 'orange' },
+  low: { label: '低', color: 'blue' },
+};
+
+// Highest first, the order priorities are sorted and listed in
+export const TASK_PRIORITIES = Object.keys(TASK_PRIORITY_META) as TaskPriority[];
+
+export const getTaskPriority = (node: Node): TaskPriority | undefined => {
+  const priority = node.data?.priority;
+  return TASK_PRIORITIES.includes(priority) ? priority : undefined;
+};
+
+export const getTaskAssignee = (node: Node): string => {
+  const assignee = node.data?.assignee;
+  return typeof assignee === 'string' ? assignee.trim() : '';
+};
+
+export const getTaskTags = (node: Node): string[] => {
+  const tags = node.data?.tags;
+  return Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '') : [];
+};
+
+// Distinct assignees and tags in use, offered as suggestions by the editors and filters
+export const collectTaskAssignees = (nodes: Node[]): string[] =>
+  Array.from(new Set(nodes.map(getTaskAssignee).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+export const collectTaskTags = (nodes: Node[]): string[] =>
+  Array.from(new Set(nodes.flatMap(getTaskTags))).sort((a, b) => a.localeCompare(b));
+
+export type TaskSortKey = 'order' | 'priority' | 'dueDate' | 'assignee';
+
+export const TASK_SORT_LABELS: Record<TaskSortKey, string> = {
+  order: '依赖顺序',
+  priority: '优先级',
+  dueDate: '截止日期',
+  assignee: '负责人',
+};
+
+// Tasks missing the field go last
+const compareMissingLast = <T>(a: T | undefined, b: T | undefined, compare: (a: T, b: T) => number) => {
+  if (a === undefined) return b === undefined ? 0 : 1;
+  if (b === undefined) return -1;
+  return compare(a, b);
+};
+
+// Comparator for sorting tasks by a field; undefined keeps the plain dependency order
+export const getTaskComparator = (key: TaskSortKey): ((a: Node, b: Node) => number) | undefined => {
+  switch (key) {
+    case 'priority': {
+      const rank = (node: Node) => {
+        const priority = getTaskPriority(node);
+        return priority ? TASK_PRIORITIES.indexOf(priority) : undefined;
+      };
+      return (a, b) => compareMissingLast(rank(a), rank(b), (x, y) => x - y);
+    }
+    case 'dueDate': {
+      const due = (node: Node) => parseDate(node.data?.dueDate)?.getTime();
+      return (a, b) => compareMissingLast(due(a), due(b), (x, y) => x - y);
+    }
+    case 'assignee':
+      return (a, b) => compareMissingLast(getTaskAssignee(a) || undefined, getTaskAssignee(b) || undefined, (x, y) => x.localeCompare(y));
+    default:
+      return undefined;
+  }
+};
+
+// Filters of the todo list; empty fields don't restrict anything
+export interface TaskMetaFilter {
+  priorities: TaskPriority[];
+  assignees: string[];
+  // A task needs every selected tag
+  tags: string[];
+  overdueOnly: boolean;
+}
+
+export const EMPTY_TASK_META_FILTER: TaskMetaFilter = { priorities: [], assignees: [], tags: [], overdueOnly: false };
+
+export const isTaskMetaFilterActive = (filter: TaskMetaFilter) =>
+  filter.priorities.length > 0 || filter.assignees.length > 0 || filter.tags.length > 0 || filter.overdueOnly;
+
+export const matchesTaskMetaFilter = (node: Node, filter: TaskMetaFilter, overdue: boolean): boolean => {
+  if (filter.overdueOnly && !overdue) return false;
+  if (filter.priorities.length > 0) {
+    const priority = getTaskPriority(node);
+    if (!priority || !filter.priorities.includes(priority)) return false;
+  }
+  if (filter.assignees.length > 0 && !filter.assignees.includes(getTaskAssignee(node))) return false;
+  if (filter.tags.length > 0) {
+    const tags = getTaskTags(node);
+    if (!filter.tags.every(tag => tags.includes(tag))) return false;
+  }
+  return true;
+};
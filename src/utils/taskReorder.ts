@@ -0,0 +1,134 @@
+import { Node, Edge } from 'reactflow';
+import { createTaskEdge } from '@/utils/flowData';
+import { getOrderedTasks } from '@/utils/taskGraph';
+
+// Handles on the sides of two nodes that face each other, so new edges don't loop around
+const getFacingHandles = (source?: Node, target?: Node): Pick<Edge, 'sourceHandle' | 'targetHandle'> => {
+  if (!source || !target) return {};
+  const dx = target.position.x - source.position.x;
+  const dy = target.position.y - source.position.y;
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return dx > 0
+      ? { sourceHandle: 'right-source', targetHandle: 'left-target' }
+      : { sourceHandle: 'left-source', targetHandle: 'right-target' };
+  }
+  return dy > 0
+    ? { sourceHandle: 'bottom-source', targetHandle: 'top-target' }
+    : { sourceHandle: 'top-source', targetHandle: 'bottom-target' };
+};
+
+const linkTasks = (edges: Edge[], nodes: Node[], source: string, target: string): Edge[] => {
+  if (edges.some(edge => edge.source === source && edge.target === target)) return edges;
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  return edges.concat(createTaskEdge(source, target, getFacingHandles(nodeMap.get(source), nodeMap.get(target))));
+};
+
+// Whether target can be reached from source along edges
+const reaches = (edges: Edge[], source: string, target: string) => {
+  const visited = new Set<string>();
+  const stack = [source];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === target) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    edges.forEach(edge => {
+      if (edge.source === current) stack.push(edge.target);
+    });
+  }
+  return false;
+};
+
+// Take a task out of the dependency chain. Its predecessors are linked straight to its
+// successors (unless already connected), so the remaining tasks keep their order.
+export const detachTask = (nodeId: string, nodes: Node[], edges: Edge[]): Edge[] => {
+  const predecessors = edges.filter(edge => edge.target === nodeId && edge.source !== nodeId).map(edge => edge.source);
+  const successors = edges.filter(edge => edge.source === nodeId && edge.target !== nodeId).map(edge => edge.target);
+  let next = edges.filter(edge => edge.source !== nodeId && edge.target !== nodeId);
+  predecessors.forEach(source => successors.forEach(target => {
+    if (!reaches(next, source, target)) next = linkTasks(next, nodes, source, target);
+  }));
+  return next;
+};
+
+export interface TaskMoveResult {
+  edges: Edge[];
+  // Dependencies of the moved task that its new position contradicts; they are removed
+  violated: Edge[];
+  // Tasks of the sorted list that the new edges leave out of it
+  unsorted: string[];
+}
+
+// Sorted tasks among the nodes that still have edges, the way the todo list orders them:
+// sorted once in node order, then again with the comparator, if any
+const getSortedIds = (nodes: Node[], edges: Edge[], compare?: (a: Node, b: Node) => number) => {
+  const connectedIds = new Set(edges.flatMap(edge => [edge.source, edge.target]));
+  const sorted = getOrderedTasks(nodes.filter(node => connectedIds.has(node.id)), edges);
+  return (compare ? getOrderedTasks(sorted, edges, compare) : sorted).map(node => node.id);
+};
+
+// Put a task at index of the sorted list (counted without the task itself) by rewriting
+// edges: it is linked after the task before it and before the task after it, and a direct
+// edge between those two is replaced by the path through it. Its other dependencies are
+// kept where they still point forward and aren't implied by the new chain; the ones that
+// would now point backwards are reported. Where the list would still come out in another
+// order, or a task would lose all its edges, neighbouring tasks are linked as well. Pass the
+// comparator the list is sorted with.
+export const moveTaskInOrder = (
+  order: string[],
+  nodeId: string,
+  index: number,
+  nodes: Node[],
+  edges: Edge[],
+  compare?: (a: Node, b: Node) => number
+): TaskMoveResult => {
+  const newOrder = order.filter(id => id !== nodeId);
+  newOrder.splice(index, 0, nodeId);
+  const position = new Map(newOrder.map((id, i) => [id, i]));
+  const previous = newOrder[index - 1];
+  const following = newOrder[index + 1];
+
+  const ownEdges = edges.filter(edge => edge.source === nodeId || edge.target === nodeId);
+  // Edges to tasks outside the sorted list (e.g. loops) can't be checked against it
+  const violated = ownEdges.filter(edge => {
+    const source = position.get(edge.source);
+    const target = position.get(edge.target);
+    return source !== undefined && target !== undefined && source > target;
+  });
+
+  let next = detachTask(nodeId, nodes, edges);
+  if (previous !== undefined && following !== undefined) {
+    next = next.filter(edge => !(edge.source === previous && edge.target === following));
+  }
+  if (previous !== undefined) next = linkTasks(next, nodes, previous, nodeId);
+  if (following !== undefined) next = linkTasks(next, nodes, nodeId, following);
+  ownEdges
+    .filter(edge => !violated.includes(edge) && !reaches(next, edge.source, edge.target))
+    .forEach(edge => { next = next.concat(edge); });
+
+  // Tasks whose only edges were removed stay in the list next to their neighbour
+  const connectedIds = new Set(next.flatMap(edge => [edge.source, edge.target]));
+  newOrder.forEach((id, i) => {
+    if (connectedIds.has(id) || newOrder.length < 2) return;
+    const neighbour = i > 0 ? newOrder[i - 1] : newOrder[1];
+    next = i > 0 ? linkTasks(next, nodes, neighbour, id) : linkTasks(next, nodes, id, neighbour);
+    connectedIds.add(neighbour);
+    connectedIds.add(id);
+  });
+
+  // Every edge now agrees with newOrder, so linking a task that comes too early after the task
+  // right before it in newOrder can't form a loop, and each round fixes one more pair. Stops if
+  // that edge exists already, which only happens for edges of an existing loop.
+  for (;;) {
+    const sorted = getSortedIds(nodes, next, compare).filter(id => position.has(id));
+    const mismatch = sorted.findIndex((id, i) => id !== newOrder[i]);
+    if (mismatch === -1) break;
+    const early = sorted[mismatch];
+    const linked = linkTasks(next, nodes, newOrder[position.get(early)! - 1], early);
+    if (linked === next) break;
+    next = linked;
+  }
+
+  const sortedIds = new Set(getSortedIds(nodes, next, compare));
+  return { edges: next, violated, unsorted: newOrder.filter(id => !sortedIds.has(id)) };
+};
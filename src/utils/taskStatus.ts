@@ -0,0 +1,66 @@
+import { Node, Edge } from 'reactflow';
+
+// A task is done once checked off, blocked while any upstream task is open, otherwise ready
+export type TaskStatus = 'blocked' | 'ready' | 'done';
+
+export const TASK_STATUS_META: Record<TaskStatus, { label: string; color: string; className: string }> = {
+  blocked: { label: '阻塞', color: 'orange', className: 'task-status-blocked' },
+  ready: { label: '就绪', color: 'green', className: 'task-status-ready' },
+  done: { label: '已完成', color: 'default', className: 'task-status-done' },
+};
+
+const isCompleted = (node: Node | undefined) => !!node?.data?.completed;
+
+// Map each node id to the ids of its direct predecessors (edges pointing at it)
+const getPredecessorMap = (nodes: Node[], edges: Edge[]) => {
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const predecessors = new Map<string, string[]>();
+  nodes.forEach(node => predecessors.set(node.id, []));
+  edges.forEach(edge => {
+    if (nodeIds.has(edge.source) && nodeIds.has(edge.target)) {
+      predecessors.get(edge.target)?.push(edge.source);
+    }
+  });
+  return predecessors;
+};
+
+// Direct predecessors of a task that are not completed yet
+export const getOpenPredecessors = (nodeId: string, nodes: Node[], edges: Edge[]): Node[] => {
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  const predecessors = getPredecessorMap(nodes, edges).get(nodeId) || [];
+  return predecessors
+    .map(id => nodeMap.get(id))
+    .filter((node): node is Node => !!node && !isCompleted(node));
+};
+
+export const getTaskStatuses = (nodes: Node[], edges: Edge[]): Map<string, TaskStatus> => {
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  const predecessors = getPredecessorMap(nodes, edges);
+  const statuses = new Map<string, TaskStatus>();
+
+  nodes.forEach(node => {
+    if (isCompleted(node)) {
+      statuses.set(node.id, 'done');
+      return;
+    }
+
+    // Walk all upstream tasks, not just direct ones, so tasks checked off out of order still block
+    const visited = new Set<string>([node.id]);
+    const stack = [...(predecessors.get(node.id) || [])];
+    let blocked = false;
+    while (stack.length > 0 && !blocked) {
+      const current = stack.pop()!;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      if (!isCompleted(nodeMap.get(current))) {
+        blocked = true;
+      } else {
+        stack.push(...(predecessors.get(current) || []));
+      }
+    }
+
+    statuses.set(node.id, blocked ? 'blocked' : 'ready');
+  });
+
+  return statuses;
+};
@@ -0,0 +1,27 @@
+// Plain-text edits as splices, shared by collaborative editing and the text node
+
+// The change from `before` to `after` as a single splice
+export const getTextSplice = (before: string, after: string) => {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let end = 0;
+  while (
+    end < before.length - start
+    && end < after.length - start
+    && before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) end++;
+  return { index: start, deleteCount: before.length - start - end, insert: after.slice(start, after.length - end) };
+};
+
+// Apply the edit that turned `base` into `mine` on top of `theirs`, which changed `base` in its
+// own way. Used when a text was edited locally while a collaborator edited it too.
+export const rebaseTextEdit = (base: string, mine: string, theirs: string) => {
+  const local = getTextSplice(base, mine);
+  const remote = getTextSplice(base, theirs);
+  // Shift the local splice by what the remote one added or removed before it
+  const shift = remote.index + remote.deleteCount <= local.index ? remote.insert.length - remote.deleteCount : 0;
+  const overlaps = remote.index < local.index + local.deleteCount && local.index < remote.index + remote.deleteCount;
+  if (overlaps) return mine; // Both replaced the same characters; keep the local text
+  const index = local.index + shift;
+  return theirs.slice(0, index) + local.insert + theirs.slice(index + local.deleteCount);
+};